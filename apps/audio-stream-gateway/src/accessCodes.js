@@ -0,0 +1,190 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+const config = require('./config');
+const storage = require('./storage');
+
+const scrypt = promisify(crypto.scrypt);
+
+/**
+ * Named access codes and the role each one grants. ACCESS_CODE from the
+ * environment is always an admin code, so there is a way in to create the
+ * others; those are stored hashed and cached in memory like session revocations.
+ *
+ * Each stored code also keeps `lookup`, an HMAC of the code under a key derived
+ * from SESSION_SECRET, so a check finds its entry without running scrypt
+ * against every code. scrypt then only confirms that one entry.
+ */
+
+// Each role can do everything the ones before it can
+const ROLES = ['listener', 'curator', 'admin'];
+const ENV_CODE_ID = 'env';
+const MIN_CODE_LENGTH = 6;
+const KEY_LENGTH = 32;
+const lookupKey = crypto.createHmac('sha256', config.accessControl.sessionSecret).update('access-code-lookup').digest();
+// Lookups made under another SESSION_SECRET (or before there were any) don't match this id
+const LOOKUP_KEY_ID = crypto.createHash('sha256').update(lookupKey).digest('hex').slice(0, 16);
+
+let codes = [];
+
+function isRole(value) {
+  return ROLES.includes(value);
+}
+
+function roleAtLeast(role, required) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+async function hashCode(code, salt = crypto.randomBytes(16).toString('hex')) {
+  const key = await scrypt(code, salt, KEY_LENGTH);
+  return { salt, hash: key.toString('hex') };
+}
+
+function codeLookup(code) {
+  return { lookup: crypto.createHmac('sha256', lookupKey).update(code).digest('hex'), lookupKeyId: LOOKUP_KEY_ID };
+}
+
+async function codeMatches(code, entry) {
+  const { hash } = await hashCode(code, entry.salt);
+  return crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(entry.hash, 'hex'));
+}
+
+function constantTimeEquals(a, b) {
+  const digest = (value) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+async function loadAccessCodes() {
+  codes = await storage.listAccessCodes();
+  const stale = codes.filter((entry) => entry.lookupKeyId !== LOOKUP_KEY_ID).length;
+  if (stale) {
+    console.warn(`[AccessCodes] ${stale} code(s) have no lookup for this SESSION_SECRET and are checked with scrypt until next used`);
+  }
+}
+
+// What the admin endpoints show; hashes never leave the gateway
+function describeAccessCode({ salt: _salt, hash: _hash, lookup: _lookup, lookupKeyId: _lookupKeyId, ...entry }) {
+  return entry;
+}
+
+async function storeLookup(id, lookup) {
+  codes = await storage.updateAccessCodes((current) =>
+    current.map((entry) => (entry.id === id ? { ...entry, ...lookup } : entry))
+  );
+}
+
+function listAccessCodes() {
+  return codes.map(describeAccessCode);
+}
+
+/**
+ * The code's id, name and role, or null when it matches none.
+ */
+async function findAccessCode(code) {
+  if (constantTimeEquals(code, config.accessControl.accessCode)) {
+    return { id: ENV_CODE_ID, name: 'ACCESS_CODE', role: 'admin' };
+  }
+  const lookup = codeLookup(code);
+  const entry = codes.find((candidate) => candidate.lookupKeyId === LOOKUP_KEY_ID && candidate.lookup === lookup.lookup);
+  if (entry) {
+    return (await codeMatches(code, entry)) ? describeAccessCode(entry) : null;
+  }
+  // Codes saved before lookups or under another SESSION_SECRET get one once they match
+  for (const stale of codes.filter((candidate) => candidate.lookupKeyId !== LOOKUP_KEY_ID)) {
+    if (await codeMatches(code, stale)) {
+      await storeLookup(stale.id, lookup);
+      return describeAccessCode(stale);
+    }
+  }
+  return null;
+}
+
+/**
+ * Current role of a code, or null once it has been deleted. Sessions look it
+ * up on every request, so role changes and deletions apply straight away.
+ */
+function accessCodeRole(codeId) {
+  if (codeId === ENV_CODE_ID) {
+    return 'admin';
+  }
+  return codes.find((entry) => entry.id === codeId)?.role ?? null;
+}
+
+function validationError(message) {
+  const error = new Error(message);
+  error.code = 'INVALID_ACCESS_CODE';
+  return error;
+}
+
+/**
+ * Add a code. Without `code` a random one is generated; either way it is only
+ * returned here, in plain text.
+ */
+async function createAccessCode({ name, role, code = crypto.randomBytes(9).toString('base64url') }) {
+  if (code.length < MIN_CODE_LENGTH) {
+    throw validationError(`Access codes need at least ${MIN_CODE_LENGTH} characters`);
+  }
+  if (await findAccessCode(code)) {
+    throw validationError('That access code is already in use');
+  }
+  const now = new Date().toISOString();
+  const entry = {
+    id: crypto.randomUUID(),
+    name,
+    role,
+    ...(await hashCode(code)),
+    ...codeLookup(code),
+    createdAt: now,
+    updatedAt: now,
+  };
+  codes = await storage.updateAccessCodes((current) => [...current, entry]);
+  console.log(`[AccessCodes] Created ${role} code "${name}" (${entry.id})`);
+  return { ...describeAccessCode(entry), code };
+}
+
+// Returns the updated code, or null if there is no such code
+async function updateAccessCode(id, { name, role }) {
+  let updated = null;
+  codes = await storage.updateAccessCodes((current) => {
+    updated = null;
+    const index = current.findIndex((entry) => entry.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+    updated = {
+      ...current[index],
+      ...(name !== undefined && { name }),
+      ...(role !== undefined && { role }),
+      updatedAt: new Date().toISOString(),
+    };
+    return current.map((entry, position) => (position === index ? updated : entry));
+  });
+  return updated && describeAccessCode(updated);
+}
+
+// Sessions opened with the code stop working; returns false if there is no such code
+async function deleteAccessCode(id) {
+  let deleted = false;
+  codes = await storage.updateAccessCodes((current) => {
+    const remaining = current.filter((entry) => entry.id !== id);
+    deleted = remaining.length !== current.length;
+    return deleted ? remaining : undefined;
+  });
+  if (deleted) {
+    console.log(`[AccessCodes] Deleted code ${id}`);
+  }
+  return deleted;
+}
+
+module.exports = {
+  ROLES,
+  ENV_CODE_ID,
+  isRole,
+  roleAtLeast,
+  loadAccessCodes,
+  listAccessCodes,
+  findAccessCode,
+  accessCodeRole,
+  createAccessCode,
+  updateAccessCode,
+  deleteAccessCode,
+};
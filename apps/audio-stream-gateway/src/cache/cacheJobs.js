@@ -0,0 +1,646 @@
+const { EventEmitter } = require('events');
+const { spawn } = require('child_process');
+const { PassThrough, Transform } = require('stream');
+const ffmpeg = require('fluent-ffmpeg');
+const config = require('../config');
+const storage = require('../storage');
+const { buildYtDlpArgs, fetchVideoInfo } = require('../youtube');
+const { DEFAULT_QUALITY, getRendition } = require('../renditions');
+const { StreamBuffer } = require('./streamBuffer');
+const { createLoudnessAnalyzer, normalizeStoredAudio, describeLoudness } = require('./loudness');
+
+// Phases a job moves through, in order. 'done' and 'failed' are terminal.
+// 'normalizing' only happens when loudness normalization is baked into the file.
+const JOB_PHASES = ['queued', 'metadata', 'downloading', 'transcoding', 'uploading', 'normalizing', 'done', 'failed'];
+const TERMINAL_PHASES = ['done', 'failed'];
+
+// yt-dlp and ffmpeg report progress many times a second; listeners don't need that
+const PROGRESS_THROTTLE_MS = 250;
+const YT_DLP_PROGRESS_PREFIX = 'KPLAYER_PROGRESS';
+
+function slugifyTitle(title, fallback) {
+  const normalized = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '')
+    .slice(0, 60);
+  const slug = normalized || fallback;
+  return slug;
+}
+
+function buildObjectKey(title, videoId, rendition) {
+  const slug = slugifyTitle(title, videoId);
+  return `audio/${slug}-${videoId}-${rendition.id}.${rendition.extension}`;
+}
+
+// Containers yt-dlp hands out for bestaudio, for the master's content type
+const MASTER_CONTENT_TYPES = {
+  webm: 'audio/webm',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  opus: 'audio/ogg',
+};
+
+/**
+ * Where the original download is kept. The container is whatever YouTube
+ * served; ffmpeg probes it, so an unknown one is still usable.
+ */
+function buildMaster(title, videoId, extension) {
+  const slug = slugifyTitle(title, videoId);
+  const ext = extension && /^[a-z0-9]+$/i.test(extension) ? extension.toLowerCase() : 'bin';
+  return {
+    storageKey: `masters/${slug}-${videoId}.${ext}`,
+    contentType: MASTER_CONTENT_TYPES[ext] ?? 'application/octet-stream',
+  };
+}
+
+/**
+ * Identifies a job: each rendition of a track is cached by its own job.
+ */
+function cacheJobKey(videoId, quality = DEFAULT_QUALITY) {
+  return `${videoId}:${quality}`;
+}
+
+function parseByteCount(value) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : null;
+}
+
+// ffmpeg timemarks look like "00:03:12.45"
+function timemarkToSeconds(timemark) {
+  if (typeof timemark !== 'string') {
+    return null;
+  }
+  const parts = timemark.split(':').map(Number);
+  if (parts.length !== 3 || parts.some((part) => !Number.isFinite(part))) {
+    return null;
+  }
+  return parts[0] * 3600 + parts[1] * 60 + parts[2];
+}
+
+function createProgress() {
+  return {
+    downloadedBytes: 0,
+    totalBytes: null,
+    transcodedSeconds: 0,
+    durationSeconds: null,
+    outputBytes: 0,
+    uploadedBytes: 0,
+  };
+}
+
+/**
+ * Error from a single cache attempt. `failureClass` (download, transcode,
+ * upload) decides how the queue retries it.
+ */
+function attemptError(failureClass, message) {
+  const error = new Error(message);
+  error.failureClass = failureClass;
+  return error;
+}
+
+/**
+ * State of one background cache job. Emits 'progress' with a JSON snapshot
+ * whenever the phase changes or (throttled) when byte counts move.
+ *
+ * A job may take several attempts; between them it goes back to 'queued'
+ * with `lastError` and `retryAt` set. `error` is only set once it has failed for good.
+ */
+class CacheJob extends EventEmitter {
+  constructor(videoId, quality = DEFAULT_QUALITY) {
+    super();
+    this.setMaxListeners(0);
+    this.videoId = videoId;
+    this.quality = quality;
+    this.key = cacheJobKey(videoId, quality);
+    this.rendition = getRendition(quality);
+    this.startTime = Date.now();
+    this.cacheKey = buildObjectKey(videoId, videoId, this.rendition);
+    this.title = null;
+    this.buffer = new StreamBuffer();
+    this.phase = 'queued';
+    this.error = null;
+    this.attempts = 0;
+    this.retryCounts = {};
+    this.lastError = null;
+    this.failureClass = null;
+    this.retryAt = null;
+    this.progress = createProgress();
+    this.lastEmitAt = 0;
+    this.emitTimer = null;
+    // Set while an attempt runs; aborting it stops yt-dlp, ffmpeg and the upload
+    this.abortController = null;
+  }
+
+  /**
+   * Rebuild a job from its persisted queue record (see toRecord).
+   */
+  static fromRecord(record) {
+    const job = new CacheJob(record.videoId, record.quality ?? DEFAULT_QUALITY);
+    job.startTime = Date.parse(record.createdAt) || Date.now();
+    job.title = record.title ?? null;
+    job.attempts = record.attempts ?? 0;
+    job.retryCounts = { ...record.retryCounts };
+    job.lastError = record.lastError ?? null;
+    job.failureClass = record.failureClass ?? null;
+    job.retryAt = record.retryAt ?? null;
+    if (record.status === 'failed') {
+      job.phase = 'failed';
+      job.error = record.lastError ?? 'Cache job failed';
+      job.buffer.fail(new Error(job.error));
+    }
+    return job;
+  }
+
+  get finished() {
+    return TERMINAL_PHASES.includes(this.phase);
+  }
+
+  setPhase(phase) {
+    // Phases only move forward; late events from a finished stage are ignored
+    if (this.finished || JOB_PHASES.indexOf(phase) <= JOB_PHASES.indexOf(this.phase)) {
+      return;
+    }
+    this.phase = phase;
+    this.emitProgress(true);
+  }
+
+  updateProgress(patch) {
+    Object.assign(this.progress, patch);
+    this.emitProgress(false);
+  }
+
+  fail(message, failureClass = null) {
+    if (this.finished) {
+      return;
+    }
+    this.error = message;
+    this.lastError = message;
+    this.failureClass = failureClass;
+    this.retryAt = null;
+    this.phase = 'failed';
+    this.buffer.fail(new Error(message));
+    this.emitProgress(true);
+  }
+
+  /**
+   * Stop the running attempt, if any. Returns false when nothing was running.
+   */
+  abort(message) {
+    if (!this.abortController || this.abortController.signal.aborted) {
+      return false;
+    }
+    this.abortController.abort(attemptError('cancelled', message));
+    return true;
+  }
+
+  /**
+   * Put the job back to 'queued' after a failed attempt. Live listeners of the
+   * failed attempt have already been cut off; new ones get a fresh buffer.
+   */
+  prepareRetry(message, failureClass, retryAt) {
+    if (this.finished) {
+      return;
+    }
+    this.lastError = message;
+    this.failureClass = failureClass;
+    this.retryAt = retryAt;
+    this.phase = 'queued';
+    this.buffer = new StreamBuffer();
+    this.progress = createProgress();
+    this.emitProgress(true);
+  }
+
+  complete() {
+    if (this.finished) {
+      return;
+    }
+    this.phase = 'done';
+    this.emitProgress(true);
+  }
+
+  /**
+   * Percent complete of the current phase (download bytes, transcoded
+   * seconds, uploaded bytes), or null when there is nothing to measure against.
+   */
+  get percent() {
+    const { downloadedBytes, totalBytes, transcodedSeconds, durationSeconds, outputBytes, uploadedBytes } = this.progress;
+    const ratio = (done, total) => (total ? Math.min(100, Math.round((done / total) * 1000) / 10) : null);
+    switch (this.phase) {
+      case 'downloading':
+        return ratio(downloadedBytes, totalBytes);
+      case 'transcoding':
+        return ratio(transcodedSeconds, durationSeconds);
+      case 'uploading':
+        return ratio(uploadedBytes, outputBytes);
+      case 'done':
+        return 100;
+      default:
+        return null;
+    }
+  }
+
+  toJSON() {
+    return {
+      videoId: this.videoId,
+      quality: this.quality,
+      title: this.title,
+      phase: this.phase,
+      percent: this.percent,
+      error: this.error,
+      attempts: this.attempts,
+      lastError: this.lastError,
+      retryAt: this.retryAt,
+      startTime: this.startTime,
+      ...this.progress,
+    };
+  }
+
+  /**
+   * What the queue persists to storage; progress is not worth keeping.
+   */
+  toRecord() {
+    let status = 'running';
+    if (this.phase === 'queued' || this.phase === 'failed') {
+      status = this.phase;
+    }
+    return {
+      videoId: this.videoId,
+      quality: this.quality,
+      title: this.title,
+      status,
+      attempts: this.attempts,
+      retryCounts: this.retryCounts,
+      lastError: this.lastError,
+      failureClass: this.failureClass,
+      retryAt: this.retryAt,
+      createdAt: new Date(this.startTime).toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  emitProgress(force) {
+    const elapsed = Date.now() - this.lastEmitAt;
+    if (!force && elapsed < PROGRESS_THROTTLE_MS) {
+      if (!this.emitTimer) {
+        this.emitTimer = setTimeout(() => this.emitProgress(true), PROGRESS_THROTTLE_MS - elapsed);
+      }
+      return;
+    }
+    clearTimeout(this.emitTimer);
+    this.emitTimer = null;
+    this.lastEmitAt = Date.now();
+    this.emit('progress', this.toJSON());
+  }
+}
+
+async function resolveTrackMetadata(job) {
+  const { videoId } = job;
+  try {
+    const videoInfo = await fetchVideoInfo(videoId);
+    const thumbnails = Array.isArray(videoInfo.thumbnails) ? videoInfo.thumbnails : [];
+    const thumbnailUrl = videoInfo.thumbnail ?? thumbnails[thumbnails.length - 1]?.url ?? null;
+    const durationSeconds = typeof videoInfo.duration === 'number' ? videoInfo.duration : null;
+    job.updateProgress({
+      durationSeconds,
+      totalBytes: parseByteCount(videoInfo.filesize) ?? parseByteCount(videoInfo.filesize_approx),
+    });
+    return {
+      metadata: {
+        videoId,
+        title: videoInfo.title ?? videoId,
+        author: videoInfo.uploader ?? videoInfo.channel ?? 'Unknown artist',
+        durationSeconds,
+        thumbnailUrl,
+      },
+      sourceExtension: typeof videoInfo.ext === 'string' ? videoInfo.ext : null,
+    };
+  } catch (error) {
+    console.error(`[Cache] Failed to fetch metadata for ${videoId}`, error);
+    // Fall back to minimal metadata; the download itself may still work
+    return {
+      metadata: {
+        videoId,
+        title: videoId,
+        author: 'Unknown',
+        durationSeconds: null,
+        thumbnailUrl: null,
+      },
+      sourceExtension: null,
+    };
+  }
+}
+
+/**
+ * Stored track whose master is still in storage, or null. Renditions of such a
+ * track are transcoded from the master rather than downloaded again.
+ */
+async function findCachedMaster(videoId) {
+  try {
+    const track = await storage.getTrackMetadata(videoId);
+    if (track?.master && (await storage.checkFileExists(track.master.storageKey))) {
+      return track;
+    }
+  } catch (error) {
+    console.warn(`[Cache] Could not look up the master of ${videoId}`, error);
+  }
+  return null;
+}
+
+/**
+ * Turn the first-pass measurement into track metadata, running the second
+ * pass first when normalization is baked in. Loudness is a nicety: if it can't
+ * be measured or applied the track is still cached as is.
+ */
+async function resolveLoudness(job, analyzer, signal) {
+  let measurement = null;
+  try {
+    measurement = await analyzer.result;
+  } catch (error) {
+    console.warn(`[Cache] Loudness analysis failed for ${job.videoId}`, error);
+  }
+  if (!measurement) {
+    return null;
+  }
+
+  if (config.loudness.mode === 'bake') {
+    job.setPhase('normalizing');
+    try {
+      await normalizeStoredAudio(job.cacheKey, job.rendition, measurement, { signal });
+      return describeLoudness(measurement, true);
+    } catch (error) {
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+      console.warn(`[Cache] Loudness normalization failed for ${job.videoId}, keeping the original`, error);
+    }
+  }
+  return describeLoudness(measurement, false);
+}
+
+/**
+ * Run one attempt of a cache job: yt-dlp ➜ ffmpeg ➜ storage, teeing the encoded audio to
+ * live listeners. Resolves once the track is stored and listed; rejects with an
+ * attemptError (failureClass set) otherwise. Retrying is up to the job queue.
+ */
+async function runCacheJob(job) {
+  const abortController = new AbortController();
+  job.abortController = abortController;
+  try {
+    await runAttempt(job, abortController);
+  } finally {
+    job.abortController = null;
+  }
+}
+
+async function runAttempt(job, abortController) {
+  const { videoId, rendition } = job;
+  const { signal } = abortController;
+
+  job.setPhase('metadata');
+  const cachedTrack = await findCachedMaster(videoId);
+  let metadata;
+  let sourceExtension = null;
+  if (cachedTrack) {
+    metadata = {
+      videoId,
+      title: cachedTrack.title,
+      author: cachedTrack.author,
+      durationSeconds: cachedTrack.durationSeconds ?? null,
+      thumbnailUrl: cachedTrack.thumbnailUrl ?? null,
+    };
+    job.updateProgress({ durationSeconds: metadata.durationSeconds });
+  } else {
+    ({ metadata, sourceExtension } = await resolveTrackMetadata(job));
+  }
+  job.title = metadata.title;
+  job.cacheKey = buildObjectKey(metadata.title, videoId, rendition);
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+
+  let source;
+  if (cachedTrack) {
+    try {
+      source = await storage.getFileStream(cachedTrack.master.storageKey);
+    } catch (error) {
+      throw attemptError('download', `Failed to read the cached master: ${error.message}`);
+    }
+    if (signal.aborted) {
+      source.destroy();
+      throw signal.reason;
+    }
+    console.log(`[Cache] Transcoding ${job.key} from the cached master`);
+    job.setPhase('transcoding');
+  } else {
+    job.setPhase('downloading');
+  }
+
+  // The first failure wins; it stops every stage so the upload can't wait forever
+  let failure = null;
+  const failAttempt = (error) => {
+    if (failure) {
+      return;
+    }
+    failure = error;
+    abortController.abort(error);
+    job.buffer.fail(error);
+    ytDlp?.kill('SIGKILL');
+    source.destroy();
+    transcoder.kill('SIGKILL');
+    analyzer?.kill();
+    if (!cacheStream.destroyed) {
+      cacheStream.destroy(error);
+    }
+    if (masterStream && !masterStream.destroyed) {
+      masterStream.destroy(error);
+    }
+  };
+  signal.addEventListener('abort', () => failAttempt(signal.reason), { once: true });
+
+  let ytDlp = null;
+  let masterStream = null;
+  let master = null;
+  let masterUpload = null;
+  if (cachedTrack) {
+    source.on('error', (error) => {
+      console.error(`[Cache] Failed to read the master of ${videoId}`, error);
+      failAttempt(attemptError('download', `Failed to read the cached master: ${error.message}`));
+    });
+  } else {
+    const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const downloadArgs = buildYtDlpArgs([
+      '-f', 'bestaudio/best',
+      '-o', '-',
+      '--quiet',
+      '--no-warnings',
+      // --progress overrides --quiet; the template keeps lines machine-readable
+      '--progress',
+      '--newline',
+      '--progress-template',
+      `download:${YT_DLP_PROGRESS_PREFIX} %(progress.downloaded_bytes)s %(progress.total_bytes)s %(progress.total_bytes_estimate)s`,
+      youtubeUrl
+    ]);
+
+    ytDlp = spawn('yt-dlp', downloadArgs);
+    source = ytDlp.stdout;
+    let stderrRemainder = '';
+
+    ytDlp.stderr.on('data', (data) => {
+      const lines = (stderrRemainder + data.toString()).split(/\r?\n/);
+      stderrRemainder = lines.pop();
+      for (const line of lines) {
+        if (line.startsWith(YT_DLP_PROGRESS_PREFIX)) {
+          const [, downloaded, total, estimate] = line.split(' ');
+          job.updateProgress({
+            downloadedBytes: parseByteCount(downloaded) ?? job.progress.downloadedBytes,
+            totalBytes: parseByteCount(total) ?? parseByteCount(estimate) ?? job.progress.totalBytes,
+          });
+        } else if (line.trim()) {
+          console.warn(`[Cache] yt-dlp warning for ${videoId}: ${line.trim()}`);
+        }
+      }
+    });
+
+    ytDlp.on('error', (error) => {
+      console.error(`[Cache] Failed to spawn yt-dlp for ${videoId}`, error);
+      failAttempt(attemptError('download', `Failed to start download: ${error.message}`));
+    });
+
+    ytDlp.on('close', (code) => {
+      if (code === 0) {
+        // Download finished; ffmpeg may still be catching up
+        job.setPhase('transcoding');
+        return;
+      }
+      if (failure) {
+        return; // killed because another stage failed
+      }
+      console.error(`[Cache] yt-dlp exited with code ${code} for ${videoId}`);
+      failAttempt(attemptError('download', `Download failed with exit code ${code}`));
+    });
+
+    // Keep the original download as the master, so later renditions don't need YouTube
+    master = buildMaster(metadata.title, videoId, sourceExtension);
+    masterStream = new PassThrough();
+    source.pipe(masterStream);
+    masterUpload = storage.uploadStream(master.storageKey, masterStream, master.contentType, { signal })
+      .catch((error) => {
+        if (!failure) {
+          console.error(`[Cache] Failed to upload the master of ${videoId}`, error);
+        }
+        failAttempt(attemptError('upload', `Master upload failed: ${error.message}`));
+      });
+  }
+
+  const transcoder = ffmpeg(source)
+    .audioCodec(rendition.codec)
+    .audioBitrate(rendition.bitrate)
+    .format(rendition.format)
+    .on('progress', (progress) => {
+      const transcodedSeconds = timemarkToSeconds(progress.timemark);
+      if (transcodedSeconds !== null) {
+        job.updateProgress({ transcodedSeconds });
+      }
+    })
+    .on('error', (error) => {
+      // "Output stream closed" means the stream finished successfully
+      // This is not a fatal error - the upload likely completed
+      if (error.message && error.message.includes('Output stream closed')) {
+        console.log(`[Cache] Stream closed for ${videoId} (upload likely completed)`);
+        return;
+      }
+      if (failure) {
+        return;
+      }
+
+      console.error(`[Cache] Transcode failed for ${videoId}`, error);
+      failAttempt(attemptError('transcode', `Audio conversion failed: ${error.message}`));
+    });
+
+  // First loudnorm pass measures the audio as it is encoded, so the source is only read once
+  const analyzer = config.loudness.mode === 'off' ? null : createLoudnessAnalyzer();
+
+  const transcoderOutput = new PassThrough();
+  // Counts bytes as the uploader pulls them
+  const cacheStream = new Transform({
+    transform(chunk, _encoding, callback) {
+      job.updateProgress({ uploadedBytes: job.progress.uploadedBytes + chunk.length });
+      callback(null, chunk);
+    },
+  });
+
+  transcoder.pipe(transcoderOutput);
+  transcoderOutput.pipe(cacheStream);
+
+  // Tee the transcoded audio to live listeners
+  transcoderOutput.on('data', (chunk) => {
+    job.buffer.write(chunk);
+    analyzer?.input.write(chunk);
+    job.updateProgress({ outputBytes: job.progress.outputBytes + chunk.length });
+  });
+  transcoderOutput.on('end', () => {
+    job.buffer.end();
+    analyzer?.input.end();
+    job.setPhase('uploading');
+  });
+
+  // Upload to storage
+  try {
+    await storage.uploadStream(job.cacheKey, cacheStream, rendition.contentType, { signal });
+  } catch (error) {
+    if (!failure) {
+      console.error(`[Cache] Failed to upload ${videoId} to ${storage.driverName} storage`, error);
+    }
+    failAttempt(attemptError('upload', `Storage upload failed: ${error.message}`));
+  }
+  await masterUpload;
+
+  let loudness = null;
+  if (!failure && analyzer) {
+    try {
+      loudness = await resolveLoudness(job, analyzer, signal);
+    } catch (error) {
+      failure = error;
+    }
+  }
+
+  if (failure) {
+    // The uploads may hold whatever a failed download left behind
+    const partialKeys = master ? [job.cacheKey, master.storageKey] : [job.cacheKey];
+    for (const key of partialKeys) {
+      await storage.deleteFile(key).catch((error) => {
+        console.warn(`[Cache] Failed to remove partial upload ${key} for ${videoId}`, error);
+      });
+    }
+    throw failure;
+  }
+
+  // Only list the track once its audio is actually in storage
+  try {
+    await storage.saveTrackMetadata({
+      ...metadata,
+      ...(master && { master: { ...master, createdAt: new Date().toISOString() } }),
+      renditions: {
+        [job.quality]: {
+          storageKey: job.cacheKey,
+          contentType: rendition.contentType,
+          bitrate: rendition.bitrate,
+          // Measured on this rendition's own audio, so each one keeps its own
+          loudness,
+          createdAt: new Date().toISOString(),
+        },
+      },
+      createdAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    throw attemptError('upload', `Failed to save track metadata: ${error.message}`);
+  }
+  console.log(`[Cache] Successfully cached ${job.key} in ${storage.driverName} storage`);
+}
+
+module.exports = {
+  CacheJob,
+  cacheJobKey,
+  runCacheJob,
+};
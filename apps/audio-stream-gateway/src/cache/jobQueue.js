@@ -0,0 +1,324 @@
+const config = require('../config');
+const storage = require('../storage');
+const { DEFAULT_QUALITY, trackRenditions } = require('../renditions');
+const { CacheJob, cacheJobKey, runCacheJob } = require('./cacheJobs');
+
+// Failed jobs stick around long enough for clients to read the error, then go away
+const FAILED_JOB_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Cache job queue.
+ *
+ * Every job (queued, running, waiting to retry or recently failed) lives in
+ * `jobs`, keyed by video and rendition (see cacheJobKey), and is mirrored to
+ * storage, so pending work is picked up again after a restart. At most
+ * `config.cacheJobs.concurrency` attempts run at once; failed attempts are
+ * retried with exponential backoff according to their failure class.
+ */
+const jobs = new Map();
+const readyQueue = [];
+// Retry and eviction timers, by job key
+const timers = new Map();
+// Videos with an attempt running. Their other renditions wait, so they are
+// transcoded from the master the first attempt stores instead of downloading it again
+const runningVideos = new Set();
+let activeCount = 0;
+let persistChain = Promise.resolve();
+
+function getCacheJob(videoId, quality = DEFAULT_QUALITY) {
+  return jobs.get(cacheJobKey(videoId, quality)) ?? null;
+}
+
+function setJobTimer(key, callback, delay) {
+  clearTimeout(timers.get(key));
+  timers.set(key, setTimeout(() => {
+    timers.delete(key);
+    callback();
+  }, delay));
+}
+
+function clearJobTimer(key) {
+  clearTimeout(timers.get(key));
+  timers.delete(key);
+}
+
+/**
+ * Write the current queue to storage. Writes are chained so an older snapshot
+ * can never land after a newer one.
+ */
+function persistJobs() {
+  const records = Array.from(jobs.values(), (job) => job.toRecord());
+  persistChain = persistChain
+    .then(() => storage.saveCacheJobRecords(records))
+    .catch((error) => {
+      console.error('[Queue] Failed to persist cache jobs', error);
+    });
+  return persistChain;
+}
+
+function removeCacheJob(videoId, quality = DEFAULT_QUALITY) {
+  const key = cacheJobKey(videoId, quality);
+  if (!jobs.delete(key)) {
+    return;
+  }
+  clearJobTimer(key);
+  persistJobs();
+}
+
+function scheduleEviction(job, delay) {
+  setJobTimer(job.key, () => {
+    if (jobs.get(job.key) === job) {
+      removeCacheJob(job.videoId, job.quality);
+    }
+  }, delay);
+}
+
+function scheduleRetry(job) {
+  setJobTimer(job.key, () => {
+    readyQueue.push(job);
+    pump();
+  }, Math.max(0, job.retryAt - Date.now()));
+}
+
+function retryDelay(retryNumber) {
+  const { retryBaseDelayMs, retryMaxDelayMs } = config.cacheJobs;
+  return Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** (retryNumber - 1));
+}
+
+function handleAttemptFailure(job, error) {
+  const { key } = job;
+  // Anything without a class is a bug in the pipeline; retrying won't help
+  const failureClass = error.failureClass ?? 'internal';
+  const allowedRetries = config.cacheJobs.retries[failureClass] ?? 0;
+  const usedRetries = job.retryCounts[failureClass] ?? 0;
+
+  if (usedRetries >= allowedRetries) {
+    console.error(
+      `[Queue] Cache job for ${key} failed after ${job.attempts} attempt(s) (${failureClass}): ${error.message}`
+    );
+    job.fail(error.message, failureClass);
+    scheduleEviction(job, FAILED_JOB_TTL_MS);
+    return;
+  }
+
+  const retryNumber = usedRetries + 1;
+  const delay = retryDelay(retryNumber);
+  job.retryCounts[failureClass] = retryNumber;
+  console.warn(
+    `[Queue] ${failureClass} failure for ${key}, retry ${retryNumber}/${allowedRetries} in ${Math.round(delay / 1000)}s: ${error.message}`
+  );
+  job.prepareRetry(error.message, failureClass, Date.now() + delay);
+  scheduleRetry(job);
+}
+
+async function runJob(job) {
+  job.attempts += 1;
+  job.retryAt = null;
+  console.log(`[Queue] Starting cache job for ${job.key} (attempt ${job.attempts})`);
+  const attempt = runCacheJob(job);
+  // runCacheJob has already moved the job out of 'queued', so this records it as running
+  persistJobs();
+
+  try {
+    await attempt;
+  } catch (error) {
+    handleAttemptFailure(job, error);
+    persistJobs();
+    return;
+  }
+
+  job.complete();
+  // Live listeners keep their own reference to the buffer, later ones get the cached file
+  if (jobs.get(job.key) === job) {
+    jobs.delete(job.key);
+  }
+  persistJobs();
+}
+
+// Oldest ready job whose video has nothing running, taken off the queue
+function takeReadyJob() {
+  const index = readyQueue.findIndex((job) => !runningVideos.has(job.videoId));
+  return index === -1 ? null : readyQueue.splice(index, 1)[0];
+}
+
+function pump() {
+  while (activeCount < config.cacheJobs.concurrency) {
+    const job = takeReadyJob();
+    if (!job) {
+      break;
+    }
+    if (jobs.get(job.key) !== job || job.finished) {
+      continue; // removed or cancelled while waiting
+    }
+    activeCount += 1;
+    runningVideos.add(job.videoId);
+    runJob(job)
+      .catch((error) => {
+        console.error(`[Queue] Cache job crashed for ${job.key}`, error);
+        job.fail(`Cache job crashed: ${error.message}`, 'internal');
+        scheduleEviction(job, FAILED_JOB_TTL_MS);
+        persistJobs();
+      })
+      .finally(() => {
+        activeCount -= 1;
+        runningVideos.delete(job.videoId);
+        pump();
+      });
+  }
+}
+
+/**
+ * Queue a cache job for one rendition of `videoId`, or return the one already
+ * in flight. A previously failed job is replaced by a fresh one.
+ */
+function enqueueCacheJob(videoId, quality = DEFAULT_QUALITY) {
+  const key = cacheJobKey(videoId, quality);
+  const existing = jobs.get(key);
+  if (existing && !existing.finished) {
+    return existing;
+  }
+
+  clearJobTimer(key);
+  const job = new CacheJob(videoId, quality);
+  jobs.set(key, job);
+  readyQueue.push(job);
+  console.log(
+    `[Queue] Queued cache job for ${key} (${activeCount} running, ${readyQueue.length} waiting)`
+  );
+  persistJobs();
+  pump();
+  return job;
+}
+
+/**
+ * Snapshot of every known job, oldest first, for the admin API.
+ */
+function listCacheJobs() {
+  const snapshots = Array.from(jobs.values(), (job) => job.toJSON())
+    .sort((a, b) => a.startTime - b.startTime);
+  return {
+    jobs: snapshots,
+    running: activeCount,
+    concurrency: config.cacheJobs.concurrency,
+  };
+}
+
+/**
+ * Cancel a job. A running attempt is aborted (yt-dlp and ffmpeg killed, upload
+ * aborted) and the job fails without retrying; a queued one never starts.
+ * Cancelling a job that has already failed dismisses it.
+ * Returns false when there is no such job.
+ */
+function cancelCacheJob(videoId, quality = DEFAULT_QUALITY) {
+  const job = getCacheJob(videoId, quality);
+  if (!job) {
+    return false;
+  }
+  if (job.finished) {
+    removeCacheJob(videoId, quality);
+    return true;
+  }
+
+  console.log(`[Queue] Cancelling cache job for ${job.key}`);
+  // A running attempt fails through handleAttemptFailure; 'cancelled' is never retried
+  if (job.abort('Cancelled')) {
+    return true;
+  }
+  clearJobTimer(job.key);
+  job.fail('Cancelled', 'cancelled');
+  scheduleEviction(job, FAILED_JOB_TTL_MS);
+  persistJobs();
+  return true;
+}
+
+/**
+ * Cancel every rendition job of a video, e.g. because the track is being
+ * deleted. Returns how many jobs there were.
+ */
+function cancelVideoCacheJobs(videoId) {
+  const videoJobs = Array.from(jobs.values()).filter((job) => job.videoId === videoId);
+  for (const job of videoJobs) {
+    cancelCacheJob(videoId, job.quality);
+  }
+  return videoJobs.length;
+}
+
+/**
+ * Start a failed job over with a fresh retry budget.
+ * Returns null when there is no such job, or the job itself if it is still active.
+ */
+function retryCacheJob(videoId, quality = DEFAULT_QUALITY) {
+  const job = getCacheJob(videoId, quality);
+  if (!job || !job.finished) {
+    return job;
+  }
+  console.log(`[Queue] Manual retry of cache job for ${job.key}`);
+  return enqueueCacheJob(videoId, quality);
+}
+
+/**
+ * Reload the persisted queue on startup. Jobs that were running when the
+ * process died start over; pending retries keep their schedule.
+ */
+async function resumeCacheJobs() {
+  let records;
+  try {
+    records = await storage.listCacheJobRecords();
+  } catch (error) {
+    console.error('[Queue] Failed to load persisted cache jobs', error);
+    return;
+  }
+
+  const now = Date.now();
+  let resumed = 0;
+  for (const record of records) {
+    if (!record?.videoId) {
+      continue;
+    }
+    const job = CacheJob.fromRecord(record);
+    if (jobs.has(job.key)) {
+      continue;
+    }
+
+    if (record.status === 'failed') {
+      const remaining = FAILED_JOB_TTL_MS - (now - Date.parse(record.updatedAt));
+      if (remaining > 0) {
+        jobs.set(job.key, job);
+        scheduleEviction(job, remaining);
+      }
+      continue;
+    }
+
+    // The process may have died between saving the track and updating the queue
+    try {
+      if (trackRenditions(await storage.getTrackMetadata(job.videoId))[job.quality]) {
+        continue;
+      }
+    } catch (error) {
+      console.warn(`[Queue] Could not check cached state of ${job.key}`, error);
+    }
+
+    jobs.set(job.key, job);
+    if (job.retryAt && job.retryAt > now) {
+      scheduleRetry(job);
+    } else {
+      readyQueue.push(job);
+    }
+    resumed += 1;
+  }
+
+  console.log(`[Queue] Resumed ${resumed} pending cache job(s)`);
+  await persistJobs();
+  pump();
+}
+
+module.exports = {
+  getCacheJob,
+  removeCacheJob,
+  enqueueCacheJob,
+  listCacheJobs,
+  cancelCacheJob,
+  cancelVideoCacheJobs,
+  retryCacheJob,
+  resumeCacheJobs,
+};
@@ -0,0 +1,130 @@
+const { PassThrough } = require('stream');
+const ffmpeg = require('fluent-ffmpeg');
+const config = require('../config');
+const storage = require('../storage');
+
+/**
+ * loudnorm filter for either pass. Without a measurement it only analyses
+ * (pass one); with one it applies the correction linearly (pass two).
+ */
+function loudnormFilter(measurement) {
+  const { targetLufs, truePeakDb, loudnessRange } = config.loudness;
+  const target = `loudnorm=I=${targetLufs}:TP=${truePeakDb}:LRA=${loudnessRange}`;
+  if (!measurement) {
+    return `${target}:print_format=json`;
+  }
+  return [
+    target,
+    `measured_I=${measurement.integratedLufs}`,
+    `measured_TP=${measurement.truePeakDb}`,
+    `measured_LRA=${measurement.loudnessRange}`,
+    `measured_thresh=${measurement.thresholdLufs}`,
+    `offset=${measurement.targetOffset}`,
+    'linear=true',
+    'print_format=summary',
+  ].join(':');
+}
+
+// loudnorm prints its measurement as the last JSON object on stderr
+function parseLoudnormOutput(stderr) {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return null;
+  }
+  let raw;
+  try {
+    raw = JSON.parse(stderr.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  const measurement = {
+    integratedLufs: Number(raw.input_i),
+    truePeakDb: Number(raw.input_tp),
+    loudnessRange: Number(raw.input_lra),
+    thresholdLufs: Number(raw.input_thresh),
+    targetOffset: Number(raw.target_offset),
+  };
+  // Silence measures as -inf, which there is nothing to correct
+  return Object.values(measurement).every(Number.isFinite) ? measurement : null;
+}
+
+/**
+ * First loudnorm pass, run alongside the transcode. Write audio into `input`
+ * as it is produced and end it; `result` then resolves with the EBU R128
+ * measurement, or null when ffmpeg could not measure anything.
+ */
+function createLoudnessAnalyzer() {
+  const input = new PassThrough();
+  let command = null;
+  const result = new Promise((resolve, reject) => {
+    command = ffmpeg(input)
+      .inputOptions(['-hide_banner', '-nostats'])
+      .audioFilters(loudnormFilter(null))
+      .format('null')
+      .output('-')
+      .on('end', (_stdout, stderr) => resolve(parseLoudnormOutput(stderr ?? '')))
+      .on('error', reject);
+    command.run();
+  });
+  // Nobody awaits the result when the attempt fails first and kills the analyzer
+  result.catch(() => {});
+  return {
+    input,
+    result,
+    kill: () => command.kill('SIGKILL'),
+  };
+}
+
+/**
+ * Second loudnorm pass: re-encode the stored rendition with the measured
+ * correction and upload it over the original. Readers keep getting the old
+ * file until the upload completes, and a failed pass leaves it untouched.
+ */
+async function normalizeStoredAudio(key, rendition, measurement, { signal } = {}) {
+  const source = await storage.getFileStream(key);
+  const output = new PassThrough();
+  const command = ffmpeg(source)
+    .audioFilters(loudnormFilter(measurement))
+    // loudnorm upsamples to 192 kHz internally
+    .audioFrequency(rendition.codec === 'libopus' ? 48000 : 44100)
+    .audioCodec(rendition.codec)
+    .audioBitrate(rendition.bitrate)
+    .format(rendition.format)
+    .on('error', (error) => output.destroy(error));
+  const stop = () => command.kill('SIGKILL');
+  signal?.addEventListener('abort', stop, { once: true });
+  command.pipe(output);
+
+  try {
+    await storage.uploadStream(key, output, rendition.contentType, { signal });
+  } finally {
+    signal?.removeEventListener('abort', stop);
+  }
+}
+
+/**
+ * Loudness as stored in track metadata. `gainDb` is the replay-gain style
+ * adjustment a player should apply: zero once the file itself is normalized,
+ * and never enough to push the true peak over the ceiling.
+ */
+function describeLoudness(measurement, normalized) {
+  const { targetLufs, truePeakDb } = config.loudness;
+  const gainDb = normalized
+    ? 0
+    : Math.min(targetLufs - measurement.integratedLufs, truePeakDb - measurement.truePeakDb);
+  return {
+    integratedLufs: measurement.integratedLufs,
+    truePeakDb: measurement.truePeakDb,
+    loudnessRange: measurement.loudnessRange,
+    targetLufs,
+    gainDb: Math.round(gainDb * 100) / 100,
+    normalized,
+  };
+}
+
+module.exports = {
+  createLoudnessAnalyzer,
+  normalizeStoredAudio,
+  describeLoudness,
+};
@@ -0,0 +1,91 @@
+const { EventEmitter } = require('events');
+const { Readable } = require('stream');
+
+/**
+ * In-memory tee for an in-flight transcode.
+ *
+ * The cache job writes every transcoded chunk here while the same bytes are
+ * uploaded to storage. Each listener gets its own reader that replays what has
+ * been produced so far and then follows the live tail, so someone who joins
+ * halfway through still receives a complete file.
+ */
+class StreamBuffer extends EventEmitter {
+  constructor() {
+    super();
+    this.setMaxListeners(0);
+    this.chunks = [];
+    this.length = 0;
+    this.ended = false;
+    this.error = null;
+  }
+
+  write(chunk) {
+    if (this.ended || this.error) {
+      return;
+    }
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+    this.emit('update');
+  }
+
+  end() {
+    if (this.ended || this.error) {
+      return;
+    }
+    this.ended = true;
+    this.emit('update');
+  }
+
+  fail(error) {
+    if (this.ended || this.error) {
+      return;
+    }
+    this.error = error;
+    this.emit('update');
+  }
+
+  createReadStream() {
+    const buffer = this;
+    let index = 0;
+    let waiting = false;
+
+    const pump = () => {
+      while (index < buffer.chunks.length) {
+        if (!readable.push(buffer.chunks[index++])) {
+          return;
+        }
+      }
+      if (buffer.error) {
+        readable.destroy(buffer.error);
+        return;
+      }
+      if (buffer.ended) {
+        readable.push(null);
+        return;
+      }
+      waiting = true;
+    };
+
+    const onUpdate = () => {
+      if (waiting) {
+        waiting = false;
+        pump();
+      }
+    };
+
+    const readable = new Readable({
+      read() {
+        pump();
+      },
+      destroy(error, callback) {
+        buffer.off('update', onUpdate);
+        callback(error);
+      },
+    });
+
+    buffer.on('update', onUpdate);
+    return readable;
+  }
+}
+
+module.exports = { StreamBuffer };
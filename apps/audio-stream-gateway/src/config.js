@@ -10,12 +10,70 @@ if (fs.existsSync(envPath)) {
   dotenv.config();
 }
 
-const requiredKeys = [
-  'R2_ACCESS_KEY_ID',
-  'R2_SECRET_ACCESS_KEY',
-  'R2_ENDPOINT',
-  'R2_BUCKET_NAME'
-];
+function toBoolean(value) {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  return ['true', '1', 'on', 'yes'].includes(value.trim().toLowerCase());
+}
+
+function toPositiveInt(value, fallback) {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function toNumber(value, fallback) {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+// "<per IP>,<per session>" requests per minute; 0 turns that bucket off
+function toRateLimit(value, fallback) {
+  if (typeof value !== 'string' || !value.trim()) {
+    return fallback;
+  }
+  const [perIp, perToken] = value.split(',');
+  return {
+    perIp: toPositiveInt(perIp, fallback.perIp),
+    perToken: toPositiveInt(perToken, fallback.perToken),
+  };
+}
+
+// 32-byte key given as 64 hex characters or base64; null when unset
+function toEncryptionKey(value, name) {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} must be 32 bytes, as 64 hex characters or base64`);
+  }
+  return key;
+}
+
+const SUPPORTED_STORAGE_DRIVERS = ['r2', 'local'];
+// gain: measure only and let clients adjust volume; bake: rewrite the file at the target; off: skip
+const SUPPORTED_LOUDNESS_MODES = ['gain', 'bake', 'off'];
+
+const storageDriver = (process.env.STORAGE_DRIVER || 'r2').trim().toLowerCase();
+if (!SUPPORTED_STORAGE_DRIVERS.includes(storageDriver)) {
+  throw new Error(
+    `Unsupported STORAGE_DRIVER "${storageDriver}" (expected one of: ${SUPPORTED_STORAGE_DRIVERS.join(', ')})`
+  );
+}
+
+const loudnessMode = (process.env.LOUDNESS_MODE || 'gain').trim().toLowerCase();
+if (!SUPPORTED_LOUDNESS_MODES.includes(loudnessMode)) {
+  throw new Error(
+    `Unsupported LOUDNESS_MODE "${loudnessMode}" (expected one of: ${SUPPORTED_LOUDNESS_MODES.join(', ')})`
+  );
+}
+
+// R2 credentials are only needed when the R2 driver is selected
+const requiredKeys = storageDriver === 'r2'
+  ? ['R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY', 'R2_ENDPOINT', 'R2_BUCKET_NAME']
+  : [];
 
 const missing = requiredKeys.filter((key) => !process.env[key]);
 if (missing.length) {
@@ -25,17 +83,78 @@ if (missing.length) {
 
 const config = {
   port: Number(process.env.PORT) || 3000,
+  // Absolute URL clients use to reach this gateway (e.g. https://kplayer.onrender.com).
+  // Falls back to the incoming request's host when empty.
+  publicBaseUrl: (process.env.PUBLIC_BASE_URL || '').replace(/\/$/, ''),
+  // Proxies in front of the gateway (1 on Render, 0 when clients connect directly); client IPs
+  // come from X-Forwarded-For past them. null when unset, which counts as 0.
+  trustProxy: process.env.TRUST_PROXY ? toPositiveInt(process.env.TRUST_PROXY, 0) : null,
+  storage: {
+    driver: storageDriver,
+    // Serve audio through the gateway's /files route even when the driver can presign URLs
+    proxyAudio: toBoolean(process.env.PROXY_AUDIO),
+    // Secret used to sign /files URLs; a random one means links die with the process
+    urlSecret: process.env.FILE_URL_SECRET || crypto.randomBytes(32).toString('hex'),
+    local: {
+      rootDir: path.resolve(process.cwd(), process.env.LOCAL_STORAGE_DIR || 'data'),
+    },
+  },
   r2: {
     accessKeyId: process.env.R2_ACCESS_KEY_ID,
     secretAccessKey: process.env.R2_SECRET_ACCESS_KEY,
     endpoint: process.env.R2_ENDPOINT,
     bucketName: process.env.R2_BUCKET_NAME,
   },
+  cacheJobs: {
+    // How many yt-dlp ➜ ffmpeg ➜ upload pipelines may run at once
+    concurrency: Math.max(1, toPositiveInt(process.env.CACHE_JOB_CONCURRENCY, 2)),
+    // Retries per failure class, with exponential backoff starting at baseDelayMs
+    retries: {
+      download: toPositiveInt(process.env.CACHE_RETRY_DOWNLOAD, 2),
+      transcode: toPositiveInt(process.env.CACHE_RETRY_TRANSCODE, 1),
+      upload: toPositiveInt(process.env.CACHE_RETRY_UPLOAD, 3),
+    },
+    retryBaseDelayMs: toPositiveInt(process.env.CACHE_RETRY_BASE_DELAY_MS, 5000),
+    retryMaxDelayMs: toPositiveInt(process.env.CACHE_RETRY_MAX_DELAY_MS, 5 * 60 * 1000),
+  },
+  loudness: {
+    mode: loudnessMode,
+    // EBU R128 targets for loudnorm: integrated loudness (LUFS), true peak (dBTP), loudness range (LU)
+    targetLufs: toNumber(process.env.LOUDNESS_TARGET_LUFS, -14),
+    truePeakDb: toNumber(process.env.LOUDNESS_TRUE_PEAK_DB, -1),
+    loudnessRange: toNumber(process.env.LOUDNESS_RANGE_LU, 11),
+  },
   youtube: {
     apiKey: process.env.YOUTUBE_API_KEY || '',
+    // Key that wraps the per-save data key of the stored cookies; without it they are stored in plaintext
+    cookiesEncryptionKey: toEncryptionKey(process.env.COOKIES_ENCRYPTION_KEY, 'COOKIES_ENCRYPTION_KEY'),
+    // Public video yt-dlp loads with the cookies to check YouTube still accepts them
+    probeVideoId: process.env.YOUTUBE_PROBE_VIDEO_ID || 'jNQXAC9IVRw',
+    // How often the cookies are probed in the background; 0 only probes on request
+    probeIntervalHours: toPositiveInt(process.env.YOUTUBE_PROBE_INTERVAL_HOURS, 12),
   },
   accessControl: {
     accessCode: process.env.ACCESS_CODE || '',
+    // Secret used to sign session tokens; a random one signs everyone out on restart
+    sessionSecret: process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex'),
+    // Sessions expire this long after they were issued or last refreshed...
+    sessionTtlMinutes: Math.max(1, toPositiveInt(process.env.SESSION_TTL_MINUTES, 24 * 60)),
+    // ...and can't be refreshed past this age, counted from the access code check
+    sessionMaxAgeDays: Math.max(1, toPositiveInt(process.env.SESSION_MAX_AGE_DAYS, 30)),
+    // Wrong codes in a row from one IP before it is locked out; the lockout doubles with each further miss
+    lockoutThreshold: Math.max(1, toPositiveInt(process.env.VERIFY_LOCKOUT_THRESHOLD, 5)),
+    lockoutBaseSeconds: Math.max(1, toPositiveInt(process.env.VERIFY_LOCKOUT_BASE_SECONDS, 30)),
+    lockoutMaxSeconds: Math.max(1, toPositiveInt(process.env.VERIFY_LOCKOUT_MAX_SECONDS, 60 * 60)),
+    // Wrong codes per minute from all IPs together before every check is slowed down; 0 turns it off
+    globalFailuresPerMinute: toPositiveInt(process.env.VERIFY_GLOBAL_FAILURES_PER_MINUTE, 30),
+  },
+  rateLimits: {
+    verify: toRateLimit(process.env.RATE_LIMIT_VERIFY, { perIp: 10, perToken: 0 }),
+    // Each search costs YouTube Data API quota
+    search: toRateLimit(process.env.RATE_LIMIT_SEARCH, { perIp: 30, perToken: 20 }),
+    // Resolving a track may start a yt-dlp download
+    stream: toRateLimit(process.env.RATE_LIMIT_STREAM, { perIp: 120, perToken: 60 }),
+    imports: toRateLimit(process.env.RATE_LIMIT_IMPORTS, { perIp: 10, perToken: 5 }),
   },
 };
 
@@ -0,0 +1,172 @@
+const { randomUUID } = require('crypto');
+const storage = require('./storage');
+const { enqueueCacheJob } = require('./cache/jobQueue');
+const { fetchPlaylistEntries } = require('./youtube');
+const { DEFAULT_QUALITY, trackRenditions } = require('./renditions');
+
+// Reports only live in memory; clients poll them while the import runs
+const MAX_IMPORT_REPORTS = 20;
+const imports = new Map();
+
+const ITEM_STATUSES = ['cached', 'caching', 'failed', 'unavailable'];
+
+function toReport(record) {
+  const summary = { total: record.items.length };
+  for (const status of ITEM_STATUSES) {
+    summary[status] = record.items.filter((item) => item.status === status).length;
+  }
+  return {
+    ...record,
+    finished: summary.caching === 0,
+    summary,
+  };
+}
+
+function rememberImport(record) {
+  imports.set(record.id, record);
+  // Maps iterate in insertion order, so the first key is the oldest report
+  while (imports.size > MAX_IMPORT_REPORTS) {
+    imports.delete(imports.keys().next().value);
+  }
+}
+
+// Keep an item's status in step with its cache job, across retries
+function followCacheJob(item, job) {
+  const onProgress = (snapshot) => {
+    if (snapshot.phase === 'done') {
+      item.status = 'cached';
+    } else if (snapshot.phase === 'failed') {
+      item.status = 'failed';
+      item.error = snapshot.error;
+    } else {
+      return;
+    }
+    job.off('progress', onProgress);
+  };
+  job.on('progress', onProgress);
+}
+
+function groupNotFound(groupId) {
+  const error = new Error(`Group ${groupId} not found`);
+  error.code = 'GROUP_NOT_FOUND';
+  return error;
+}
+
+/**
+ * Append `videoIds` to a group, keeping playlist order and skipping tracks it
+ * already has. Uses `groupId` if given, and fails when that group is gone;
+ * otherwise the group called `name`, creating it when there is none.
+ */
+async function addTracksToGroup({ groupId, name, videoIds }) {
+  const newGroupId = randomUUID();
+  let result = null;
+  await storage.updateGroups((groups) => {
+    const now = new Date().toISOString();
+    const existing = groupId
+      ? groups.find((candidate) => candidate.id === groupId)
+      : groups.find((candidate) => candidate.name === name);
+
+    if (!existing && groupId) {
+      throw groupNotFound(groupId);
+    }
+    if (!existing) {
+      result = {
+        id: newGroupId,
+        name,
+        trackIds: videoIds,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return [...groups, result];
+    }
+
+    const existingIds = new Set(existing.trackIds ?? []);
+    result = {
+      ...existing,
+      trackIds: [...(existing.trackIds ?? []), ...videoIds.filter((id) => !existingIds.has(id))],
+      version: existing.version + 1,
+      updatedAt: now,
+    };
+    return groups.map((group) => (group.id === existing.id ? result : group));
+  });
+  return result;
+}
+
+/**
+ * Expand a playlist, create or extend a group with the entries in playlist
+ * order, and queue a cache job for every playable entry that isn't cached in
+ * `quality` yet. Nothing is queued when the group can't be updated.
+ */
+async function startPlaylistImport({ playlistId, groupId, groupName, quality = DEFAULT_QUALITY }) {
+  const playlist = await fetchPlaylistEntries(playlistId);
+  const cachedIds = new Set(
+    (await storage.listTracks()).filter((track) => trackRenditions(track)[quality]).map((track) => track.videoId)
+  );
+
+  const seen = new Set();
+  const items = [];
+  for (const entry of playlist.entries) {
+    // Playlists may list the same video more than once
+    if (seen.has(entry.videoId)) {
+      continue;
+    }
+    seen.add(entry.videoId);
+
+    const item = {
+      videoId: entry.videoId,
+      title: entry.title,
+      position: items.length,
+      status: 'cached',
+      error: null,
+    };
+    if (!entry.available) {
+      item.status = 'unavailable';
+    } else if (!cachedIds.has(entry.videoId)) {
+      item.status = 'caching';
+    }
+    items.push(item);
+  }
+
+  const group = await addTracksToGroup({
+    groupId,
+    name: groupName?.trim() || playlist.title,
+    videoIds: items.filter((item) => item.status !== 'unavailable').map((item) => item.videoId),
+  });
+  for (const item of items.filter((candidate) => candidate.status === 'caching')) {
+    followCacheJob(item, enqueueCacheJob(item.videoId, quality));
+  }
+
+  const record = {
+    id: randomUUID(),
+    playlistId,
+    quality,
+    title: playlist.title,
+    groupId: group.id,
+    groupName: group.name,
+    createdAt: new Date().toISOString(),
+    items,
+  };
+  rememberImport(record);
+
+  const report = toReport(record);
+  console.log(
+    `[Import] Playlist ${playlistId} ➜ group "${group.name}": ${report.summary.total} tracks, ${report.summary.caching} queued for caching`
+  );
+  return report;
+}
+
+function getPlaylistImport(importId) {
+  const record = imports.get(importId);
+  return record ? toReport(record) : null;
+}
+
+function listPlaylistImports() {
+  return Array.from(imports.values(), toReport).reverse();
+}
+
+module.exports = {
+  startPlaylistImport,
+  getPlaylistImport,
+  listPlaylistImports,
+};
@@ -0,0 +1,150 @@
+const config = require('./config');
+
+/**
+ * Rate limits for the routes that cost something: access code checks, YouTube
+ * searches, stream resolution and playlist imports. Each route group has a
+ * token bucket per client IP and one per session, refilled continuously up to
+ * a minute's allowance. Like session revocations they live in memory, which
+ * assumes a single gateway process; a restart starts everyone afresh.
+ */
+
+const WINDOW_MS = 60 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const LOCKED_OUT_MESSAGE = 'Too many wrong access codes, please try again later';
+// Wrong access codes from everyone, as a bucket like the rate limits' ones
+const GLOBAL_FAILURES_KEY = 'verify:failures';
+// How long each code check waits while that bucket is empty
+const GLOBAL_SLOWDOWN_MS = 1000;
+
+const buckets = new Map();
+// Wrong access codes in a row, per IP
+const verifyFailures = new Map();
+let globalAlertedAt = 0;
+
+function availableTokens(key, limit, now) {
+  const bucket = buckets.get(key);
+  if (!bucket) {
+    return limit;
+  }
+  return Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) * limit) / WINDOW_MS);
+}
+
+function rejectTooManyRequests(res, waitMs, message) {
+  const retryAfter = Math.max(1, Math.ceil(waitMs / 1000));
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({ message, retryAfter });
+}
+
+/**
+ * Middleware taking one token from the caller's buckets for `name` (a key of
+ * config.rateLimits). The session bucket needs requireSession to have run.
+ */
+function rateLimit(name) {
+  const { perIp, perToken } = config.rateLimits[name];
+  return (req, res, next) => {
+    const now = Date.now();
+    const limits = [];
+    if (perIp) {
+      limits.push({ key: `${name}:ip:${req.ip}`, limit: perIp });
+    }
+    if (perToken && req.accessSession) {
+      limits.push({ key: `${name}:session:${req.accessSession.sid}`, limit: perToken });
+    }
+
+    const checked = limits.map((entry) => ({ ...entry, tokens: availableTokens(entry.key, entry.limit, now) }));
+    const waitMs = Math.max(
+      0,
+      ...checked.map(({ limit, tokens }) => (tokens >= 1 ? 0 : ((1 - tokens) * WINDOW_MS) / limit))
+    );
+    if (waitMs > 0) {
+      console.warn(`[RateLimit] ${name} limit reached for ${req.ip}`);
+      return rejectTooManyRequests(res, waitMs, 'Too many requests, please try again later');
+    }
+
+    checked.forEach(({ key, tokens }) => buckets.set(key, { tokens: tokens - 1, updatedAt: now }));
+    next();
+  };
+}
+
+/**
+ * Turns away IPs that are locked out after too many wrong access codes.
+ */
+function rejectLockedOut(req, res, next) {
+  const now = Date.now();
+  const lockedUntil = verifyFailures.get(req.ip)?.lockedUntil ?? 0;
+  if (lockedUntil > now) {
+    return rejectTooManyRequests(res, lockedUntil - now, LOCKED_OUT_MESSAGE);
+  }
+  next();
+}
+
+/**
+ * Holds every code check back a little while wrong codes from all IPs together
+ * are over their limit. Only per-IP lockouts turn callers away, so guessing
+ * from many addresses can't lock out people with a right code.
+ */
+function slowDownVerify(req, res, next) {
+  const limit = config.accessControl.globalFailuresPerMinute;
+  if (!limit || availableTokens(GLOBAL_FAILURES_KEY, limit, Date.now()) >= 1) {
+    return next();
+  }
+  setTimeout(next, GLOBAL_SLOWDOWN_MS);
+}
+
+/**
+ * Count a wrong access code. Returns how long the IP is now locked out for, in
+ * milliseconds (0 while it is under the threshold).
+ */
+function recordVerifyFailure(req) {
+  const { lockoutThreshold, lockoutBaseSeconds, lockoutMaxSeconds, globalFailuresPerMinute } = config.accessControl;
+  const now = Date.now();
+  if (globalFailuresPerMinute) {
+    const tokens = availableTokens(GLOBAL_FAILURES_KEY, globalFailuresPerMinute, now);
+    buckets.set(GLOBAL_FAILURES_KEY, { tokens: Math.max(0, tokens - 1), updatedAt: now });
+    if (tokens < 2 && now - globalAlertedAt >= WINDOW_MS) {
+      globalAlertedAt = now;
+      console.warn(`[RateLimit] Wrong access codes from all IPs reached ${globalFailuresPerMinute} per minute, slowing down code checks`);
+    }
+  }
+  const failures = (verifyFailures.get(req.ip)?.failures ?? 0) + 1;
+  let lockoutMs = 0;
+  if (failures >= lockoutThreshold) {
+    const seconds = Math.min(lockoutMaxSeconds, lockoutBaseSeconds * 2 ** (failures - lockoutThreshold));
+    lockoutMs = seconds * 1000;
+    console.warn(`[RateLimit] Locked out ${req.ip} for ${seconds}s after ${failures} wrong access codes`);
+  }
+  verifyFailures.set(req.ip, { failures, lastFailureAt: now, lockedUntil: now + lockoutMs });
+  return lockoutMs;
+}
+
+function clearVerifyFailures(req) {
+  verifyFailures.delete(req.ip);
+}
+
+// Full buckets and failures nobody has added to for a whole lockout period are forgotten
+function sweep() {
+  const now = Date.now();
+  buckets.forEach((bucket, key) => {
+    if (now - bucket.updatedAt >= WINDOW_MS) {
+      buckets.delete(key);
+    }
+  });
+  const forgetAfterMs = config.accessControl.lockoutMaxSeconds * 1000;
+  verifyFailures.forEach((entry, ip) => {
+    if (entry.lockedUntil <= now && now - entry.lastFailureAt >= forgetAfterMs) {
+      verifyFailures.delete(ip);
+    }
+  });
+}
+
+setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+
+module.exports = {
+  LOCKED_OUT_MESSAGE,
+  rateLimit,
+  rejectTooManyRequests,
+  rejectLockedOut,
+  slowDownVerify,
+  recordVerifyFailure,
+  clearVerifyFailures,
+};
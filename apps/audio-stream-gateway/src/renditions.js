@@ -0,0 +1,52 @@
+/**
+ * Audio renditions the gateway can produce. The id is what clients pass as
+ * `?quality=` and is part of the rendition's storage key.
+ */
+const RENDITIONS = {
+  'mp3-128': { codec: 'libmp3lame', bitrate: 128, format: 'mp3', extension: 'mp3', contentType: 'audio/mpeg' },
+  'mp3-320': { codec: 'libmp3lame', bitrate: 320, format: 'mp3', extension: 'mp3', contentType: 'audio/mpeg' },
+  // ADTS rather than MP4 because the output is a pipe and MP4 needs a seekable file
+  'aac-256': { codec: 'aac', bitrate: 256, format: 'adts', extension: 'aac', contentType: 'audio/aac' },
+  'opus-96': { codec: 'libopus', bitrate: 96, format: 'ogg', extension: 'opus', contentType: 'audio/ogg' },
+};
+
+// What every track was cached as before renditions existed
+const DEFAULT_QUALITY = 'mp3-128';
+
+function getRendition(quality) {
+  return Object.hasOwn(RENDITIONS, quality) ? { id: quality, ...RENDITIONS[quality] } : null;
+}
+
+/**
+ * Quality requested through `?quality=`: the default when absent, null when
+ * it isn't a known rendition.
+ */
+function parseQuality(value) {
+  if (value === undefined || value === '') {
+    return DEFAULT_QUALITY;
+  }
+  return typeof value === 'string' && getRendition(value) ? value : null;
+}
+
+/**
+ * Renditions recorded in track metadata, by quality. Tracks cached before
+ * renditions existed only have a `storageKey`, which is the default rendition.
+ */
+function trackRenditions(metadata) {
+  if (metadata?.renditions) {
+    return metadata.renditions;
+  }
+  if (metadata?.storageKey) {
+    const { contentType, bitrate } = RENDITIONS[DEFAULT_QUALITY];
+    return { [DEFAULT_QUALITY]: { storageKey: metadata.storageKey, contentType, bitrate } };
+  }
+  return {};
+}
+
+module.exports = {
+  RENDITIONS,
+  DEFAULT_QUALITY,
+  getRendition,
+  parseQuality,
+  trackRenditions,
+};
@@ -1,25 +1,74 @@
 const express = require('express');
 const cors = require('cors');
-const { spawn } = require('child_process');
 const { randomUUID } = require('crypto');
-const ffmpeg = require('fluent-ffmpeg');
-const { PassThrough } = require('stream');
 const fs = require('fs');
-const path = require('path');
 const config = require('./config');
-const storage = require('./storage/r2Storage');
+const storage = require('./storage');
+const {
+  getCacheJob,
+  removeCacheJob,
+  enqueueCacheJob,
+  listCacheJobs,
+  cancelCacheJob,
+  cancelVideoCacheJobs,
+  retryCacheJob,
+  resumeCacheJobs,
+} = require('./cache/jobQueue');
+const { COOKIES_FILE_PATH, writeCookiesFile, getVideoId, getPlaylistId, searchYouTubeSongs } = require('./youtube');
+const {
+  validateCookieFile,
+  probeYouTubeCookies,
+  forgetCookieProbe,
+  getCookieHealth,
+  scheduleCookieProbes,
+} = require('./youtubeCookies');
+const { startPlaylistImport, getPlaylistImport, listPlaylistImports } = require('./playlistImports');
+const { RENDITIONS, DEFAULT_QUALITY, getRendition, parseQuality, trackRenditions } = require('./renditions');
+const {
+  isAccessControlEnabled,
+  issueSession,
+  refreshSession,
+  issueMediaToken,
+  revokeSession,
+  revokeAllSessions,
+  loadSessionRevocations,
+  requireSession,
+  requireRole,
+} = require('./sessions');
+const {
+  ROLES,
+  isRole,
+  loadAccessCodes,
+  listAccessCodes,
+  findAccessCode,
+  createAccessCode,
+  updateAccessCode,
+  deleteAccessCode,
+} = require('./accessCodes');
+const {
+  LOCKED_OUT_MESSAGE,
+  rateLimit,
+  rejectTooManyRequests,
+  rejectLockedOut,
+  slowDownVerify,
+  recordVerifyFailure,
+  clearVerifyFailures,
+} = require('./rateLimits');
+
+const SSE_HEARTBEAT_MS = 15000;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+const MAX_PLAY_TEXT_LENGTH = 300;
+const UNKNOWN_QUALITY_MESSAGE = `Unknown quality (expected one of: ${Object.keys(RENDITIONS).join(', ')})`;
 
 const app = express();
-
-const YOUTUBE_SEARCH_ENDPOINT = 'https://www.googleapis.com/youtube/v3/search';
-const MUSIC_CATEGORY_ID = '10';
-const YOUTUBE_MAX_RESULTS = 5;
-const COOKIES_FILE_PATH = path.join('/tmp', 'youtube-cookies.txt');
+app.set('trust proxy', config.trustProxy ?? 0);
 
 app.use(
   cors({
     origin: '*',
     methods: ['GET', 'HEAD', 'OPTIONS', 'POST', 'PUT', 'DELETE'],
+    exposedHeaders: ['ETag', 'Retry-After'],
   })
 );
 
@@ -29,7 +78,60 @@ app.get('/healthz', (_, res) => {
   res.json({ status: 'ok' });
 });
 
-const isAccessControlEnabled = Boolean(config.accessControl?.accessCode);
+// Audio served by the gateway itself (local driver, or R2 with PROXY_AUDIO) goes through
+// signed /files links. Players seek by byte range, so honour Range and HEAD properly.
+app.get('/files/*', async (req, res, next) => {
+  const key = req.params[0];
+  const { expires, signature } = req.query;
+  if (!storage.verifyFileLink(key, expires, signature)) {
+    return res.status(403).json({ message: 'Invalid or expired file link' });
+  }
+
+  try {
+    const fileInfo = await storage.getFileInfo(key);
+    if (!fileInfo) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', fileInfo.contentType);
+    if (fileInfo.lastModified) {
+      res.setHeader('Last-Modified', new Date(fileInfo.lastModified).toUTCString());
+    }
+
+    let range;
+    if (req.headers.range) {
+      const ranges = req.range(fileInfo.size, { combine: true });
+      if (ranges === -1) {
+        res.setHeader('Content-Range', `bytes */${fileInfo.size}`);
+        return res.status(416).end();
+      }
+      // Malformed or multi-range requests fall back to the full body
+      if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+        range = ranges[0];
+      }
+    }
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${fileInfo.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', fileInfo.size);
+    }
+
+    if (req.method === 'HEAD') {
+      return res.end();
+    }
+
+    const fileStream = await storage.getFileStream(key, range);
+    fileStream.on('error', next);
+    res.on('close', () => fileStream.destroy());
+    fileStream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
 
 app.get('/api/access-control/status', (_req, res) => {
   res.json({
@@ -38,9 +140,9 @@ app.get('/api/access-control/status', (_req, res) => {
   });
 });
 
-app.post('/api/access-control/verify', (req, res) => {
+app.post('/api/access-control/verify', rejectLockedOut, rateLimit('verify'), slowDownVerify, async (req, res, next) => {
   if (!isAccessControlEnabled) {
-    return res.json({ success: true, version: null });
+    return res.json({ success: true, version: null, role: 'admin' });
   }
 
   const code = typeof req.body?.code === 'string' ? req.body.code.trim() : '';
@@ -48,14 +150,135 @@ app.post('/api/access-control/verify', (req, res) => {
     return res.status(400).json({ success: false, message: 'Access code required' });
   }
 
-  if (code === config.accessControl.accessCode) {
-    return res.json({ success: true, version: config.accessControl.codeHash });
+  try {
+    const accessCode = await findAccessCode(code);
+    if (!accessCode) {
+      const lockoutMs = recordVerifyFailure(req);
+      if (lockoutMs) {
+        return rejectTooManyRequests(res, lockoutMs, LOCKED_OUT_MESSAGE);
+      }
+      return res.status(401).json({ success: false, message: 'Access code invalid' });
+    }
+    clearVerifyFailures(req);
+    const session = issueSession(accessCode.id);
+    res.json({ success: true, version: config.accessControl.codeHash, name: accessCode.name, ...session });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Everything below needs a session once an access code is set; /files links carry their own signature
+app.use(requireSession);
+
+app.get('/api/access-control/session', (req, res) => {
+  if (!req.accessSession) {
+    return res.json({ enabled: false, role: 'admin' });
+  }
+  res.json({
+    enabled: true,
+    expiresAt: new Date(req.accessSession.exp).toISOString(),
+    role: req.accessSession.role,
+  });
+});
+
+// A new token for the same session; the old one stays valid until it expires
+app.post('/api/access-control/refresh', (req, res) => {
+  if (!req.accessSession) {
+    return res.status(404).json({ message: 'Access control is disabled' });
+  }
+  res.json(refreshSession(req.accessSession));
+});
+
+app.post('/api/access-control/logout', async (req, res, next) => {
+  if (!req.accessSession) {
+    return res.status(204).end();
+  }
+  try {
+    await revokeSession(req.accessSession);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/api/access-control/revoke-all', requireRole('admin'), async (req, res, next) => {
+  if (!req.accessSession) {
+    return res.status(404).json({ message: 'Access control is disabled' });
+  }
+  try {
+    await revokeAllSessions();
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+function parseAccessCodeFields(body, { partial }) {
+  const { name, role, code } = body ?? {};
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: 'Name is required' };
+    }
+  }
+  if (role !== undefined || !partial) {
+    if (!isRole(role)) {
+      return { error: `Role must be one of: ${ROLES.join(', ')}` };
+    }
   }
+  if (code !== undefined && (partial || typeof code !== 'string')) {
+    return { error: partial ? 'Codes cannot be changed, create a new one instead' : 'Code must be a string' };
+  }
+  return { name: name?.trim(), role, code: code?.trim() };
+}
 
-  return res.status(401).json({ success: false, message: 'Access code invalid' });
+app.get('/api/access-codes', requireRole('admin'), (_req, res) => {
+  res.json({ codes: listAccessCodes() });
+});
+
+// The plain-text code is only in this response
+app.post('/api/access-codes', requireRole('admin'), async (req, res, next) => {
+  const { error, ...fields } = parseAccessCodeFields(req.body, { partial: false });
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    res.status(201).json(await createAccessCode(fields));
+  } catch (createError) {
+    if (createError.code === 'INVALID_ACCESS_CODE') {
+      return res.status(400).json({ message: createError.message });
+    }
+    next(createError);
+  }
+});
+
+app.put('/api/access-codes/:codeId', requireRole('admin'), async (req, res, next) => {
+  const { error, name, role } = parseAccessCodeFields(req.body, { partial: true });
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+  try {
+    const updated = await updateAccessCode(req.params.codeId, { name, role });
+    if (!updated) {
+      return res.status(404).json({ message: 'Access code not found' });
+    }
+    res.json(updated);
+  } catch (updateError) {
+    next(updateError);
+  }
+});
+
+app.delete('/api/access-codes/:codeId', requireRole('admin'), async (req, res, next) => {
+  try {
+    if (!(await deleteAccessCode(req.params.codeId))) {
+      return res.status(404).json({ message: 'Access code not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
 });
 
-app.get('/search', async (req, res) => {
+app.get('/search', rateLimit('search'), async (req, res) => {
   if (!config.youtube?.apiKey) {
     return res.status(503).json({ message: 'YouTube search is not configured' });
   }
@@ -76,8 +299,112 @@ app.get('/search', async (req, res) => {
 
 app.get('/tracks', async (_req, res, next) => {
   try {
-    const tracks = await storage.listTracks();
-    res.json({ tracks });
+    const [tracks, playStats] = await Promise.all([storage.listTracks(), storage.getPlayStats()]);
+    res.json({
+      tracks: tracks.map((track) => ({
+        ...track,
+        playCount: playStats[track.videoId]?.playCount ?? 0,
+        lastPlayedAt: playStats[track.videoId]?.lastPlayedAt ?? null,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The track index is derived from per-track metadata; rebuild it if it drifts
+app.post('/tracks/reindex', requireRole('admin'), async (_req, res, next) => {
+  try {
+    const index = await storage.rebuildTrackIndex();
+    res.json({ tracks: Object.keys(index).length });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Plays reported after the fact keep their time, as long as it isn't in the future
+function parsePlayedAt(value) {
+  if (value === undefined) {
+    return new Date().toISOString();
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    return null;
+  }
+  return new Date(Math.min(time, Date.now())).toISOString();
+}
+
+function optionalText(value) {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_PLAY_TEXT_LENGTH) : undefined;
+}
+
+// The client reports a play once it has gone on long enough to count
+app.post('/plays', async (req, res, next) => {
+  const { videoId: rawId, playedAt: rawPlayedAt, listenedSeconds, title, author } = req.body ?? {};
+  const videoId = typeof rawId === 'string' ? getVideoId(rawId) : null;
+  if (!videoId) {
+    return res.status(400).json({ message: 'Valid videoId is required' });
+  }
+  const playedAt = parsePlayedAt(rawPlayedAt);
+  if (!playedAt) {
+    return res.status(400).json({ message: 'playedAt must be an ISO timestamp' });
+  }
+  if (listenedSeconds !== undefined && !(Number.isFinite(listenedSeconds) && listenedSeconds >= 0)) {
+    return res.status(400).json({ message: 'listenedSeconds must be a non-negative number' });
+  }
+
+  try {
+    const play = await storage.recordPlay({
+      videoId,
+      playedAt,
+      listenedSeconds: listenedSeconds === undefined ? undefined : Math.round(listenedSeconds),
+      title: optionalText(title),
+      author: optionalText(author),
+    });
+    res.status(201).json({ play });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// A bare date (YYYY-MM-DD, UTC) as the upper bound covers the whole day
+function parseHistoryBound(value, endOfDay = false) {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    return null;
+  }
+  const wholeDay = endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(wholeDay ? time + 24 * 60 * 60 * 1000 - 1 : time).toISOString();
+}
+
+// A page's `nextBefore` is "<playedAt>,<play id>"; a bare date or timestamp works too
+function parseHistoryCursor(value) {
+  if (typeof value !== 'string' || !value.includes(',')) {
+    const playedAt = parseHistoryBound(value);
+    return playedAt ? { playedAt, id: null } : playedAt;
+  }
+  const [time, id] = value.split(',', 2);
+  const playedAt = parseHistoryBound(time);
+  return playedAt ? { playedAt, id } : null;
+}
+
+app.get('/history', async (req, res, next) => {
+  const from = parseHistoryBound(req.query.from);
+  const to = parseHistoryBound(req.query.to, true);
+  const before = parseHistoryCursor(req.query.before);
+  if (from === null || to === null || before === null) {
+    return res.status(400).json({ message: 'from, to and before must be dates or ISO timestamps' });
+  }
+  const limit = req.query.limit === undefined ? DEFAULT_HISTORY_LIMIT : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    return res.status(400).json({ message: `limit must be between 1 and ${MAX_HISTORY_LIMIT}` });
+  }
+
+  try {
+    res.json(await storage.listPlays({ from, to, before, limit }));
   } catch (error) {
     next(error);
   }
@@ -92,10 +419,12 @@ app.get('/groups', async (_req, res, next) => {
   }
 });
 
-app.delete('/tracks/:videoId', async (req, res, next) => {
+app.delete('/tracks/:videoId', requireRole('admin'), async (req, res, next) => {
   try {
     const rawId = req.params.videoId;
     const videoId = getVideoId(rawId) ?? rawId;
+    // A running job would otherwise store a rendition of the track right after it is gone
+    cancelVideoCacheJobs(videoId);
     const deleted = await storage.deleteTrack(videoId);
     if (!deleted) {
       return res.status(404).json({ message: 'Track not found' });
@@ -106,415 +435,515 @@ app.delete('/tracks/:videoId', async (req, res, next) => {
   }
 });
 
-app.post('/groups', async (req, res, next) => {
+/**
+ * Group version the client last saw, from `If-Match: "3"` (weak validators
+ * allowed). Null when the header is absent, which keeps last-writer-wins for
+ * older clients.
+ */
+function parseIfMatch(req) {
+  const header = req.get('If-Match');
+  if (!header) {
+    return null;
+  }
+  const version = Number.parseInt(header.trim().replace(/^W\//, '').replace(/"/g, ''), 10);
+  return Number.isFinite(version) ? version : NaN;
+}
+
+function sendGroup(res, status, group) {
+  res.set('ETag', `"${group.version}"`);
+  res.status(status).json(group);
+}
+
+function sendGroupConflict(res, group) {
+  res.set('ETag', `"${group.version}"`);
+  res.status(409).json({ message: 'Group was changed by someone else', current: group });
+}
+
+app.get('/groups/:groupId', async (req, res, next) => {
+  try {
+    const groups = await storage.listGroups();
+    const group = groups.find((candidate) => candidate.id === req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+    sendGroup(res, 200, group);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.post('/groups', requireRole('curator'), async (req, res, next) => {
   try {
     const { name, trackIds } = req.body ?? {};
     if (!name || typeof name !== 'string') {
       return res.status(400).json({ message: 'Group name is required' });
     }
     const sanitizedTrackIds = Array.isArray(trackIds) ? trackIds : [];
-    const groups = await storage.listGroups();
     const newGroup = {
       id: randomUUID(),
       name: name.trim(),
       trackIds: sanitizedTrackIds,
+      version: 1,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
-    groups.push(newGroup);
-    await storage.saveGroups(groups);
-    res.status(201).json(newGroup);
+    await storage.updateGroups((groups) => [...groups, newGroup]);
+    sendGroup(res, 201, newGroup);
   } catch (error) {
     next(error);
   }
 });
 
-app.put('/groups/:groupId', async (req, res, next) => {
+app.put('/groups/:groupId', requireRole('curator'), async (req, res, next) => {
+  const expectedVersion = parseIfMatch(req);
+  if (Number.isNaN(expectedVersion)) {
+    return res.status(400).json({ message: 'If-Match must be a group version' });
+  }
+
   try {
     const { groupId } = req.params;
     const { name, trackIds } = req.body ?? {};
-    const groups = await storage.listGroups();
-    const index = groups.findIndex((group) => group.id === groupId);
-    if (index === -1) {
+    // The mutation may run again after a storage-level conflict, so it only records its outcome
+    let outcome;
+    await storage.updateGroups((groups) => {
+      const current = groups.find((group) => group.id === groupId);
+      if (!current) {
+        outcome = { status: 404 };
+        return undefined;
+      }
+      if (expectedVersion !== null && current.version !== expectedVersion) {
+        outcome = { status: 409, group: current };
+        return undefined;
+      }
+      const updated = {
+        ...current,
+        name: typeof name === 'string' ? name.trim() : current.name,
+        trackIds: Array.isArray(trackIds) ? trackIds : current.trackIds,
+        version: current.version + 1,
+        updatedAt: new Date().toISOString(),
+      };
+      outcome = { status: 200, group: updated };
+      return groups.map((group) => (group.id === groupId ? updated : group));
+    });
+
+    if (outcome.status === 404) {
       return res.status(404).json({ message: 'Group not found' });
     }
-    if (typeof name === 'string') {
-      groups[index].name = name.trim();
-    }
-    if (Array.isArray(trackIds)) {
-      groups[index].trackIds = trackIds;
+    if (outcome.status === 409) {
+      return sendGroupConflict(res, outcome.group);
     }
-    groups[index].updatedAt = new Date().toISOString();
-    await storage.saveGroups(groups);
-    res.json(groups[index]);
+    sendGroup(res, 200, outcome.group);
   } catch (error) {
     next(error);
   }
 });
 
-app.delete('/groups/:groupId', async (req, res, next) => {
+app.delete('/groups/:groupId', requireRole('curator'), async (req, res, next) => {
+  const expectedVersion = parseIfMatch(req);
+  if (Number.isNaN(expectedVersion)) {
+    return res.status(400).json({ message: 'If-Match must be a group version' });
+  }
+
   try {
     const { groupId } = req.params;
-    const groups = await storage.listGroups();
-    const nextGroups = groups.filter((group) => group.id !== groupId);
-    if (nextGroups.length === groups.length) {
+    let outcome;
+    await storage.updateGroups((groups) => {
+      const current = groups.find((group) => group.id === groupId);
+      if (!current) {
+        outcome = { status: 404 };
+        return undefined;
+      }
+      if (expectedVersion !== null && current.version !== expectedVersion) {
+        outcome = { status: 409, group: current };
+        return undefined;
+      }
+      outcome = { status: 204 };
+      return groups.filter((group) => group.id !== groupId);
+    });
+
+    if (outcome.status === 404) {
       return res.status(404).json({ message: 'Group not found' });
     }
-    await storage.saveGroups(nextGroups);
+    if (outcome.status === 409) {
+      return sendGroupConflict(res, outcome.group);
+    }
     res.status(204).end();
   } catch (error) {
     next(error);
   }
 });
 
-function getVideoId(candidate = '') {
-  const shortCodeMatch = candidate.match(/[a-zA-Z0-9_-]{11}/);
-  if (candidate.length === 11 && shortCodeMatch) {
-    return candidate;
+// Bulk import: cache every track of a YouTube playlist and collect them in a group
+app.post('/imports', requireRole('curator'), rateLimit('imports'), async (req, res, next) => {
+  const { playlist, groupId, groupName, quality: requestedQuality } = req.body ?? {};
+  const playlistId = typeof playlist === 'string' ? getPlaylistId(playlist) : null;
+  if (!playlistId) {
+    return res.status(400).json({ message: 'A YouTube playlist URL or id is required' });
   }
-
-  const urlMatch = candidate.match(/[?&]v=([a-zA-Z0-9_-]{11})/);
-  if (urlMatch?.[1]) {
-    return urlMatch[1];
+  const quality = parseQuality(requestedQuality);
+  if (!quality) {
+    return res.status(400).json({ message: UNKNOWN_QUALITY_MESSAGE });
   }
 
-  const shareMatch = candidate.match(/youtu\.be\/([a-zA-Z0-9_-]{11})/);
-  if (shareMatch?.[1]) {
-    return shareMatch[1];
+  if (groupId) {
+    try {
+      const groups = await storage.listGroups();
+      if (!groups.some((group) => group.id === groupId)) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+    } catch (error) {
+      return next(error);
+    }
   }
 
-  return null;
-}
+  try {
+    const report = await startPlaylistImport({
+      playlistId,
+      groupId,
+      groupName: typeof groupName === 'string' ? groupName : undefined,
+      quality,
+    });
+    res.status(202).json(report);
+  } catch (error) {
+    // Deleted while the playlist was being fetched
+    if (error.code === 'GROUP_NOT_FOUND') {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+    console.error(`[Import] Playlist import failed for ${playlistId}`, error);
+    res.status(502).json({ message: 'Failed to import playlist' });
+  }
+});
 
-function slugifyTitle(title, fallback) {
-  const normalized = title
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/(^-|-$)/g, '')
-    .slice(0, 60);
-  const slug = normalized || fallback;
-  return slug;
-}
+app.get('/imports', requireRole('curator'), (_req, res) => {
+  res.json({ imports: listPlaylistImports() });
+});
 
-function buildObjectKey(title, videoId) {
-  const slug = slugifyTitle(title, videoId);
-  return `audio/${slug}-${videoId}.mp3`;
-}
+app.get('/imports/:importId', requireRole('curator'), (req, res) => {
+  const report = getPlaylistImport(req.params.importId);
+  if (!report) {
+    return res.status(404).json({ message: 'Import not found' });
+  }
+  res.json(report);
+});
 
-// Helper function to build yt-dlp args with cookies if available
-function buildYtDlpArgs(baseArgs) {
-  const args = [...baseArgs];
-  if (fs.existsSync(COOKIES_FILE_PATH)) {
-    args.push('--cookies', COOKIES_FILE_PATH);
-    console.log('[yt-dlp] Using cookies file');
+/**
+ * Storage drivers may return gateway-relative URLs (e.g. /files/...);
+ * clients need an absolute URL they can hand to the player.
+ */
+function toPublicUrl(req, url) {
+  if (!url.startsWith('/')) {
+    return url;
   }
-  return args;
+  const baseUrl = config.publicBaseUrl || `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}${url}`;
 }
 
-async function fetchVideoInfo(videoId) {
-  const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
-  return new Promise((resolve, reject) => {
-    const args = buildYtDlpArgs([
-      '--dump-single-json',
-      '--no-warnings',
-      '--skip-download',
-      youtubeUrl,
-    ]);
-    const infoProcess = spawn('yt-dlp', args);
-
-    let stdout = '';
-    let stderr = '';
-
-    infoProcess.stdout.on('data', (chunk) => {
-      stdout += chunk.toString();
-    });
-
-    infoProcess.stderr.on('data', (chunk) => {
-      stderr += chunk.toString();
-    });
-
-    infoProcess.on('error', (error) => {
-      reject(error);
-    });
-
-    infoProcess.on('close', (code) => {
-      if (code !== 0) {
-        return reject(new Error(stderr || `yt-dlp metadata exit code ${code}`));
-      }
-      try {
-        const payload = JSON.parse(stdout);
-        resolve(payload);
-      } catch (error) {
-        reject(error);
-      }
-    });
-  });
+function liveStreamPayload(req, videoId, quality) {
+  const path = `/stream/${videoId}/live`;
+  // The player loads this URL itself, so it carries a token for this path only
+  const token = req.accessSession ? `&media_token=${issueMediaToken(req.accessSession, path)}` : '';
+  return {
+    cached: false,
+    caching: true,
+    url: toPublicUrl(req, `${path}?quality=${quality}${token}`),
+    videoId,
+    quality,
+    metadata: null,
+  };
 }
 
-async function searchYouTubeSongs(query, maxResults = YOUTUBE_MAX_RESULTS) {
-  const params = new URLSearchParams({
-    key: config.youtube.apiKey,
-    part: 'snippet',
-    q: query,
-    type: 'video',
-    videoCategoryId: MUSIC_CATEGORY_ID,
-    maxResults: String(maxResults),
-    order: 'relevance',
-    safeSearch: 'none',
-    fields: 'items(id/videoId,snippet/title,snippet/description,snippet/channelTitle,snippet/thumbnails/medium,snippet/thumbnails/default,snippet/publishedAt)',
-  });
+/**
+ * Where `quality` of a track can be played from right now: a signed URL for the
+ * cached file, or the live transcode of its cache job, which is started when
+ * there is none. A failed job is reported once and cleared so the next request
+ * starts over.
+ */
+async function resolveStream(req, videoId, quality) {
+  const existingMetadata = await storage.getTrackMetadata(videoId);
+  let cacheKey = trackRenditions(existingMetadata)[quality]?.storageKey;
+  let objectExists = false;
 
-  const response = await fetch(`${YOUTUBE_SEARCH_ENDPOINT}?${params.toString()}`);
-  if (!response.ok) {
-    const errorPayload = await response.text();
-    throw new Error(`YouTube API error ${response.status}: ${errorPayload}`);
+  if (cacheKey) {
+    objectExists = await storage.checkFileExists(cacheKey);
   }
 
-  const payload = await response.json();
-  const items = Array.isArray(payload.items) ? payload.items : [];
-
-  return items
-    .map((item) => {
-      const videoId = item?.id?.videoId;
-      if (!videoId) {
-        return null;
-      }
+  // The oldest caches were stored under the bare video id, always as MP3 128k
+  if (!objectExists && quality === DEFAULT_QUALITY) {
+    cacheKey = `audio/${videoId}.mp3`;
+    objectExists = await storage.checkFileExists(cacheKey);
+  }
 
-      const snippet = item.snippet ?? {};
-      const thumbnailUrl =
-        snippet.thumbnails?.medium?.url || snippet.thumbnails?.default?.url || null;
+  if (objectExists) {
+    // Track is cached - return a signed storage URL
+    console.log(`[Stream] Serving ${videoId} (${quality}) from cache (${storage.driverName})`);
+    const signedUrl = toPublicUrl(req, await storage.getSignedFileUrl(cacheKey, 3600)); // 1 hour expiry
+    return {
+      status: 200,
+      payload: {
+        cached: true,
+        url: signedUrl,
+        videoId,
+        quality,
+        metadata: existingMetadata
+      },
+    };
+  }
 
+  // This rendition is not cached - join the in-flight transcode if there is one
+  const job = getCacheJob(videoId, quality);
+  if (job) {
+    // Check if caching failed with an error
+    if (job.error) {
+      console.log(`[Stream] Cache job failed for ${job.key}: ${job.error}`);
+      removeCacheJob(videoId, quality); // Clean up failed job
       return {
-        videoId,
-        title: snippet.title ?? '未知标题',
-        channelTitle: snippet.channelTitle ?? null,
-        description: snippet.description ?? null,
-        thumbnailUrl,
-        publishedAt: snippet.publishedAt ?? null,
+        status: 500,
+        payload: {
+          cached: false,
+          caching: false,
+          error: job.error,
+          videoId
+        },
       };
-    })
-    .filter(Boolean);
-}
+    }
 
-// Track ongoing cache jobs to prevent duplicate downloads
-const cachingJobs = new Map();
+    console.log(`[Stream] Joining in-flight cache job for ${job.key}`);
+    return { status: 200, payload: liveStreamPayload(req, videoId, quality) };
+  }
+
+  enqueueCacheJob(videoId, quality);
+  return { status: 200, payload: liveStreamPayload(req, videoId, quality) };
+}
 
-app.get('/stream/:videoId', async (req, res, next) => {
+app.get('/stream/:videoId', rateLimit('stream'), async (req, res, next) => {
   const rawVideoId = req.params.videoId;
   const videoId = getVideoId(rawVideoId);
 
   if (!videoId) {
     return res.status(400).json({ message: 'Invalid video id' });
   }
+  const quality = parseQuality(req.query.quality);
+  if (!quality) {
+    return res.status(400).json({ message: UNKNOWN_QUALITY_MESSAGE });
+  }
 
   try {
-    const existingMetadata = await storage.getTrackMetadata(videoId);
-    let cacheKey = existingMetadata?.storageKey;
-    let objectExists = false;
+    const { status, payload } = await resolveStream(req, videoId, quality);
+    res.status(status).json(payload);
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (cacheKey) {
-      objectExists = await storage.checkFileExists(cacheKey);
-    }
+// Stable audio URL for player queues. It is only resolved (and caching only
+// starts) when the player actually loads the track, so queueing a whole group is cheap.
+app.get('/stream/:videoId/audio', rateLimit('stream'), async (req, res, next) => {
+  const videoId = getVideoId(req.params.videoId);
+  if (!videoId) {
+    return res.status(400).json({ message: 'Invalid video id' });
+  }
+  const quality = parseQuality(req.query.quality);
+  if (!quality) {
+    return res.status(400).json({ message: UNKNOWN_QUALITY_MESSAGE });
+  }
 
-    if (!objectExists) {
-      cacheKey = `audio/${videoId}.mp3`;
-      objectExists = await storage.checkFileExists(cacheKey);
+  try {
+    const { status, payload } = await resolveStream(req, videoId, quality);
+    if (!payload.url) {
+      return res.status(status).json(payload);
     }
+    // The signed URL expires, so players must not keep the redirect
+    res.setHeader('Cache-Control', 'no-store');
+    res.redirect(302, payload.url);
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (objectExists) {
-      // Track is cached - return R2 signed URL
-      console.log(`[Stream] Serving ${videoId} from cache (R2 URL)`);
-      const signedUrl = await storage.getSignedFileUrl(cacheKey, 3600); // 1 hour expiry
-      return res.json({
-        cached: true,
-        url: signedUrl,
-        videoId,
-        metadata: existingMetadata
-      });
+// Progressive playback of a track that is still being transcoded.
+// Every listener replays the job's buffer from the first byte, then follows the tail.
+app.get('/stream/:videoId/live', async (req, res, next) => {
+  const videoId = getVideoId(req.params.videoId);
+  if (!videoId) {
+    return res.status(400).json({ message: 'Invalid video id' });
+  }
+  const quality = parseQuality(req.query.quality);
+  if (!quality) {
+    return res.status(400).json({ message: UNKNOWN_QUALITY_MESSAGE });
+  }
+
+  const job = getCacheJob(videoId, quality);
+  if (!job || job.error) {
+    try {
+      // The job may have finished between /stream and this request
+      const storageKey = trackRenditions(await storage.getTrackMetadata(videoId))[quality]?.storageKey;
+      if (!job && storageKey && (await storage.checkFileExists(storageKey))) {
+        const signedUrl = toPublicUrl(req, await storage.getSignedFileUrl(storageKey, 3600));
+        return res.redirect(302, signedUrl);
+      }
+      return res.status(404).json({ message: job?.error ?? 'No cache job in progress' });
+    } catch (error) {
+      return next(error);
     }
+  }
 
-    // Track is not cached - check if caching is already in progress
-    if (cachingJobs.has(videoId)) {
-      const job = cachingJobs.get(videoId);
+  // The file is still growing, so there is nothing stable to serve ranges from
+  res.setHeader('Content-Type', getRendition(quality).contentType);
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('Accept-Ranges', 'none');
 
-      // Check if caching failed with an error
-      if (job.error) {
-        console.log(`[Stream] Cache job failed for ${videoId}: ${job.error}`);
-        cachingJobs.delete(videoId); // Clean up failed job
-        return res.status(500).json({
-          cached: false,
-          caching: false,
-          error: job.error,
-          videoId
-        });
-      }
+  const reader = job.buffer.createReadStream();
+  reader.on('error', (error) => {
+    console.warn(`[Stream] Live stream for ${job.key} ended early: ${error.message}`);
+    res.destroy(error);
+  });
+  res.on('close', () => reader.destroy());
+  reader.pipe(res);
+});
 
-      console.log(`[Stream] Cache job already in progress for ${videoId}`);
-      return res.status(202).json({
-        cached: false,
-        caching: true,
-        message: 'Caching in progress',
-        videoId
-      });
-    }
-
-    // Start background caching job
-    console.log(`[Stream] Starting background cache job for ${videoId}`);
-    const objectKey = buildObjectKey(videoId, videoId);
-    cacheKey = objectKey;
-
-    // Mark job as in progress
-    cachingJobs.set(videoId, { startTime: Date.now(), cacheKey });
-
-    // Return 202 immediately - don't wait for caching to complete
-    res.status(202).json({
-      cached: false,
-      caching: true,
-      message: 'Started caching video',
-      videoId
-    });
+// Job administration: see what is downloading, clear stuck jobs, retry failed ones
+app.get('/jobs', (_req, res) => {
+  res.json(listCacheJobs());
+});
 
-    // Start background caching (async, won't be interrupted by client disconnect)
-    (async () => {
-      const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
-      const downloadArgs = buildYtDlpArgs([
-        '-f', 'bestaudio/best',
-        '-o', '-',
-        '--quiet',
-        '--no-warnings',
-        youtubeUrl
-      ]);
-
-      const ytDlp = spawn('yt-dlp', downloadArgs);
-      let hasError = false;
-
-      ytDlp.stderr.on('data', (data) => {
-        const message = data.toString();
-        if (message.trim()) {
-          console.warn(`[Cache] yt-dlp warning for ${videoId}: ${message.trim()}`);
-        }
-      });
-
-      ytDlp.on('error', (error) => {
-        console.error(`[Cache] Failed to spawn yt-dlp for ${videoId}`, error);
-        hasError = true;
-        const job = cachingJobs.get(videoId);
-        if (job) {
-          job.error = `Failed to start download: ${error.message}`;
-        }
-      });
-
-      ytDlp.on('close', (code) => {
-        if (code !== 0 && !hasError) {
-          console.error(`[Cache] yt-dlp exited with code ${code} for ${videoId}`);
-          hasError = true;
-          const job = cachingJobs.get(videoId);
-          if (job) {
-            job.error = `Download failed with exit code ${code}`;
-          }
-        }
-      });
-
-      const transcoder = ffmpeg(ytDlp.stdout)
-        .audioBitrate(128)
-        .format('mp3')
-        .on('error', (error) => {
-          // "Output stream closed" means the stream finished successfully
-          // This is not a fatal error - the upload likely completed
-          if (error.message && error.message.includes('Output stream closed')) {
-            console.log(`[Cache] Stream closed for ${videoId} (upload likely completed)`);
-            return;
-          }
-
-          console.error(`[Cache] Transcode failed for ${videoId}`, error);
-          hasError = true;
-          const job = cachingJobs.get(videoId);
-          if (job) {
-            job.error = `Audio conversion failed: ${error.message}`;
-          }
-          ytDlp.kill('SIGKILL');
-        });
-
-      const transcoderOutput = new PassThrough();
-      const cacheStream = new PassThrough();
-
-      transcoder.pipe(transcoderOutput);
-      transcoderOutput.pipe(cacheStream);
-
-      // Fetch metadata in background
-      fetchVideoInfo(videoId)
-        .then(async (videoInfo) => {
-          const thumbnails = Array.isArray(videoInfo.thumbnails) ? videoInfo.thumbnails : [];
-          const thumbnailUrl = videoInfo.thumbnail ?? thumbnails[thumbnails.length - 1]?.url ?? null;
-          const metadataPayload = {
-            videoId,
-            storageKey: cacheKey,
-            title: videoInfo.title ?? videoId,
-            author: videoInfo.uploader ?? videoInfo.channel ?? 'Unknown artist',
-            durationSeconds: typeof videoInfo.duration === 'number' ? videoInfo.duration : null,
-            thumbnailUrl,
-            createdAt: new Date().toISOString(),
-          };
-          await storage.saveTrackMetadata(metadataPayload);
-          console.log(`[Cache] Metadata saved for ${videoId}`);
-        })
-        .catch((error) => {
-          console.error(`[Cache] Failed to fetch metadata for ${videoId}`, error);
-          // Save minimal metadata as fallback
-          return storage.saveTrackMetadata({
-            videoId,
-            storageKey: cacheKey,
-            title: videoId,
-            author: 'Unknown',
-            durationSeconds: null,
-            thumbnailUrl: null,
-            createdAt: new Date().toISOString(),
-          });
-        });
-
-      // Upload to R2
-      try {
-        await storage.uploadStream(cacheKey, cacheStream);
-        console.log(`[Cache] Successfully cached ${videoId} in R2`);
-        cachingJobs.delete(videoId);
-      } catch (error) {
-        console.error(`[Cache] Failed to upload ${videoId} to R2`, error);
-        const job = cachingJobs.get(videoId);
-        if (job) {
-          job.error = `Storage upload failed: ${error.message}`;
-        }
-      }
-    })(); // Immediately invoke async function
+// Job routes address the default rendition unless ?quality= says otherwise
+app.delete('/jobs/:videoId', requireRole('admin'), (req, res) => {
+  const videoId = getVideoId(req.params.videoId);
+  if (!videoId) {
+    return res.status(400).json({ message: 'Invalid video id' });
+  }
+  const quality = parseQuality(req.query.quality);
+  if (!quality) {
+    return res.status(400).json({ message: UNKNOWN_QUALITY_MESSAGE });
+  }
+  if (!cancelCacheJob(videoId, quality)) {
+    return res.status(404).json({ message: 'Job not found' });
+  }
+  res.status(204).end();
+});
 
-  } catch (error) {
-    next(error);
+app.post('/jobs/:videoId/retry', requireRole('admin'), (req, res) => {
+  const videoId = getVideoId(req.params.videoId);
+  if (!videoId) {
+    return res.status(400).json({ message: 'Invalid video id' });
+  }
+  const quality = parseQuality(req.query.quality);
+  if (!quality) {
+    return res.status(400).json({ message: UNKNOWN_QUALITY_MESSAGE });
+  }
+  const job = getCacheJob(videoId, quality);
+  if (!job) {
+    return res.status(404).json({ message: 'Job not found' });
+  }
+  if (!job.finished) {
+    return res.status(409).json({ message: 'Job is still in progress', job: job.toJSON() });
+  }
+  res.status(202).json({ job: retryCacheJob(videoId, quality).toJSON() });
+});
+
+function openEventStream(res) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop nginx-style proxies (Render) from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+}
+
+function sendEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Live progress of a cache job: queued → metadata → downloading → transcoding → uploading → done/failed
+app.get('/jobs/:videoId/events', async (req, res, next) => {
+  const videoId = getVideoId(req.params.videoId);
+  if (!videoId) {
+    return res.status(400).json({ message: 'Invalid video id' });
+  }
+  const quality = parseQuality(req.query.quality);
+  if (!quality) {
+    return res.status(400).json({ message: UNKNOWN_QUALITY_MESSAGE });
+  }
+
+  const job = getCacheJob(videoId, quality);
+  if (!job) {
+    try {
+      const metadata = await storage.getTrackMetadata(videoId);
+      if (!trackRenditions(metadata)[quality]) {
+        return res.status(404).json({ message: 'No cache job for this video' });
+      }
+      // Already cached: a single terminal event keeps clients simple
+      openEventStream(res);
+      sendEvent(res, 'progress', { videoId, quality, phase: 'done', percent: 100, error: null });
+      return res.end();
+    } catch (error) {
+      return next(error);
+    }
   }
+
+  openEventStream(res);
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    job.off('progress', onProgress);
+  };
+  const onProgress = (snapshot) => {
+    sendEvent(res, 'progress', snapshot);
+    if (snapshot.phase === 'done' || snapshot.phase === 'failed') {
+      cleanup();
+      res.end();
+    }
+  };
+
+  job.on('progress', onProgress);
+  res.on('close', cleanup);
+  onProgress(job.toJSON());
 });
 
 // YouTube Cookies Management
-app.post('/api/youtube-cookies', async (req, res) => {
+app.post('/api/youtube-cookies', requireRole('admin'), async (req, res) => {
   try {
     const { cookies } = req.body;
 
     if (!cookies || typeof cookies !== 'string') {
       return res.status(400).json({ message: 'Invalid cookies format' });
     }
+    const { errors, authCookies, expiresAt } = validateCookieFile(cookies);
+    if (errors.length) {
+      return res.status(400).json({ message: errors[0], errors });
+    }
 
     // Write cookies to local file in Netscape format (yt-dlp compatible)
-    fs.writeFileSync(COOKIES_FILE_PATH, cookies, 'utf8');
+    writeCookiesFile(cookies);
     console.log('[Cookies] YouTube cookies saved to local file');
 
-    // Also save to R2 for persistence across server restarts
+    // Also save to storage (encrypted when a key is set) for persistence across server restarts
+    const encrypted = Boolean(config.youtube.cookiesEncryptionKey);
+    let persisted = false;
     try {
       await storage.saveYouTubeCookies(cookies);
-      console.log('[Cookies] YouTube cookies saved to R2 for persistence');
-    } catch (r2Error) {
-      console.error('[Cookies] Failed to save cookies to R2', r2Error);
+      persisted = true;
+      console.log('[Cookies] YouTube cookies saved to storage for persistence');
+    } catch (storageError) {
+      console.error('[Cookies] Failed to save cookies to storage', storageError.message);
       // Continue anyway - local file is saved
     }
 
+    // The new cookies are checked with YouTube in the background
+    forgetCookieProbe();
+    probeYouTubeCookies().catch((error) => {
+      console.error('[Cookies] Probe failed to run', error);
+    });
+
     res.json({
-      message: 'Cookies saved successfully (local + R2)',
+      message: persisted
+        ? `Cookies saved successfully (local + ${storage.driverName}, ${encrypted ? 'encrypted' : 'plaintext'})`
+        : 'Cookies saved locally only; they will be lost when the gateway restarts',
+      persisted,
+      encryptedAtRest: encrypted,
+      authCookies,
+      expiresAt,
       timestamp: new Date().toISOString()
     });
   } catch (error) {
@@ -523,33 +952,35 @@ app.post('/api/youtube-cookies', async (req, res) => {
   }
 });
 
-app.get('/api/youtube-cookies/status', (req, res) => {
-  try {
-    const exists = fs.existsSync(COOKIES_FILE_PATH);
-
-    if (!exists) {
-      return res.json({
-        hasCookies: false,
-        message: 'No cookies found. Please login to YouTube.'
-      });
-    }
-
-    const stats = fs.statSync(COOKIES_FILE_PATH);
-    const ageHours = (Date.now() - stats.mtimeMs) / (1000 * 60 * 60);
+// Only cookie names and dates are reported; values never leave the gateway
+function cookieStatusPayload() {
+  return { ...getCookieHealth(), encryptedAtRest: Boolean(config.youtube.cookiesEncryptionKey) };
+}
 
-    res.json({
-      hasCookies: true,
-      lastUpdated: stats.mtime.toISOString(),
-      ageHours: Math.round(ageHours * 10) / 10,
-      message: ageHours > 168 ? 'Cookies may be expired (>7 days old)' : 'Cookies active'
-    });
+app.get('/api/youtube-cookies/status', requireRole('admin'), (req, res) => {
+  try {
+    res.json(cookieStatusPayload());
   } catch (error) {
     console.error('[Cookies] Failed to check status', error);
     res.status(500).json({ message: 'Failed to check cookies status' });
   }
 });
 
-app.delete('/api/youtube-cookies', async (_req, res) => {
+// Check the cookies with YouTube now instead of waiting for the scheduled probe
+app.post('/api/youtube-cookies/probe', requireRole('admin'), async (req, res) => {
+  try {
+    const result = await probeYouTubeCookies();
+    if (!result) {
+      return res.status(404).json({ message: 'No cookies found. Please login to YouTube.' });
+    }
+    res.json(cookieStatusPayload());
+  } catch (error) {
+    console.error('[Cookies] Probe failed to run', error);
+    res.status(500).json({ message: 'Failed to run the cookie probe' });
+  }
+});
+
+app.delete('/api/youtube-cookies', requireRole('admin'), async (_req, res) => {
   try {
     let deletedLocal = false;
     if (fs.existsSync(COOKIES_FILE_PATH)) {
@@ -557,12 +988,13 @@ app.delete('/api/youtube-cookies', async (_req, res) => {
       deletedLocal = true;
       console.log('[Cookies] Local YouTube cookies file deleted');
     }
+    forgetCookieProbe();
 
     try {
       await storage.deleteYouTubeCookies();
     } catch (error) {
-      console.error('[Cookies] Failed to delete cookies from R2', error);
-      return res.status(500).json({ message: 'Failed to delete cookies from R2' });
+      console.error('[Cookies] Failed to delete cookies from storage', error);
+      return res.status(500).json({ message: 'Failed to delete cookies from storage' });
     }
 
     res.json({
@@ -585,38 +1017,71 @@ app.use((err, _req, res, _next) => {
 });
 
 /**
- * Load YouTube cookies from R2 if local file doesn't exist
+ * Load YouTube cookies from storage if local file doesn't exist
  * This ensures cookies persist across server restarts on ephemeral platforms like Render
  */
 async function loadCookiesOnStartup() {
   // Check if local cookies file exists
   if (fs.existsSync(COOKIES_FILE_PATH)) {
     console.log('[Startup] Local YouTube cookies file found');
+    // It may predate files being written owner-only
+    try {
+      fs.chmodSync(COOKIES_FILE_PATH, 0o600);
+    } catch (error) {
+      console.warn(`[Startup] Could not make the cookies file owner-only: ${error.message}`);
+    }
     return;
   }
 
-  console.log('[Startup] No local cookies file found, checking R2...');
+  console.log(`[Startup] No local cookies file found, checking ${storage.driverName} storage...`);
 
   try {
-    const cookiesFromR2 = await storage.loadYouTubeCookies();
+    const storedCookies = await storage.loadYouTubeCookies();
 
-    if (cookiesFromR2) {
-      // Write cookies from R2 to local file
-      fs.writeFileSync(COOKIES_FILE_PATH, cookiesFromR2, 'utf8');
-      console.log('[Startup] YouTube cookies restored from R2 to local file');
+    if (storedCookies) {
+      // Write cookies from storage to local file
+      writeCookiesFile(storedCookies);
+      console.log('[Startup] YouTube cookies restored from storage to local file');
     } else {
-      console.log('[Startup] No cookies found in R2. User will need to login.');
+      console.log('[Startup] No cookies found in storage. User will need to login.');
     }
   } catch (error) {
-    console.error('[Startup] Failed to load cookies from R2', error);
+    console.error('[Startup] Failed to load cookies from storage', error);
   }
 }
 
 // Start server with cookie restoration
 (async () => {
   await loadCookiesOnStartup();
+  if (isAccessControlEnabled) {
+    if (config.trustProxy === null) {
+      console.warn('[Startup] TRUST_PROXY is not set; behind a proxy every client shares its IP for lockouts and rate limits');
+    }
+    // Failing closed would lock everyone out, so revoked sessions are the lesser risk here
+    try {
+      await loadSessionRevocations();
+    } catch (error) {
+      console.error('[Startup] Failed to load session revocations', error);
+    }
+    // Without them only ACCESS_CODE works until the next start
+    try {
+      await loadAccessCodes();
+    } catch (error) {
+      console.error('[Startup] Failed to load access codes', error);
+    }
+  }
+  try {
+    await storage.migrateLegacyTrackIndex();
+  } catch (error) {
+    console.error('[Startup] Track metadata migration failed, will retry on next start', error);
+  }
+  await resumeCacheJobs();
+  scheduleCookieProbes();
 
   app.listen(config.port, () => {
-    console.log(`Audio Stream Gateway listening on port ${config.port}`);
+    console.log(`Audio Stream Gateway listening on port ${config.port} (storage: ${storage.driverName})`);
   });
-})();
+})().catch((error) => {
+  console.error('[Startup] Gateway failed to start', error);
+  process.exit(1);
+});
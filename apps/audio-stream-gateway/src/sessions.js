@@ -0,0 +1,197 @@
+const crypto = require('crypto');
+const config = require('./config');
+const storage = require('./storage');
+const { ENV_CODE_ID, accessCodeRole, roleAtLeast } = require('./accessCodes');
+
+/**
+ * Access sessions handed out by /api/access-control/verify.
+ *
+ * A token is `<base64url payload>.<HMAC>`. The signing key is derived from the
+ * access code as well as SESSION_SECRET, so changing ACCESS_CODE signs everyone
+ * out. Tokens are checked without a storage round trip: revocations are loaded
+ * on startup and kept in memory, which assumes a single gateway process. The
+ * role comes from the access code the session was opened with (`cid`), looked
+ * up on every request.
+ *
+ * URLs the player loads itself can't carry a header, so they get a media
+ * token instead: the same kind of token, good for an hour and for one path.
+ */
+
+const enabled = Boolean(config.accessControl.accessCode);
+const signingKey = crypto
+  .createHmac('sha256', config.accessControl.sessionSecret)
+  .update(config.accessControl.accessCode)
+  .digest();
+const SESSION_TTL_MS = config.accessControl.sessionTtlMinutes * 60 * 1000;
+const SESSION_MAX_AGE_MS = config.accessControl.sessionMaxAgeDays * 24 * 60 * 60 * 1000;
+// As long as the signed file URLs the gateway hands out
+const MEDIA_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+let revocations = { sessions: {}, notBefore: null };
+
+function sign(encodedPayload) {
+  return crypto.createHmac('sha256', signingKey).update(encodedPayload).digest('base64url');
+}
+
+function encodeToken(payload) {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Issue a token for the access code `codeId`. A refresh keeps the session id and
+ * the time the access code was checked (`auth`), which caps how long the session
+ * can be kept alive.
+ */
+function issueSession(codeId, { sessionId = crypto.randomUUID(), authenticatedAt = Date.now() } = {}) {
+  const now = Date.now();
+  const session = {
+    sid: sessionId,
+    cid: codeId,
+    auth: authenticatedAt,
+    iat: now,
+    exp: Math.min(now + SESSION_TTL_MS, authenticatedAt + SESSION_MAX_AGE_MS),
+  };
+  return {
+    token: encodeToken(session),
+    expiresAt: new Date(session.exp).toISOString(),
+    role: accessCodeRole(codeId),
+  };
+}
+
+function refreshSession(session) {
+  return issueSession(session.cid, { sessionId: session.sid, authenticatedAt: session.auth });
+}
+
+/**
+ * Token for GET requests to `path` only, passed as `?media_token=`. It belongs
+ * to `session`, so revoking the session revokes it too.
+ */
+function issueMediaToken(session, path) {
+  const now = Date.now();
+  return encodeToken({
+    sid: session.sid,
+    cid: session.cid,
+    auth: session.auth,
+    iat: now,
+    exp: Math.min(now + MEDIA_TOKEN_TTL_MS, session.exp),
+    path,
+  });
+}
+
+/**
+ * The session a token stands for, or null when it is forged, expired or revoked.
+ */
+function verifySessionToken(token) {
+  const [payload, signature, extra] = typeof token === 'string' ? token.split('.') : [];
+  if (!payload || !signature || extra !== undefined) {
+    return null;
+  }
+  const expected = Buffer.from(sign(payload));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  let session;
+  try {
+    session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!(session.exp > Date.now()) || revocations.sessions[session.sid]) {
+    return null;
+  }
+  if (revocations.notBefore && session.iat < Date.parse(revocations.notBefore)) {
+    return null;
+  }
+  // Tokens from before access codes had ids were all opened with ACCESS_CODE
+  session.cid = session.cid ?? ENV_CODE_ID;
+  // Gone once its access code is deleted
+  session.role = accessCodeRole(session.cid);
+  return session.role ? session : null;
+}
+
+// Entries are kept until the session could no longer be refreshed anyway
+function pruneRevokedSessions(sessions) {
+  const now = Date.now();
+  return Object.fromEntries(Object.entries(sessions).filter(([, until]) => Date.parse(until) > now));
+}
+
+async function revokeSession(session) {
+  revocations = await storage.updateSessionRevocations((current) => ({
+    ...current,
+    sessions: {
+      ...pruneRevokedSessions(current.sessions),
+      [session.sid]: new Date(session.auth + SESSION_MAX_AGE_MS).toISOString(),
+    },
+  }));
+  console.log(`[Sessions] Revoked session ${session.sid}`);
+}
+
+// Every token issued so far stops working, the caller's included
+async function revokeAllSessions() {
+  revocations = await storage.updateSessionRevocations((current) => ({
+    sessions: pruneRevokedSessions(current.sessions),
+    notBefore: new Date().toISOString(),
+  }));
+  console.log(`[Sessions] Revoked all sessions issued before ${revocations.notBefore}`);
+}
+
+async function loadSessionRevocations() {
+  revocations = await storage.getSessionRevocations();
+}
+
+function requestToken(req) {
+  const header = req.get('authorization');
+  if (header?.startsWith('Bearer ')) {
+    return { token: header.slice('Bearer '.length).trim(), path: undefined };
+  }
+  if ((req.method === 'GET' || req.method === 'HEAD') && typeof req.query.media_token === 'string') {
+    return { token: req.query.media_token, path: req.path };
+  }
+  return null;
+}
+
+/**
+ * Rejects requests without a valid session when an access code is configured.
+ * A media token only counts for the path it was issued for, and a session
+ * token only in the header. Sets `req.accessSession` for the routes behind it.
+ */
+function requireSession(req, res, next) {
+  if (!enabled) {
+    return next();
+  }
+  const provided = requestToken(req);
+  const session = provided ? verifySessionToken(provided.token) : null;
+  if (!session || session.path !== provided.path) {
+    return res.status(401).json({ message: provided ? 'Session expired or revoked' : 'Session required' });
+  }
+  req.accessSession = session;
+  next();
+}
+
+/**
+ * Lets the request through if its session has `role` or a higher one. Without
+ * an access code everyone is an admin.
+ */
+function requireRole(role) {
+  return (req, res, next) => {
+    if (!enabled || roleAtLeast(req.accessSession.role, role)) {
+      return next();
+    }
+    res.status(403).json({ message: `Requires the ${role} role` });
+  };
+}
+
+module.exports = {
+  isAccessControlEnabled: enabled,
+  issueSession,
+  refreshSession,
+  issueMediaToken,
+  revokeSession,
+  revokeAllSessions,
+  loadSessionRevocations,
+  requireSession,
+  requireRole,
+};
@@ -0,0 +1,65 @@
+const crypto = require('crypto');
+
+/**
+ * Envelope encryption for the YouTube cookies kept in storage.
+ *
+ * Every save encrypts the cookie file with a fresh AES-256-GCM data key, and
+ * that data key with the configured key (COOKIES_ENCRYPTION_KEY). Only the
+ * wrapped data key is stored, next to a fingerprint of the key that wrapped
+ * it, so a changed key is reported as such instead of as corrupt data.
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+function keyFingerprint(key) {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+function encrypt(key, plaintext) {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(key, { iv, tag, data }) {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+}
+
+function sealCookies(cookieData, key) {
+  const dataKey = crypto.randomBytes(32);
+  return {
+    version: 1,
+    algorithm: ALGORITHM,
+    keyFingerprint: keyFingerprint(key),
+    wrappedKey: encrypt(key, dataKey),
+    cookies: encrypt(dataKey, Buffer.from(cookieData, 'utf8')),
+  };
+}
+
+/**
+ * The cookie file inside an envelope. Throws when it was sealed with another
+ * key or has been tampered with.
+ */
+function openCookies(envelope, key) {
+  if (envelope?.version !== 1 || envelope.algorithm !== ALGORITHM) {
+    throw new Error('Unsupported cookie envelope');
+  }
+  if (envelope.keyFingerprint !== keyFingerprint(key)) {
+    throw new Error('Cookies were encrypted with a different COOKIES_ENCRYPTION_KEY');
+  }
+  const dataKey = decrypt(key, envelope.wrappedKey);
+  return decrypt(dataKey, envelope.cookies).toString('utf8');
+}
+
+module.exports = {
+  sealCookies,
+  openCookies,
+};
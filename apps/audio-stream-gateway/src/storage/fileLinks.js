@@ -0,0 +1,45 @@
+const crypto = require('crypto');
+const config = require('../config');
+
+/**
+ * Signed links to the gateway's /files route.
+ *
+ * Used whenever audio is served by the gateway itself – always for the local
+ * driver, and for R2 when PROXY_AUDIO is enabled. Links carry an expiry and an
+ * HMAC so they behave like R2 presigned URLs.
+ */
+
+function signKey(key, expires) {
+  return crypto
+    .createHmac('sha256', config.storage.urlSecret)
+    .update(`${key}:${expires}`)
+    .digest('hex');
+}
+
+/**
+ * Returns a gateway-relative path (e.g. /files/audio/x.mp3?expires=...&signature=...).
+ */
+function createFileLink(key, expiresIn = 3600) {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const signature = signKey(key, expires);
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  return `/files/${encodedKey}?expires=${expires}&signature=${signature}`;
+}
+
+function verifyFileLink(key, expires, signature) {
+  const expiresAt = Number(expires);
+  if (!Number.isFinite(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+  if (typeof signature !== 'string') {
+    return false;
+  }
+  const expected = Buffer.from(signKey(key, expiresAt), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+module.exports = {
+  createFileLink,
+  verifyFileLink,
+};
@@ -0,0 +1,497 @@
+const { randomUUID } = require('crypto');
+const config = require('../config');
+const { createFileLink, verifyFileLink } = require('./fileLinks');
+const { sealCookies, openCookies } = require('./cookieEnvelope');
+const { createKeyLocks } = require('./keyLocks');
+const { trackRenditions } = require('../renditions');
+
+/**
+ * Storage drivers only know how to move bytes around (put/get/delete objects,
+ * stream uploads, hand out URLs). Everything that gives those bytes meaning –
+ * the track index, groups, persisted cookies – lives here so every driver
+ * behaves the same.
+ */
+const driver = config.storage.driver === 'local'
+  ? require('./localStorage')
+  : require('./r2Storage');
+
+// One object per track is the source of truth, so concurrent cache jobs never
+// write the same key. The index is only a listing cache of what clients see of
+// each track (no storage keys) and can be rebuilt.
+const TRACKS_PREFIX = 'metadata/tracks/';
+const TRACK_INDEX_KEY = 'metadata/track-index.json';
+// Monolithic index used before per-track objects, migrated once on startup
+const LEGACY_TRACKS_INDEX_KEY = 'metadata/tracks.json';
+const LEGACY_TRACKS_BACKUP_KEY = 'metadata/tracks.legacy.json';
+const MAX_CONFLICT_RETRIES = 10;
+const CONFLICT_BACKOFF_MS = 25;
+const GROUPS_INDEX_KEY = 'metadata/groups.json';
+const YOUTUBE_COOKIES_KEY = 'metadata/youtube-cookies.enc.json';
+// Plaintext cookies, saved when no COOKIES_ENCRYPTION_KEY is set; replaced by
+// the encrypted copy once there is one
+const PLAINTEXT_YOUTUBE_COOKIES_KEY = 'metadata/youtube-cookies.txt';
+const CACHE_JOBS_KEY = 'metadata/cache-jobs.json';
+// Listening history, one object per UTC day so a play only rewrites its own day
+const PLAYS_PREFIX = 'metadata/plays/';
+// Play count and last play per track, kept apart from the track objects so
+// plays don't race cache jobs writing them
+const PLAY_STATS_KEY = 'metadata/play-stats.json';
+const SESSION_REVOCATIONS_KEY = 'metadata/session-revocations.json';
+const ACCESS_CODES_KEY = 'metadata/access-codes.json';
+
+// Drivers without presigning (local disk) always go through the gateway
+const servesThroughGateway =
+  config.storage.proxyAudio || typeof driver.getSignedFileUrl !== 'function';
+
+// Read-modify-writes of a key take turns within this process
+const withKeyLock = createKeyLocks();
+
+/**
+ * URL a client can play `key` from: a presigned driver URL, or a signed
+ * gateway-relative /files link when audio is proxied.
+ */
+async function getSignedFileUrl(key, expiresIn = 3600) {
+  if (servesThroughGateway) {
+    return createFileLink(key, expiresIn);
+  }
+  return driver.getSignedFileUrl(key, expiresIn);
+}
+
+async function saveJson(key, data) {
+  await driver.putObject(key, JSON.stringify(data, null, 2), 'application/json');
+}
+
+async function getJson(key) {
+  const body = await driver.getObjectText(key);
+  return body === null ? null : JSON.parse(body);
+}
+
+function trackKey(videoId) {
+  return `${TRACKS_PREFIX}${videoId}.json`;
+}
+
+/**
+ * Read-modify-write of a JSON object with optimistic concurrency: the write only
+ * lands if the object is unchanged since it was read (If-Match on its ETag),
+ * otherwise it is re-read and `mutate` runs again. `mutate` gets the current
+ * value (null if missing) and returns the new one, or undefined to skip the write.
+ * Updates of the same key from this process are serialized, which is all that
+ * protects an object the driver returns without an ETag.
+ */
+function updateJson(key, mutate) {
+  return withKeyLock(key, () => updateJsonUnlocked(key, mutate));
+}
+
+async function updateJsonUnlocked(key, mutate) {
+  for (let attempt = 1; ; attempt += 1) {
+    const current = await driver.getObjectWithEtag(key);
+    const value = current ? JSON.parse(current.body) : null;
+    const next = mutate(value);
+    if (next === undefined) {
+      return value;
+    }
+    if (current && !current.etag) {
+      console.warn(`[Storage:${driver.name}] ${key} has no ETag, so only writers in this process are kept apart`);
+    }
+    const conditions = current ? (current.etag ? { ifMatch: current.etag } : {}) : { ifNoneMatch: '*' };
+    try {
+      await driver.putObject(key, JSON.stringify(next, null, 2), 'application/json', conditions);
+      return next;
+    } catch (error) {
+      if (error.code !== 'PRECONDITION_FAILED' || attempt >= MAX_CONFLICT_RETRIES) {
+        throw error;
+      }
+      console.warn(`[Storage:${driver.name}] ${key} changed concurrently, retrying (${attempt})`);
+      // Jitter so competing writers don't keep colliding
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * CONFLICT_BACKOFF_MS * attempt));
+    }
+  }
+}
+
+// What the track index, and so the /tracks listing, keeps of a track
+function trackSummary(metadata) {
+  const { master: _master, storageKey: _legacyKey, updatedAt: _updatedAt, ...summary } = metadata;
+  const renditions = Object.entries(trackRenditions(metadata)).map(([quality, rendition]) => {
+    const { storageKey: _storageKey, ...listed } = rendition;
+    return [quality, listed];
+  });
+  return { ...summary, renditions: Object.fromEntries(renditions) };
+}
+
+async function saveTrackMetadata(metadata) {
+  const saved = await updateJson(trackKey(metadata.videoId), (existing) => {
+    // Renditions are cached one at a time, so they are merged; a legacy storageKey becomes one of them
+    const { storageKey: _legacyKey, ...current } = existing ?? {};
+    return {
+      ...current,
+      ...metadata,
+      renditions: { ...trackRenditions(existing), ...metadata.renditions },
+      createdAt: existing?.createdAt ?? metadata.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+  });
+  const summary = trackSummary(saved);
+  await updateJson(TRACK_INDEX_KEY, (index) => {
+    // Most saves only touch what the index leaves out
+    if (index && JSON.stringify(index[saved.videoId]) === JSON.stringify(summary)) {
+      return undefined;
+    }
+    return { ...index, [saved.videoId]: summary };
+  });
+  return saved;
+}
+
+async function getTrackMetadata(videoId) {
+  return await getJson(trackKey(videoId));
+}
+
+/**
+ * Regenerate the track index from the per-track objects.
+ */
+async function rebuildTrackIndex() {
+  const keys = (await driver.listObjects(TRACKS_PREFIX)).filter((key) => key.endsWith('.json'));
+  const tracks = await Promise.all(keys.map((key) => getJson(key)));
+  const index = {};
+  for (const track of tracks) {
+    if (track?.videoId) {
+      index[track.videoId] = trackSummary(track);
+    }
+  }
+  await saveJson(TRACK_INDEX_KEY, index);
+  console.log(`[Storage:${driver.name}] Rebuilt track index (${Object.keys(index).length} tracks)`);
+  return index;
+}
+
+async function listTracks() {
+  let index;
+  try {
+    index = await getJson(TRACK_INDEX_KEY);
+  } catch (error) {
+    console.warn(`[Storage:${driver.name}] Track index unreadable, rebuilding`, error);
+  }
+  if (!index) {
+    index = await rebuildTrackIndex();
+  }
+  return Object.values(index).sort((a, b) => {
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  });
+}
+
+/**
+ * One-time migration from the monolithic metadata/tracks.json. Per-track
+ * objects that already exist win; the old file is kept as a backup. An index
+ * that still holds whole track objects is rebuilt from them.
+ */
+async function migrateLegacyTrackIndex() {
+  const legacyIndex = await getJson(LEGACY_TRACKS_INDEX_KEY);
+  if (!legacyIndex) {
+    const index = await getJson(TRACK_INDEX_KEY);
+    if (index && Object.values(index).some((track) => track.master || track.storageKey || track.updatedAt)) {
+      await rebuildTrackIndex();
+    }
+    return;
+  }
+
+  const entries = Object.values(legacyIndex).filter((metadata) => metadata?.videoId);
+  console.log(`[Storage:${driver.name}] Migrating ${entries.length} track(s) to per-track metadata`);
+  for (const metadata of entries) {
+    try {
+      await driver.putObject(trackKey(metadata.videoId), JSON.stringify(metadata, null, 2), 'application/json', {
+        ifNoneMatch: '*',
+      });
+    } catch (error) {
+      if (error.code !== 'PRECONDITION_FAILED') {
+        throw error;
+      }
+    }
+  }
+
+  await rebuildTrackIndex();
+  await saveJson(LEGACY_TRACKS_BACKUP_KEY, legacyIndex);
+  await driver.deleteObject(LEGACY_TRACKS_INDEX_KEY);
+  console.log(`[Storage:${driver.name}] Track metadata migration complete (backup: ${LEGACY_TRACKS_BACKUP_KEY})`);
+}
+
+// Groups saved before versioning count as version 1
+function normalizeGroups(groups) {
+  return (groups ?? []).map((group) => ({ ...group, version: group.version ?? 1 }));
+}
+
+async function listGroups() {
+  return normalizeGroups(await getJson(GROUPS_INDEX_KEY));
+}
+
+/**
+ * Atomically update the group list. `mutate` receives the current groups and
+ * returns the new list, or undefined to leave it unchanged; it may run more
+ * than once if another writer gets in first. Whoever changes a group is
+ * responsible for bumping its `version`.
+ */
+async function updateGroups(mutate) {
+  const saved = await updateJson(GROUPS_INDEX_KEY, (groups) => mutate(normalizeGroups(groups)));
+  return normalizeGroups(saved);
+}
+
+async function deleteTrack(videoId) {
+  const metadata = await getTrackMetadata(videoId);
+  if (!metadata) {
+    return false;
+  }
+
+  // Renditions were transcoded from the master, so none of them outlive it
+  const renditions = Object.values(trackRenditions(metadata));
+  for (const rendition of renditions) {
+    await driver.deleteObject(rendition.storageKey);
+  }
+  if (metadata.master) {
+    await driver.deleteObject(metadata.master.storageKey);
+  }
+  console.log(
+    `[Storage:${driver.name}] Deleted ${videoId}: ${renditions.length} rendition(s)${metadata.master ? ' and its master' : ''}`
+  );
+
+  await driver.deleteObject(trackKey(videoId));
+  await updateJson(TRACK_INDEX_KEY, (index) => {
+    if (!index?.[videoId]) {
+      return undefined;
+    }
+    const { [videoId]: _removed, ...rest } = index;
+    return rest;
+  });
+
+  await updateGroups((groups) => {
+    let mutated = false;
+    const updatedGroups = groups.map((group) => {
+      const filteredIds = (group.trackIds ?? []).filter((id) => id !== videoId);
+      if (filteredIds.length !== group.trackIds?.length) {
+        mutated = true;
+        return {
+          ...group,
+          trackIds: filteredIds,
+          version: group.version + 1,
+          updatedAt: new Date().toISOString(),
+        };
+      }
+      return group;
+    });
+    return mutated ? updatedGroups : undefined;
+  });
+
+  return true;
+}
+
+/**
+ * Persisted cache job queue (pending, running and recently failed jobs),
+ * so work survives a restart
+ */
+async function listCacheJobRecords() {
+  return (await getJson(CACHE_JOBS_KEY)) ?? [];
+}
+
+async function saveCacheJobRecords(records) {
+  await saveJson(CACHE_JOBS_KEY, records);
+}
+
+function playsKey(day) {
+  return `${PLAYS_PREFIX}${day}.json`;
+}
+
+/**
+ * Append a play to the listening history and bump the track's play count.
+ * Title and author are copied in so history outlives the track.
+ */
+async function recordPlay({ videoId, playedAt, listenedSeconds, title, author }) {
+  const metadata = await getTrackMetadata(videoId);
+  const play = {
+    id: randomUUID(),
+    videoId,
+    title: metadata?.title ?? title ?? null,
+    author: metadata?.author ?? author ?? null,
+    playedAt,
+    listenedSeconds: listenedSeconds ?? null,
+  };
+  await updateJson(playsKey(playedAt.slice(0, 10)), (plays) => [...(plays ?? []), play]);
+  await updateJson(PLAY_STATS_KEY, (stats) => {
+    const current = stats?.[videoId];
+    return {
+      ...stats,
+      [videoId]: {
+        playCount: (current?.playCount ?? 0) + 1,
+        // Plays can be reported late, so the latest one isn't necessarily this one
+        lastPlayedAt: current?.lastPlayedAt > playedAt ? current.lastPlayedAt : playedAt,
+      },
+    };
+  });
+  return play;
+}
+
+async function getPlayStats() {
+  return (await getJson(PLAY_STATS_KEY)) ?? {};
+}
+
+// Newest first; plays at the same time are ordered by id so pages can't split them
+function comparePlays(a, b) {
+  return b.playedAt.localeCompare(a.playedAt) || (b.id ?? '').localeCompare(a.id ?? '');
+}
+
+/**
+ * Plays newest first. `from`/`to` are ISO timestamps bounding playedAt
+ * (inclusive); `before` ({ playedAt, id }) continues after the previous page's
+ * last play, or with a null id from a point in time. Returns the page and the
+ * `before` for the next one as "<playedAt>,<id>", or null at the end.
+ */
+async function listPlays({ from, to, before, limit }) {
+  const days = (await driver.listObjects(PLAYS_PREFIX))
+    .map((key) => key.slice(PLAYS_PREFIX.length, -'.json'.length))
+    .filter((day) => (!from || day >= from.slice(0, 10)) && (!to || day <= to.slice(0, 10)))
+    .filter((day) => !before || day <= before.playedAt.slice(0, 10))
+    .sort()
+    .reverse();
+
+  const plays = [];
+  for (const day of days) {
+    const dayPlays = ((await getJson(playsKey(day))) ?? [])
+      .filter((play) => (!from || play.playedAt >= from) && (!to || play.playedAt <= to))
+      .filter((play) => !before || comparePlays(play, { playedAt: before.playedAt, id: before.id ?? '' }) > 0)
+      .sort(comparePlays);
+    plays.push(...dayPlays);
+    // One extra tells whether there is another page
+    if (plays.length > limit) {
+      break;
+    }
+  }
+
+  const page = plays.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    plays: page,
+    nextBefore: plays.length > limit ? `${last.playedAt},${last.id ?? ''}` : null,
+  };
+}
+
+function normalizeSessionRevocations(revocations) {
+  return { sessions: revocations?.sessions ?? {}, notBefore: revocations?.notBefore ?? null };
+}
+
+/**
+ * Revoked access sessions (id → when the token would have expired anyway) and
+ * the time before which every session counts as revoked.
+ */
+async function getSessionRevocations() {
+  return normalizeSessionRevocations(await getJson(SESSION_REVOCATIONS_KEY));
+}
+
+async function updateSessionRevocations(mutate) {
+  return normalizeSessionRevocations(
+    await updateJson(SESSION_REVOCATIONS_KEY, (revocations) => mutate(normalizeSessionRevocations(revocations)))
+  );
+}
+
+/**
+ * Named access codes with their role, salt, scrypt hash and lookup HMAC
+ */
+async function listAccessCodes() {
+  return (await getJson(ACCESS_CODES_KEY)) ?? [];
+}
+
+async function updateAccessCodes(mutate) {
+  return (await updateJson(ACCESS_CODES_KEY, (codes) => mutate(codes ?? []))) ?? [];
+}
+
+/**
+ * Save YouTube cookies to storage for persistence across server restarts,
+ * encrypted with COOKIES_ENCRYPTION_KEY. Without a key they are saved in
+ * plaintext as before, with a warning.
+ */
+async function saveYouTubeCookies(cookieData) {
+  const key = config.youtube.cookiesEncryptionKey;
+  if (!key) {
+    await driver.putObject(PLAINTEXT_YOUTUBE_COOKIES_KEY, cookieData, 'text/plain');
+    // An encrypted copy can't be read without the key and is older than this one
+    await driver.deleteObject(YOUTUBE_COOKIES_KEY);
+    console.warn(
+      `[Storage:${driver.name}] WARNING: YouTube cookies saved in PLAINTEXT because COOKIES_ENCRYPTION_KEY is not set`
+    );
+    return;
+  }
+  await saveJson(YOUTUBE_COOKIES_KEY, sealCookies(cookieData, key));
+  await driver.deleteObject(PLAINTEXT_YOUTUBE_COOKIES_KEY);
+  console.log(`[Storage:${driver.name}] YouTube cookies saved (encrypted)`);
+}
+
+/**
+ * Load YouTube cookies from storage
+ * Returns null if cookies don't exist or can't be decrypted without a key
+ */
+async function loadYouTubeCookies() {
+  const key = config.youtube.cookiesEncryptionKey;
+  const envelope = key ? await getJson(YOUTUBE_COOKIES_KEY) : null;
+  if (envelope) {
+    const cookieData = openCookies(envelope, key);
+    console.log(`[Storage:${driver.name}] YouTube cookies loaded`);
+    return cookieData;
+  }
+
+  const plaintext = await driver.getObjectText(PLAINTEXT_YOUTUBE_COOKIES_KEY);
+  if (plaintext === null) {
+    if (!key && (await driver.checkFileExists(YOUTUBE_COOKIES_KEY))) {
+      console.warn(`[Storage:${driver.name}] YouTube cookies are encrypted but COOKIES_ENCRYPTION_KEY is not set`);
+      return null;
+    }
+    console.log(`[Storage:${driver.name}] No YouTube cookies found`);
+    return null;
+  }
+  if (key) {
+    await saveYouTubeCookies(plaintext);
+    console.log(`[Storage:${driver.name}] Plaintext YouTube cookies replaced by an encrypted copy`);
+  } else {
+    console.warn(
+      `[Storage:${driver.name}] WARNING: YouTube cookies are stored in PLAINTEXT; set COOKIES_ENCRYPTION_KEY`
+    );
+  }
+  return plaintext;
+}
+
+/**
+ * Delete persisted YouTube cookies from storage
+ */
+async function deleteYouTubeCookies() {
+  const deleted = await driver.deleteObject(YOUTUBE_COOKIES_KEY);
+  const deletedPlaintext = await driver.deleteObject(PLAINTEXT_YOUTUBE_COOKIES_KEY);
+  console.log(
+    deleted || deletedPlaintext
+      ? `[Storage:${driver.name}] YouTube cookies deleted`
+      : `[Storage:${driver.name}] YouTube cookies not present`
+  );
+}
+
+module.exports = {
+  driverName: driver.name,
+  checkFileExists: driver.checkFileExists,
+  getFileInfo: driver.getFileInfo,
+  getFileStream: driver.getFileStream,
+  getSignedFileUrl,
+  verifyFileLink,
+  uploadStream: driver.uploadStream,
+  deleteFile: driver.deleteObject,
+  saveTrackMetadata,
+  getTrackMetadata,
+  listTracks,
+  rebuildTrackIndex,
+  migrateLegacyTrackIndex,
+  listGroups,
+  updateGroups,
+  deleteTrack,
+  listCacheJobRecords,
+  saveCacheJobRecords,
+  recordPlay,
+  getPlayStats,
+  listPlays,
+  getSessionRevocations,
+  updateSessionRevocations,
+  listAccessCodes,
+  updateAccessCodes,
+  saveYouTubeCookies,
+  loadYouTubeCookies,
+  deleteYouTubeCookies,
+};
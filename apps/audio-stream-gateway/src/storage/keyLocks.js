@@ -0,0 +1,30 @@
+/**
+ * Per-key locks for work on one object that must not interleave, like a
+ * read-modify-write or a conditional put. The gateway is a single process, so
+ * an in-memory chain of promises per key is enough.
+ *
+ * Each caller creates its own set: the storage layer holds a key for a whole
+ * update while the local driver's conditional put locks the same key again,
+ * which would wait on itself with a shared set.
+ */
+function createKeyLocks() {
+  const locks = new Map();
+
+  return async function withKeyLock(key, task) {
+    const previous = locks.get(key) ?? Promise.resolve();
+    const run = previous.then(task);
+    const settled = run.catch(() => {});
+    locks.set(key, settled);
+    try {
+      return await run;
+    } finally {
+      if (locks.get(key) === settled) {
+        locks.delete(key);
+      }
+    }
+  };
+}
+
+module.exports = {
+  createKeyLocks,
+};
@@ -0,0 +1,216 @@
+const fs = require('fs');
+const fsp = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const { pipeline } = require('stream/promises');
+const config = require('../config');
+const { createKeyLocks } = require('./keyLocks');
+
+const rootDir = config.storage.local.rootDir;
+
+const CONTENT_TYPES = {
+  '.mp3': 'audio/mpeg',
+  '.aac': 'audio/aac',
+  '.opus': 'audio/ogg',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+};
+
+/**
+ * Map an object key onto a path inside the storage root.
+ * Rejects keys that would escape the root (e.g. "../etc/passwd").
+ */
+function resolveKeyPath(key) {
+  const resolved = path.resolve(rootDir, key);
+  if (resolved !== rootDir && !resolved.startsWith(rootDir + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return resolved;
+}
+
+async function writeFileAtomic(filePath, body) {
+  await fsp.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${crypto.randomUUID()}.partial`;
+  try {
+    await fsp.writeFile(tempPath, body);
+    await fsp.rename(tempPath, filePath);
+  } catch (error) {
+    await fsp.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Same shape as an S3 ETag: quoted MD5 of the content
+function computeEtag(body) {
+  return `"${crypto.createHash('md5').update(body).digest('hex')}"`;
+}
+
+// Conditional writes are check-then-write, so they must not interleave per key
+const withKeyLock = createKeyLocks();
+
+function preconditionFailed(key) {
+  const error = new Error(`Precondition failed for ${key}`);
+  error.code = 'PRECONDITION_FAILED';
+  return error;
+}
+
+async function readFileOrNull(filePath) {
+  try {
+    return await fsp.readFile(filePath);
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write an object and return its ETag. `conditions.ifMatch` only writes over
+ * that exact version, `conditions.ifNoneMatch: '*'` only creates; otherwise the
+ * write fails with code PRECONDITION_FAILED.
+ */
+async function putObject(key, body, _contentType, conditions = {}) {
+  const filePath = resolveKeyPath(key);
+  const { ifMatch, ifNoneMatch } = conditions;
+  if (!ifMatch && !ifNoneMatch) {
+    await writeFileAtomic(filePath, body);
+    return computeEtag(body);
+  }
+
+  return withKeyLock(key, async () => {
+    const current = await readFileOrNull(filePath);
+    if (ifNoneMatch === '*' && current !== null) {
+      throw preconditionFailed(key);
+    }
+    if (ifMatch && (current === null || computeEtag(current) !== ifMatch)) {
+      throw preconditionFailed(key);
+    }
+    await writeFileAtomic(filePath, body);
+    return computeEtag(body);
+  });
+}
+
+/**
+ * Read a small object as UTF-8 text. Returns null if the key doesn't exist.
+ */
+async function getObjectText(key) {
+  const body = await readFileOrNull(resolveKeyPath(key));
+  return body === null ? null : body.toString('utf-8');
+}
+
+/**
+ * Like getObjectText, plus the ETag to pass back as `ifMatch`.
+ */
+async function getObjectWithEtag(key) {
+  const body = await readFileOrNull(resolveKeyPath(key));
+  return body === null ? null : { body: body.toString('utf-8'), etag: computeEtag(body) };
+}
+
+/**
+ * Keys of every object under `prefix` (e.g. "metadata/tracks/").
+ */
+async function listObjects(prefix) {
+  const dirPath = resolveKeyPath(prefix);
+  let entries;
+  try {
+    entries = await fsp.readdir(dirPath, { recursive: true, withFileTypes: true });
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  return entries
+    .filter((entry) => entry.isFile() && !entry.name.endsWith('.partial'))
+    .map((entry) => path.relative(rootDir, path.join(entry.parentPath ?? entry.path, entry.name)).split(path.sep).join('/'));
+}
+
+/**
+ * Delete an object. Returns false if it was already gone.
+ */
+async function deleteObject(key) {
+  try {
+    await fsp.unlink(resolveKeyPath(key));
+    return true;
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function checkFileExists(key) {
+  try {
+    const stats = await fsp.stat(resolveKeyPath(key));
+    return stats.isFile();
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Size and type of a stored file, or null if it doesn't exist.
+ */
+async function getFileInfo(key) {
+  try {
+    const stats = await fsp.stat(resolveKeyPath(key));
+    if (!stats.isFile()) {
+      return null;
+    }
+    return {
+      size: stats.size,
+      contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream',
+      lastModified: stats.mtime,
+    };
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Open a file for reading. `range` is an inclusive { start, end } byte range.
+ */
+async function getFileStream(key, range) {
+  const filePath = resolveKeyPath(key);
+  // Surface ENOENT here rather than as a stream 'error' event
+  await fsp.access(filePath, fs.constants.R_OK);
+  return fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+}
+
+/**
+ * Stream into a temporary file and rename once complete, so readers never
+ * observe a half-written track. Aborting `options.signal` discards the temp file.
+ */
+async function uploadStream(key, bodyStream, _contentType, options = {}) {
+  const filePath = resolveKeyPath(key);
+  await fsp.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${crypto.randomUUID()}.partial`;
+  try {
+    await pipeline(bodyStream, fs.createWriteStream(tempPath), { signal: options.signal });
+    await fsp.rename(tempPath, filePath);
+  } catch (error) {
+    await fsp.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+module.exports = {
+  name: 'local',
+  checkFileExists,
+  getFileInfo,
+  getFileStream,
+  uploadStream,
+  putObject,
+  getObjectText,
+  getObjectWithEtag,
+  listObjects,
+  deleteObject,
+};
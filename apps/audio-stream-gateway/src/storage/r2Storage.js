@@ -4,6 +4,7 @@ const {
   GetObjectCommand,
   PutObjectCommand,
   DeleteObjectCommand,
+  ListObjectsV2Command,
 } = require('@aws-sdk/client-s3');
 const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
 const { Upload } = require('@aws-sdk/lib-storage');
@@ -18,9 +19,18 @@ const s3Client = new S3Client({
   }
 });
 
-const TRACKS_INDEX_KEY = 'metadata/tracks.json';
-const GROUPS_INDEX_KEY = 'metadata/groups.json';
-const YOUTUBE_COOKIES_KEY = 'metadata/youtube-cookies.txt';
+function isNotFoundError(error) {
+  return (
+    error?.$metadata?.httpStatusCode === 404 ||
+    error?.name === 'NotFound' ||
+    error?.name === 'NoSuchKey' ||
+    error?.Code === 'NoSuchKey'
+  );
+}
+
+function isPreconditionFailed(error) {
+  return error?.$metadata?.httpStatusCode === 412 || error?.name === 'PreconditionFailed';
+}
 
 async function streamToString(stream) {
   return new Promise((resolve, reject) => {
@@ -31,36 +41,108 @@ async function streamToString(stream) {
   });
 }
 
-async function saveJson(key, data) {
+/**
+ * Write an object and return its ETag. `conditions.ifMatch` / `ifNoneMatch`
+ * become conditional-write headers; a rejected write throws with code
+ * PRECONDITION_FAILED.
+ */
+async function putObject(key, body, contentType, conditions = {}) {
   const command = new PutObjectCommand({
     Bucket: config.r2.bucketName,
     Key: key,
-    Body: JSON.stringify(data, null, 2),
-    ContentType: 'application/json',
+    Body: body,
+    ContentType: contentType,
+    IfMatch: conditions.ifMatch,
+    IfNoneMatch: conditions.ifNoneMatch,
   });
-  await s3Client.send(command);
+  try {
+    const result = await s3Client.send(command);
+    return result.ETag ?? null;
+  } catch (error) {
+    if (isPreconditionFailed(error)) {
+      error.code = 'PRECONDITION_FAILED';
+    }
+    throw error;
+  }
 }
 
-async function getJson(key) {
+/**
+ * Read a small object as UTF-8 text. Returns null if the key doesn't exist.
+ */
+async function getObjectText(key) {
   const command = new GetObjectCommand({
     Bucket: config.r2.bucketName,
     Key: key,
   });
   try {
     const result = await s3Client.send(command);
-    const body = await streamToString(result.Body);
-    return JSON.parse(body);
+    return await streamToString(result.Body);
   } catch (error) {
-    if (error?.$metadata?.httpStatusCode === 404 || error?.name === 'NotFound') {
+    if (isNotFoundError(error)) {
       return null;
     }
-    if (error?.Code === 'NoSuchKey') {
+    throw error;
+  }
+}
+
+/**
+ * Like getObjectText, plus the ETag to pass back as `ifMatch`.
+ */
+async function getObjectWithEtag(key) {
+  const command = new GetObjectCommand({
+    Bucket: config.r2.bucketName,
+    Key: key,
+  });
+  try {
+    const result = await s3Client.send(command);
+    return { body: await streamToString(result.Body), etag: result.ETag ?? null };
+  } catch (error) {
+    if (isNotFoundError(error)) {
       return null;
     }
     throw error;
   }
 }
 
+/**
+ * Keys of every object under `prefix` (e.g. "metadata/tracks/").
+ */
+async function listObjects(prefix) {
+  const keys = [];
+  let continuationToken;
+  do {
+    const result = await s3Client.send(new ListObjectsV2Command({
+      Bucket: config.r2.bucketName,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }));
+    for (const object of result.Contents ?? []) {
+      keys.push(object.Key);
+    }
+    continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+  } while (continuationToken);
+  return keys;
+}
+
+/**
+ * Delete an object. Returns false if it was already gone.
+ */
+async function deleteObject(key) {
+  const command = new DeleteObjectCommand({
+    Bucket: config.r2.bucketName,
+    Key: key,
+  });
+  try {
+    await s3Client.send(command);
+    return true;
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
 async function checkFileExists(key) {
   const command = new HeadObjectCommand({
     Bucket: config.r2.bucketName,
@@ -71,22 +153,47 @@ async function checkFileExists(key) {
     await s3Client.send(command);
     return true;
   } catch (error) {
-    if (error?.$metadata?.httpStatusCode === 404 || error?.name === 'NotFound') {
+    if (isNotFoundError(error)) {
       return false;
     }
 
-    if (error?.Code === 'NoSuchKey') {
-      return false;
-    }
+    throw error;
+  }
+}
+
+/**
+ * Size and type of a stored object, or null if it doesn't exist.
+ */
+async function getFileInfo(key) {
+  const command = new HeadObjectCommand({
+    Bucket: config.r2.bucketName,
+    Key: key
+  });
 
+  try {
+    const result = await s3Client.send(command);
+    return {
+      size: result.ContentLength,
+      contentType: result.ContentType ?? 'application/octet-stream',
+      lastModified: result.LastModified ?? null,
+    };
+  } catch (error) {
+    if (isNotFoundError(error)) {
+      return null;
+    }
     throw error;
   }
 }
 
-async function getFileStream(key) {
+/**
+ * Open an object for reading. `range` is an inclusive { start, end } byte range
+ * and is passed straight through as a ranged GetObject.
+ */
+async function getFileStream(key, range) {
   const command = new GetObjectCommand({
     Bucket: config.r2.bucketName,
-    Key: key
+    Key: key,
+    Range: range ? `bytes=${range.start}-${range.end}` : undefined,
   });
   const result = await s3Client.send(command);
   return result.Body;
@@ -101,170 +208,43 @@ async function getSignedFileUrl(key, expiresIn = 3600) {
   return url;
 }
 
-function uploadStream(key, bodyStream) {
+/**
+ * Multipart upload of a stream. Aborting `options.signal` aborts the multipart
+ * upload on R2 as well, so no orphaned parts are left behind.
+ */
+function uploadStream(key, bodyStream, contentType = 'audio/mpeg', options = {}) {
   const upload = new Upload({
     client: s3Client,
     params: {
       Bucket: config.r2.bucketName,
       Key: key,
       Body: bodyStream,
-      ContentType: 'audio/mpeg'
+      ContentType: contentType
     }
   });
 
-  return upload.done();
-}
-
-async function getTrackIndex() {
-  return (await getJson(TRACKS_INDEX_KEY)) ?? {};
-}
-
-async function saveTrackMetadata(metadata) {
-  const index = await getTrackIndex();
-  const existing = index[metadata.videoId];
-  index[metadata.videoId] = {
-    ...existing,
-    ...metadata,
-    createdAt: existing?.createdAt ?? metadata.createdAt,
-    updatedAt: new Date().toISOString(),
-  };
-  await saveJson(TRACKS_INDEX_KEY, index);
-}
-
-async function getTrackMetadata(videoId) {
-  const index = await getTrackIndex();
-  return index[videoId] ?? null;
-}
-
-async function listTracks() {
-  const index = await getTrackIndex();
-  return Object.values(index).sort((a, b) => {
-    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-  });
-}
-
-async function getGroupsIndex() {
-  return (await getJson(GROUPS_INDEX_KEY)) ?? [];
-}
-
-async function saveGroups(groups) {
-  await saveJson(GROUPS_INDEX_KEY, groups);
-}
-
-async function listGroups() {
-  return await getGroupsIndex();
-}
-
-async function deleteTrack(videoId) {
-  const index = await getTrackIndex();
-  const metadata = index[videoId];
-  if (!metadata) {
-    return false;
-  }
-
-  if (metadata.storageKey) {
-    try {
-      const deleteCommand = new DeleteObjectCommand({
-        Bucket: config.r2.bucketName,
-        Key: metadata.storageKey,
-      });
-      await s3Client.send(deleteCommand);
-    } catch (error) {
-      if (error?.$metadata?.httpStatusCode !== 404 && error?.Code !== 'NoSuchKey') {
-        throw error;
-      }
+  const { signal } = options;
+  if (signal) {
+    if (signal.aborted) {
+      upload.abort();
+    } else {
+      signal.addEventListener('abort', () => upload.abort(), { once: true });
     }
   }
 
-  delete index[videoId];
-  await saveJson(TRACKS_INDEX_KEY, index);
-
-  const groups = await getGroupsIndex();
-  let mutated = false;
-  const updatedGroups = groups.map((group) => {
-    const filteredIds = (group.trackIds ?? []).filter((id) => id !== videoId);
-    if (filteredIds.length !== group.trackIds?.length) {
-      mutated = true;
-      return { ...group, trackIds: filteredIds, updatedAt: new Date().toISOString() };
-    }
-    return group;
-  });
-  if (mutated) {
-    await saveJson(GROUPS_INDEX_KEY, updatedGroups);
-  }
-
-  return true;
-}
-
-/**
- * Save YouTube cookies to R2 for persistence across server restarts
- */
-async function saveYouTubeCookies(cookieData) {
-  const command = new PutObjectCommand({
-    Bucket: config.r2.bucketName,
-    Key: YOUTUBE_COOKIES_KEY,
-    Body: cookieData,
-    ContentType: 'text/plain',
-  });
-  await s3Client.send(command);
-  console.log('[R2] YouTube cookies saved to R2');
-}
-
-/**
- * Load YouTube cookies from R2
- * Returns null if cookies don't exist
- */
-async function loadYouTubeCookies() {
-  const command = new GetObjectCommand({
-    Bucket: config.r2.bucketName,
-    Key: YOUTUBE_COOKIES_KEY,
-  });
-  try {
-    const result = await s3Client.send(command);
-    const body = await streamToString(result.Body);
-    console.log('[R2] YouTube cookies loaded from R2');
-    return body;
-  } catch (error) {
-    if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
-      console.log('[R2] No YouTube cookies found in R2');
-      return null;
-    }
-    throw error;
-  }
-}
-
-/**
- * Delete persisted YouTube cookies from R2
- */
-async function deleteYouTubeCookies() {
-  const command = new DeleteObjectCommand({
-    Bucket: config.r2.bucketName,
-    Key: YOUTUBE_COOKIES_KEY,
-  });
-  try {
-    await s3Client.send(command);
-    console.log('[R2] YouTube cookies deleted from R2');
-  } catch (error) {
-    if (error?.$metadata?.httpStatusCode === 404 || error?.name === 'NoSuchKey') {
-      console.log('[R2] YouTube cookies not present in R2');
-      return;
-    }
-    throw error;
-  }
+  return upload.done();
 }
 
 module.exports = {
+  name: 'r2',
   checkFileExists,
+  getFileInfo,
   getFileStream,
   getSignedFileUrl,
   uploadStream,
-  saveTrackMetadata,
-  getTrackMetadata,
-  listTracks,
-  listGroups,
-  saveGroups,
-  deleteTrack,
-  saveYouTubeCookies,
-  loadYouTubeCookies,
-  deleteYouTubeCookies,
+  putObject,
+  getObjectText,
+  getObjectWithEtag,
+  listObjects,
+  deleteObject,
 };
@@ -0,0 +1,239 @@
+const { spawn } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+const config = require('./config');
+
+const YOUTUBE_SEARCH_ENDPOINT = 'https://www.googleapis.com/youtube/v3/search';
+const MUSIC_CATEGORY_ID = '10';
+const YOUTUBE_MAX_RESULTS = 5;
+const COOKIES_FILE_PATH = path.join('/tmp', 'youtube-cookies.txt');
+const COOKIE_PROBE_TIMEOUT_MS = 60 * 1000;
+
+function getVideoId(candidate = '') {
+  const shortCodeMatch = candidate.match(/[a-zA-Z0-9_-]{11}/);
+  if (candidate.length === 11 && shortCodeMatch) {
+    return candidate;
+  }
+
+  const urlMatch = candidate.match(/[?&]v=([a-zA-Z0-9_-]{11})/);
+  if (urlMatch?.[1]) {
+    return urlMatch[1];
+  }
+
+  const shareMatch = candidate.match(/youtu\.be\/([a-zA-Z0-9_-]{11})/);
+  if (shareMatch?.[1]) {
+    return shareMatch[1];
+  }
+
+  return null;
+}
+
+/**
+ * Playlist id from a playlist/watch URL (`list=`) or a bare playlist id
+ * (PL..., OL..., UU..., RD...). Returns null for anything else.
+ */
+function getPlaylistId(candidate = '') {
+  const trimmed = candidate.trim();
+  const urlMatch = trimmed.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+  if (urlMatch?.[1]) {
+    return urlMatch[1];
+  }
+  if (/^(PL|OL|UU|LL|FL|RD)[a-zA-Z0-9_-]{10,}$/.test(trimmed)) {
+    return trimmed;
+  }
+  return null;
+}
+
+/**
+ * Write the cookie file yt-dlp reads, readable by the gateway's user only.
+ * yt-dlp writes refreshed cookies back in place, which keeps the mode.
+ */
+function writeCookiesFile(cookieData) {
+  fs.writeFileSync(COOKIES_FILE_PATH, cookieData, { encoding: 'utf8', mode: 0o600 });
+  // The mode above only applies when the file is created
+  fs.chmodSync(COOKIES_FILE_PATH, 0o600);
+}
+
+// Helper function to build yt-dlp args with cookies if available
+function buildYtDlpArgs(baseArgs) {
+  const args = [...baseArgs];
+  if (fs.existsSync(COOKIES_FILE_PATH)) {
+    args.push('--cookies', COOKIES_FILE_PATH);
+    console.log('[yt-dlp] Using cookies file');
+  }
+  return args;
+}
+
+// Run yt-dlp with --dump-single-json style arguments and parse its output
+function runYtDlpJson(baseArgs) {
+  return new Promise((resolve, reject) => {
+    const args = buildYtDlpArgs(baseArgs);
+    const infoProcess = spawn('yt-dlp', args);
+
+    let stdout = '';
+    let stderr = '';
+
+    infoProcess.stdout.on('data', (chunk) => {
+      stdout += chunk.toString();
+    });
+
+    infoProcess.stderr.on('data', (chunk) => {
+      stderr += chunk.toString();
+    });
+
+    infoProcess.on('error', (error) => {
+      reject(error);
+    });
+
+    infoProcess.on('close', (code) => {
+      if (code !== 0) {
+        return reject(new Error(stderr || `yt-dlp metadata exit code ${code}`));
+      }
+      try {
+        const payload = JSON.parse(stdout);
+        resolve(payload);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+/**
+ * Load `videoId` with the cookie file, without downloading anything. Resolves
+ * with yt-dlp's exit code and stderr (warnings included) so the caller can
+ * tell how YouTube treated the cookies; rejects if yt-dlp can't be run.
+ */
+function probeWithCookies(videoId) {
+  return new Promise((resolve, reject) => {
+    const probe = spawn('yt-dlp', [
+      '--cookies', COOKIES_FILE_PATH,
+      '--skip-download',
+      '--dump-single-json',
+      `https://www.youtube.com/watch?v=${videoId}`,
+    ]);
+    let stderr = '';
+    const timer = setTimeout(() => {
+      stderr += '\nProbe timed out';
+      probe.kill('SIGKILL');
+    }, COOKIE_PROBE_TIMEOUT_MS);
+
+    probe.stdout.resume();
+    probe.stderr.on('data', (chunk) => {
+      stderr += chunk.toString();
+    });
+    probe.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    probe.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ code, stderr });
+    });
+  });
+}
+
+async function fetchVideoInfo(videoId) {
+  const youtubeUrl = `https://www.youtube.com/watch?v=${videoId}`;
+  return runYtDlpJson([
+    // Same format selection as the download, so ext and filesize describe what it fetches
+    '-f', 'bestaudio/best',
+    '--dump-single-json',
+    '--no-warnings',
+    '--skip-download',
+    youtubeUrl,
+  ]);
+}
+
+// Titles yt-dlp reports for playlist entries that can't be played
+const UNAVAILABLE_ENTRY_TITLES = ['[Private video]', '[Deleted video]'];
+
+/**
+ * List a playlist without resolving every video (`--flat-playlist`).
+ * Entries keep playlist order; private and deleted videos are flagged `available: false`.
+ */
+async function fetchPlaylistEntries(playlistId) {
+  const playlistUrl = `https://www.youtube.com/playlist?list=${playlistId}`;
+  const payload = await runYtDlpJson([
+    '--flat-playlist',
+    '--dump-single-json',
+    '--no-warnings',
+    playlistUrl,
+  ]);
+  const entries = Array.isArray(payload.entries) ? payload.entries : [];
+  return {
+    playlistId,
+    title: payload.title ?? playlistId,
+    entries: entries
+      .map((entry) => {
+        const videoId = getVideoId(entry?.id ?? '');
+        if (!videoId) {
+          return null;
+        }
+        const title = entry.title ?? videoId;
+        return {
+          videoId,
+          title,
+          available: !UNAVAILABLE_ENTRY_TITLES.includes(title),
+        };
+      })
+      .filter(Boolean),
+  };
+}
+
+async function searchYouTubeSongs(query, maxResults = YOUTUBE_MAX_RESULTS) {
+  const params = new URLSearchParams({
+    key: config.youtube.apiKey,
+    part: 'snippet',
+    q: query,
+    type: 'video',
+    videoCategoryId: MUSIC_CATEGORY_ID,
+    maxResults: String(maxResults),
+    order: 'relevance',
+    safeSearch: 'none',
+    fields: 'items(id/videoId,snippet/title,snippet/description,snippet/channelTitle,snippet/thumbnails/medium,snippet/thumbnails/default,snippet/publishedAt)',
+  });
+
+  const response = await fetch(`${YOUTUBE_SEARCH_ENDPOINT}?${params.toString()}`);
+  if (!response.ok) {
+    const errorPayload = await response.text();
+    throw new Error(`YouTube API error ${response.status}: ${errorPayload}`);
+  }
+
+  const payload = await response.json();
+  const items = Array.isArray(payload.items) ? payload.items : [];
+
+  return items
+    .map((item) => {
+      const videoId = item?.id?.videoId;
+      if (!videoId) {
+        return null;
+      }
+
+      const snippet = item.snippet ?? {};
+      const thumbnailUrl =
+        snippet.thumbnails?.medium?.url || snippet.thumbnails?.default?.url || null;
+
+      return {
+        videoId,
+        title: snippet.title ?? '未知标题',
+        channelTitle: snippet.channelTitle ?? null,
+        description: snippet.description ?? null,
+        thumbnailUrl,
+        publishedAt: snippet.publishedAt ?? null,
+      };
+    })
+    .filter(Boolean);
+}
+
+module.exports = {
+  COOKIES_FILE_PATH,
+  writeCookiesFile,
+  getVideoId,
+  getPlaylistId,
+  buildYtDlpArgs,
+  probeWithCookies,
+  fetchVideoInfo,
+  fetchPlaylistEntries,
+  searchYouTubeSongs,
+};
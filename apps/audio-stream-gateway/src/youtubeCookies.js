@@ -0,0 +1,220 @@
+const fs = require('fs');
+const config = require('./config');
+const { COOKIES_FILE_PATH, probeWithCookies } = require('./youtube');
+
+/**
+ * Health of the YouTube cookies yt-dlp uses. The Netscape file tells us which
+ * sign-in cookies there are and when they expire; a probe loads a known video
+ * with them to see whether YouTube still honours the session. Only cookie
+ * names and dates are ever reported, never their values.
+ */
+
+// Cookies YouTube needs to treat a request as signed in
+const AUTH_COOKIE_NAMES = [
+  'SID',
+  'HSID',
+  'SSID',
+  'APISID',
+  'SAPISID',
+  '__Secure-1PSID',
+  '__Secure-3PSID',
+  'LOGIN_INFO',
+];
+const HEADER_PATTERN = /^#\s*(Netscape )?HTTP Cookie File/i;
+// yt-dlp writes HttpOnly cookies as comments with this prefix
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+// yt-dlp's warning when YouTube answers a request with auth cookies as signed out
+const EXPIRED_PATTERN = /cookies are no longer valid/i;
+const REJECTED_PATTERN = /sign in to confirm|login required|HTTP Error 40[13]/i;
+const MAX_PROBE_MESSAGE_LENGTH = 200;
+
+let lastProbe = null;
+let runningProbe = null;
+// Bumped whenever the cookies are replaced, so a probe of the old ones is ignored
+let cookieGeneration = 0;
+
+/**
+ * Parse a Netscape cookie file into cookies without their values, plus one
+ * message per line that doesn't fit the format.
+ */
+function parseCookieFile(text) {
+  const cookies = [];
+  const errors = [];
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    let line = rawLine;
+    if (line.startsWith(HTTP_ONLY_PREFIX)) {
+      line = line.slice(HTTP_ONLY_PREFIX.length);
+    } else if (!line.trim() || line.startsWith('#')) {
+      return;
+    }
+
+    const lineNumber = index + 1;
+    const fields = line.split('\t');
+    if (fields.length !== 7) {
+      errors.push(`Line ${lineNumber}: expected 7 tab-separated fields, found ${fields.length}`);
+      return;
+    }
+    const [domain, includeSubdomains, path, secure, expires, name] = fields;
+    if (!domain || !name) {
+      errors.push(`Line ${lineNumber}: domain and name are required`);
+    } else if (![includeSubdomains, secure].every((flag) => flag === 'TRUE' || flag === 'FALSE')) {
+      errors.push(`Line ${lineNumber}: flags must be TRUE or FALSE`);
+    } else if (!/^\d+$/.test(expires)) {
+      errors.push(`Line ${lineNumber}: expiry must be a Unix timestamp`);
+    } else {
+      // An expiry of 0 marks a session cookie
+      cookies.push({ domain, path, name, secure: secure === 'TRUE', expires: Number(expires) });
+    }
+  });
+  return { cookies, errors };
+}
+
+function isYouTubeDomain(domain) {
+  const host = domain.replace(/^\./, '').toLowerCase();
+  return host === 'youtube.com' || host.endsWith('.youtube.com');
+}
+
+function describeAuthCookies(cookies, now = Date.now()) {
+  return cookies
+    .filter((cookie) => isYouTubeDomain(cookie.domain) && AUTH_COOKIE_NAMES.includes(cookie.name))
+    .map((cookie) => ({
+      name: cookie.name,
+      expiresAt: cookie.expires ? new Date(cookie.expires * 1000).toISOString() : null,
+      expired: cookie.expires > 0 && cookie.expires * 1000 <= now,
+    }));
+}
+
+// The first sign-in cookie to expire; session cookies have no date of their own
+function earliestExpiry(authCookies) {
+  const expiries = authCookies.filter((cookie) => cookie.expiresAt).map((cookie) => Date.parse(cookie.expiresAt));
+  return expiries.length ? new Date(Math.min(...expiries)).toISOString() : null;
+}
+
+/**
+ * Check an uploaded cookie file. Returns the problems found, empty when yt-dlp
+ * can use it, along with the sign-in cookies it carries.
+ */
+function validateCookieFile(text) {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim());
+  const { cookies, errors } = parseCookieFile(text);
+  if (!firstLine || !HEADER_PATTERN.test(firstLine)) {
+    errors.unshift('The file must start with "# Netscape HTTP Cookie File"');
+  }
+  const authCookies = describeAuthCookies(cookies);
+  if (!errors.length && !authCookies.length) {
+    errors.push('No YouTube sign-in cookies found; log in to YouTube first');
+  }
+  return { errors, authCookies, expiresAt: earliestExpiry(authCookies) };
+}
+
+function probeMessage(code, stderr) {
+  if (EXPIRED_PATTERN.test(stderr)) {
+    return { health: 'expired', message: 'YouTube no longer accepts this session; log in again' };
+  }
+  if (code !== 0 && REJECTED_PATTERN.test(stderr)) {
+    return { health: 'rejected', message: 'YouTube rejected the cookies' };
+  }
+  if (code === 0) {
+    return { health: 'valid', message: 'YouTube accepted the cookies' };
+  }
+  // Not about the cookies (network, yt-dlp itself); report yt-dlp's own error
+  const errorLine = stderr.split('\n').reverse().find((line) => line.trim()) ?? `yt-dlp exit code ${code}`;
+  return { health: 'unknown', message: errorLine.trim().slice(0, MAX_PROBE_MESSAGE_LENGTH) };
+}
+
+/**
+ * Load the probe video with the current cookies. Concurrent calls share one
+ * yt-dlp run. Resolves with null when there are no cookies.
+ */
+function probeYouTubeCookies() {
+  if (!fs.existsSync(COOKIES_FILE_PATH)) {
+    return Promise.resolve(null);
+  }
+  if (runningProbe) {
+    return runningProbe;
+  }
+
+  const generation = cookieGeneration;
+  const probe = probeWithCookies(config.youtube.probeVideoId)
+    .then(({ code, stderr }) => {
+      const result = { ...probeMessage(code, stderr), checkedAt: new Date().toISOString() };
+      console.log(`[Cookies] Probe result: ${result.health} (${result.message})`);
+      if (generation === cookieGeneration) {
+        lastProbe = result;
+      }
+      return result;
+    })
+    .finally(() => {
+      if (runningProbe === probe) {
+        runningProbe = null;
+      }
+    });
+  runningProbe = probe;
+  return probe;
+}
+
+// Call when the cookies are saved or deleted
+function forgetCookieProbe() {
+  cookieGeneration += 1;
+  lastProbe = null;
+  runningProbe = null;
+}
+
+/**
+ * What the status route reports: file age, the sign-in cookies and their
+ * expiry, and `health` (missing, expired, rejected, valid, unknown or unchecked).
+ * A passed expiry date wins over the last probe.
+ */
+function getCookieHealth() {
+  if (!fs.existsSync(COOKIES_FILE_PATH)) {
+    return { hasCookies: false, health: 'missing', authCookies: [], message: 'No cookies found. Please login to YouTube.' };
+  }
+
+  const stats = fs.statSync(COOKIES_FILE_PATH);
+  const ageHours = (Date.now() - stats.mtimeMs) / (1000 * 60 * 60);
+  const authCookies = describeAuthCookies(parseCookieFile(fs.readFileSync(COOKIES_FILE_PATH, 'utf8')).cookies);
+  const expiresAt = earliestExpiry(authCookies);
+
+  let state;
+  if (!authCookies.length) {
+    state = { health: 'missing', message: 'The cookie file has no YouTube sign-in cookies' };
+  } else if (authCookies.some((cookie) => cookie.expired)) {
+    state = { health: 'expired', message: `Sign-in cookies expired on ${expiresAt}` };
+  } else if (lastProbe) {
+    state = { health: lastProbe.health, message: lastProbe.message };
+  } else {
+    state = { health: 'unchecked', message: 'Not checked with YouTube yet' };
+  }
+
+  return {
+    hasCookies: true,
+    lastUpdated: stats.mtime.toISOString(),
+    ageHours: Math.round(ageHours * 10) / 10,
+    authCookies,
+    expiresAt,
+    checkedAt: lastProbe?.checkedAt ?? null,
+    ...state,
+  };
+}
+
+function scheduleCookieProbes() {
+  const intervalHours = config.youtube.probeIntervalHours;
+  if (!intervalHours) {
+    return;
+  }
+  const probe = () => {
+    probeYouTubeCookies().catch((error) => {
+      console.error('[Cookies] Probe failed to run', error);
+    });
+  };
+  probe();
+  setInterval(probe, intervalHours * 60 * 60 * 1000).unref();
+}
+
+module.exports = {
+  validateCookieFile,
+  probeYouTubeCookies,
+  forgetCookieProbe,
+  getCookieHealth,
+  scheduleCookieProbes,
+};
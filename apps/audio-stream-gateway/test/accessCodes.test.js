@@ -0,0 +1,89 @@
+const { test, after, beforeEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kplayer-access-codes-'));
+process.env.STORAGE_DRIVER = 'local';
+process.env.LOCAL_STORAGE_DIR = storageDir;
+process.env.ACCESS_CODE = 'correct-horse';
+process.env.SESSION_SECRET = 'test-secret';
+
+// Counts scrypt runs; accessCodes picks up the spy when it promisifies scrypt
+const scrypt = mock.method(crypto, 'scrypt');
+const storage = require('../src/storage');
+const { loadAccessCodes, createAccessCode, findAccessCode, accessCodeRole } = require('../src/accessCodes');
+
+beforeEach(() => {
+  scrypt.mock.resetCalls();
+});
+
+after(() => {
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+test('ACCESS_CODE is always an admin code', async () => {
+  assert.deepEqual(await findAccessCode('correct-horse'), { id: 'env', name: 'ACCESS_CODE', role: 'admin' });
+  assert.equal(await findAccessCode('wrong-horse'), null);
+});
+
+test('created codes are stored as salted scrypt hashes and still match', async () => {
+  const created = await createAccessCode({ name: 'Family', role: 'listener', code: 'family-code' });
+  assert.equal(created.code, 'family-code');
+  assert.equal(created.hash, undefined);
+  assert.equal(created.lookup, undefined);
+
+  const [stored] = await storage.listAccessCodes();
+  assert.match(stored.salt, /^[0-9a-f]{32}$/);
+  assert.match(stored.hash, /^[0-9a-f]{64}$/);
+  assert.ok(!JSON.stringify(stored).includes('family-code'));
+
+  const found = await findAccessCode('family-code');
+  assert.equal(found.id, created.id);
+  assert.equal(found.salt, undefined);
+  assert.equal(accessCodeRole(created.id), 'listener');
+  assert.equal(await findAccessCode('family-cod'), null);
+});
+
+test('a check runs scrypt on the matching code only', async () => {
+  for (const name of ['One', 'Two', 'Three']) {
+    await createAccessCode({ name, role: 'curator', code: `code-${name.toLowerCase()}` });
+  }
+
+  scrypt.mock.resetCalls();
+  assert.equal((await findAccessCode('code-two')).name, 'Two');
+  assert.equal(scrypt.mock.callCount(), 1);
+
+  scrypt.mock.resetCalls();
+  assert.equal(await findAccessCode('no-such-code'), null);
+  assert.equal(scrypt.mock.callCount(), 0);
+});
+
+test('codes saved without a lookup get one the next time they match', async () => {
+  await storage.updateAccessCodes((current) =>
+    current.map((entry) => (entry.name === 'Family' ? { ...entry, lookup: undefined, lookupKeyId: undefined } : entry))
+  );
+  await loadAccessCodes();
+
+  assert.equal(await findAccessCode('no-such-code'), null);
+  assert.equal(scrypt.mock.callCount(), 1);
+  assert.equal((await findAccessCode('family-code')).name, 'Family');
+
+  const family = (await storage.listAccessCodes()).find((entry) => entry.name === 'Family');
+  assert.match(family.lookup, /^[0-9a-f]{64}$/);
+  scrypt.mock.resetCalls();
+  assert.equal(await findAccessCode('no-such-code'), null);
+  assert.equal(scrypt.mock.callCount(), 0);
+});
+
+test('codes that are too short or already in use are refused', async () => {
+  await assert.rejects(createAccessCode({ name: 'Short', role: 'listener', code: 'abc' }), {
+    code: 'INVALID_ACCESS_CODE',
+  });
+  await assert.rejects(createAccessCode({ name: 'Again', role: 'curator', code: 'correct-horse' }), {
+    code: 'INVALID_ACCESS_CODE',
+    message: 'That access code is already in use',
+  });
+});
@@ -0,0 +1,51 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+
+const { sealCookies, openCookies } = require('../src/storage/cookieEnvelope');
+
+const COOKIES = '# Netscape HTTP Cookie File\n.youtube.com\tTRUE\t/\tTRUE\t0\tSID\tsecret-value\n';
+const key = crypto.randomBytes(32);
+
+// Flips one bit of a base64 field
+function tamper(field) {
+  const bytes = Buffer.from(field, 'base64');
+  bytes[0] ^= 1;
+  return bytes.toString('base64');
+}
+
+test('sealed cookies open with the same key', () => {
+  assert.equal(openCookies(sealCookies(COOKIES, key), key), COOKIES);
+});
+
+test('every seal uses a fresh data key and never stores the cookies in plain text', () => {
+  const first = sealCookies(COOKIES, key);
+  const second = sealCookies(COOKIES, key);
+  assert.notEqual(first.wrappedKey.data, second.wrappedKey.data);
+  assert.notEqual(first.cookies.data, second.cookies.data);
+  assert.ok(!JSON.stringify(first).includes('secret-value'));
+});
+
+test('another key is reported as such', () => {
+  assert.throws(
+    () => openCookies(sealCookies(COOKIES, key), crypto.randomBytes(32)),
+    /different COOKIES_ENCRYPTION_KEY/
+  );
+});
+
+test('tampered cookies, tags or wrapped keys are rejected', () => {
+  const envelope = sealCookies(COOKIES, key);
+  const tampered = [
+    { ...envelope, cookies: { ...envelope.cookies, data: tamper(envelope.cookies.data) } },
+    { ...envelope, cookies: { ...envelope.cookies, tag: tamper(envelope.cookies.tag) } },
+    { ...envelope, wrappedKey: { ...envelope.wrappedKey, data: tamper(envelope.wrappedKey.data) } },
+  ];
+  tampered.forEach((candidate) => {
+    assert.throws(() => openCookies(candidate, key), /unable to authenticate data/);
+  });
+});
+
+test('unknown envelope versions are rejected', () => {
+  assert.throws(() => openCookies({ ...sealCookies(COOKIES, key), version: 2 }, key), /Unsupported cookie envelope/);
+  assert.throws(() => openCookies(null, key), /Unsupported cookie envelope/);
+});
@@ -0,0 +1,49 @@
+const { mock } = require('node:test');
+
+/**
+ * Just enough of Express's req and res to run the gateway's middleware
+ * without a server, and a clock the tests move by hand.
+ */
+
+function fakeRequest({ method = 'GET', path = '/', query = {}, headers = {}, ip = '127.0.0.1' } = {}) {
+  const byName = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return { method, path, query, ip, get: (name) => byName[name.toLowerCase()] };
+}
+
+/**
+ * Run `middleware` on `req`. Returns what it answered with, and `next: true`
+ * when it passed the request on instead.
+ */
+function runMiddleware(middleware, req) {
+  const result = { status: null, headers: {}, body: undefined, next: false };
+  const res = {
+    setHeader(name, value) {
+      result.headers[name] = value;
+    },
+    status(code) {
+      result.status = code;
+      return res;
+    },
+    json(body) {
+      result.body = body;
+      return res;
+    },
+  };
+  middleware(req, res, () => {
+    result.next = true;
+  });
+  return result;
+}
+
+// Date.now() returns `clock.now` for the rest of the test file
+function fakeClock(start) {
+  const clock = { now: start };
+  mock.method(Date, 'now', () => clock.now);
+  return clock;
+}
+
+module.exports = {
+  fakeRequest,
+  runMiddleware,
+  fakeClock,
+};
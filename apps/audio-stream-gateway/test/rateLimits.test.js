@@ -0,0 +1,76 @@
+const { test, beforeEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const { fakeRequest, runMiddleware, fakeClock } = require('./helpers/http');
+
+process.env.STORAGE_DRIVER = 'local';
+process.env.VERIFY_LOCKOUT_THRESHOLD = '3';
+process.env.VERIFY_LOCKOUT_BASE_SECONDS = '10';
+process.env.VERIFY_LOCKOUT_MAX_SECONDS = '40';
+process.env.VERIFY_GLOBAL_FAILURES_PER_MINUTE = '10';
+
+const {
+  LOCKED_OUT_MESSAGE,
+  rejectLockedOut,
+  slowDownVerify,
+  recordVerifyFailure,
+  clearVerifyFailures,
+} = require('../src/rateLimits');
+
+const clock = fakeClock(Date.parse('2026-01-01T00:00:00Z'));
+mock.timers.enable({ apis: ['setTimeout'] });
+
+// Every test starts with a full bucket for wrong codes from all IPs
+beforeEach(() => {
+  clock.now += 60 * 60 * 1000;
+});
+
+test('lockouts start at the threshold and double up to the maximum', () => {
+  const req = fakeRequest({ ip: '10.0.0.1' });
+  const lockouts = Array.from({ length: 6 }, () => recordVerifyFailure(req));
+  assert.deepEqual(lockouts, [0, 0, 10000, 20000, 40000, 40000]);
+});
+
+test('a locked out IP is turned away until the lockout ends', () => {
+  const req = fakeRequest({ ip: '10.0.0.2' });
+  recordVerifyFailure(req);
+  recordVerifyFailure(req);
+  assert.ok(runMiddleware(rejectLockedOut, req).next);
+
+  recordVerifyFailure(req);
+  const rejected = runMiddleware(rejectLockedOut, req);
+  assert.equal(rejected.status, 429);
+  assert.equal(rejected.headers['Retry-After'], '10');
+  assert.equal(rejected.body.message, LOCKED_OUT_MESSAGE);
+  assert.ok(runMiddleware(rejectLockedOut, fakeRequest({ ip: '10.0.0.3' })).next);
+
+  clock.now += 10 * 1000;
+  assert.ok(runMiddleware(rejectLockedOut, req).next);
+});
+
+test('a right code clears the count', () => {
+  const req = fakeRequest({ ip: '10.0.0.4' });
+  recordVerifyFailure(req);
+  recordVerifyFailure(req);
+  clearVerifyFailures(req);
+  assert.equal(recordVerifyFailure(req), 0);
+  assert.equal(recordVerifyFailure(req), 0);
+  assert.equal(recordVerifyFailure(req), 10000);
+});
+
+test('wrong codes from many IPs slow code checks down but turn nobody away', () => {
+  const req = fakeRequest({ ip: '10.2.0.1' });
+  assert.ok(runMiddleware(slowDownVerify, req).next);
+
+  for (let i = 0; i < 10; i += 1) {
+    recordVerifyFailure(fakeRequest({ ip: `10.1.0.${i}` }));
+  }
+  assert.ok(runMiddleware(rejectLockedOut, req).next);
+  const slowed = runMiddleware(slowDownVerify, req);
+  assert.equal(slowed.next, false);
+  assert.equal(slowed.status, null);
+  mock.timers.tick(1000);
+  assert.ok(slowed.next);
+
+  clock.now += 6 * 1000;
+  assert.ok(runMiddleware(slowDownVerify, req).next);
+});
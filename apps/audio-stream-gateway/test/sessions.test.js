@@ -0,0 +1,102 @@
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const { fakeRequest, runMiddleware, fakeClock } = require('./helpers/http');
+
+process.env.STORAGE_DRIVER = 'local';
+process.env.ACCESS_CODE = 'correct-horse';
+process.env.SESSION_SECRET = 'test-secret';
+process.env.SESSION_TTL_MINUTES = '120';
+process.env.SESSION_MAX_AGE_DAYS = '1';
+
+const { issueSession, refreshSession, issueMediaToken, requireSession } = require('../src/sessions');
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const START = Date.parse('2026-01-01T00:00:00Z');
+
+const clock = fakeClock(START);
+
+beforeEach(() => {
+  clock.now = START;
+});
+
+// Runs requireSession; `session` is what it let through, `status` what it answered with otherwise
+function check({ token, mediaToken, path = '/tracks', method = 'GET' }) {
+  const req = fakeRequest({
+    method,
+    path,
+    query: mediaToken ? { media_token: mediaToken } : {},
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  return { ...runMiddleware(requireSession, req), session: req.accessSession };
+}
+
+test('a fresh token is accepted in the Authorization header', () => {
+  const { token, role } = issueSession('env');
+  assert.equal(role, 'admin');
+  const { session } = check({ token });
+  assert.equal(session.cid, 'env');
+  assert.equal(session.role, 'admin');
+});
+
+test('a token with a forged signature is rejected', () => {
+  const { token } = issueSession('env');
+  const [payload] = token.split('.');
+  assert.equal(check({ token: `${payload}.forged` }).status, 401);
+});
+
+test('tokens expire after the session TTL', () => {
+  const { token, expiresAt } = issueSession('env');
+  assert.equal(Date.parse(expiresAt), START + 120 * MINUTE_MS);
+
+  clock.now = START + 119 * MINUTE_MS;
+  assert.ok(check({ token }).session);
+  clock.now = START + 120 * MINUTE_MS;
+  assert.equal(check({ token }).status, 401);
+});
+
+test('a refresh keeps the session id and can not outlive the max age', () => {
+  const first = check({ token: issueSession('env').token }).session;
+
+  clock.now = START + DAY_MS - 10 * MINUTE_MS;
+  const refreshed = refreshSession(first);
+  assert.equal(Date.parse(refreshed.expiresAt), START + DAY_MS);
+  const second = check({ token: refreshed.token }).session;
+  assert.equal(second.sid, first.sid);
+  assert.equal(second.auth, START);
+
+  clock.now = START + DAY_MS;
+  assert.equal(check({ token: refreshed.token }).status, 401);
+  assert.equal(check({ token: refreshSession(second).token }).status, 401);
+});
+
+test('a media token only opens the path it was issued for', () => {
+  const session = check({ token: issueSession('env').token }).session;
+  const mediaToken = issueMediaToken(session, '/stream/abc/live');
+
+  assert.ok(check({ mediaToken, path: '/stream/abc/live' }).session);
+  assert.equal(check({ mediaToken, path: '/stream/xyz/live' }).status, 401);
+  assert.equal(check({ mediaToken, path: '/stream/abc/live', method: 'POST' }).status, 401);
+  assert.equal(check({ token: mediaToken }).status, 401);
+});
+
+test('a session token is not accepted as a media token', () => {
+  const { token } = issueSession('env');
+  assert.equal(check({ mediaToken: token, path: '/tracks' }).status, 401);
+});
+
+test('media tokens expire after an hour, or with their session if that is sooner', () => {
+  const session = check({ token: issueSession('env').token }).session;
+  const early = issueMediaToken(session, '/files/a');
+  clock.now = START + 59 * MINUTE_MS;
+  assert.ok(check({ mediaToken: early, path: '/files/a' }).session);
+  clock.now = START + 60 * MINUTE_MS;
+  assert.equal(check({ mediaToken: early, path: '/files/a' }).status, 401);
+
+  clock.now = START + 90 * MINUTE_MS;
+  const late = issueMediaToken(session, '/files/a');
+  clock.now = START + 119 * MINUTE_MS;
+  assert.ok(check({ mediaToken: late, path: '/files/a' }).session);
+  clock.now = START + 120 * MINUTE_MS;
+  assert.equal(check({ mediaToken: late, path: '/files/a' }).status, 401);
+});
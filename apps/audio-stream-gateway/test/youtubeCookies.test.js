@@ -0,0 +1,71 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+process.env.STORAGE_DRIVER = 'local';
+
+const { validateCookieFile } = require('../src/youtubeCookies');
+
+const HEADER = '# Netscape HTTP Cookie File';
+const LATER = Math.floor(Date.parse('2099-01-01T00:00:00Z') / 1000);
+const EARLIER = Math.floor(Date.parse('2098-01-01T00:00:00Z') / 1000);
+
+function cookieLine(name, { domain = '.youtube.com', expires = LATER, flags = ['TRUE', 'TRUE'] } = {}) {
+  return [domain, flags[0], '/', flags[1], String(expires), name, 'value'].join('\t');
+}
+
+function cookieFile(...lines) {
+  return [HEADER, ...lines].join('\n');
+}
+
+test('a file with YouTube sign-in cookies is accepted', () => {
+  const result = validateCookieFile(
+    cookieFile(cookieLine('SID'), `#HttpOnly_${cookieLine('HSID', { expires: EARLIER })}`, cookieLine('PREF'))
+  );
+  assert.deepEqual(result.errors, []);
+  assert.deepEqual(
+    result.authCookies.map((cookie) => cookie.name),
+    ['SID', 'HSID']
+  );
+  assert.equal(result.expiresAt, '2098-01-01T00:00:00.000Z');
+});
+
+test('windows line endings and session cookies are accepted', () => {
+  const result = validateCookieFile(cookieFile(cookieLine('SID', { expires: 0 })).replace(/\n/g, '\r\n'));
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.authCookies[0].expiresAt, null);
+  assert.equal(result.expiresAt, null);
+});
+
+test('the header is required', () => {
+  const { errors } = validateCookieFile(cookieLine('SID'));
+  assert.deepEqual(errors, ['The file must start with "# Netscape HTTP Cookie File"']);
+});
+
+test('malformed lines are reported by line number', () => {
+  const { errors } = validateCookieFile(
+    cookieFile(
+      cookieLine('SID'),
+      'not a cookie',
+      cookieLine('HSID', { flags: ['yes', 'TRUE'] }),
+      cookieLine('SSID', { expires: 'soon' }),
+      cookieLine('', {})
+    )
+  );
+  assert.deepEqual(errors, [
+    'Line 3: expected 7 tab-separated fields, found 1',
+    'Line 4: flags must be TRUE or FALSE',
+    'Line 5: expiry must be a Unix timestamp',
+    'Line 6: domain and name are required',
+  ]);
+});
+
+test('a file without YouTube sign-in cookies is rejected', () => {
+  const { errors } = validateCookieFile(cookieFile(cookieLine('PREF'), cookieLine('SID', { domain: '.google.com' })));
+  assert.deepEqual(errors, ['No YouTube sign-in cookies found; log in to YouTube first']);
+});
+
+test('expired sign-in cookies are flagged', () => {
+  const { errors, authCookies } = validateCookieFile(cookieFile(cookieLine('SID', { expires: 1 })));
+  assert.deepEqual(errors, []);
+  assert.equal(authCookies[0].expired, true);
+});
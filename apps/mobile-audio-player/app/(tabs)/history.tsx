@@ -0,0 +1,208 @@
+import { useCallback, useRef, useState } from 'react';
+import { ActivityIndicator, FlatList, Platform, StyleSheet, View } from 'react-native';
+import { Button, Card, Text } from 'react-native-paper';
+import { useFocusEffect } from 'expo-router';
+import { BlurView } from 'expo-blur';
+
+import { TextColors, SurfaceColors, BorderColors, Spacing, BorderRadius } from '@/constants/theme';
+import { AppBackground } from '@/components/AppBackground';
+import { api } from '@/lib/api';
+
+const PAGE_SIZE = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Play = {
+  id: string;
+  videoId: string;
+  title: string | null;
+  author: string | null;
+  playedAt: string;
+  listenedSeconds: number | null;
+};
+
+type HistoryResponse = {
+  plays: Play[];
+  nextBefore: string | null;
+};
+
+type HistoryRange = 'today' | 'week' | 'month' | 'all';
+
+const RANGES: { value: HistoryRange; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: '7 days' },
+  { value: 'month', label: '30 days' },
+  { value: 'all', label: 'All' },
+];
+
+// Start of the range in local time, as the gateway's `from`
+function rangeStart(range: HistoryRange) {
+  if (range === 'all') {
+    return undefined;
+  }
+  const midnight = new Date();
+  midnight.setHours(0, 0, 0, 0);
+  const days = range === 'today' ? 0 : range === 'week' ? 6 : 29;
+  return new Date(midnight.getTime() - days * DAY_MS).toISOString();
+}
+
+const formatPlayedAt = (playedAt: string) =>
+  new Date(playedAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Plays the gateway has recorded, newest first. A play is reported once a
+ * track has been listened to for half its length or four minutes.
+ */
+export default function HistoryScreen() {
+  const [range, setRange] = useState<HistoryRange>('week');
+  const [plays, setPlays] = useState<Play[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+  // Drops pages that arrive after the range changed
+  const requestRef = useRef(0);
+
+  const fetchPage = useCallback(async (selectedRange: HistoryRange, before?: string) => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    try {
+      const response = await api.get<HistoryResponse>('/history', {
+        params: { from: rangeStart(selectedRange), before, limit: PAGE_SIZE },
+      });
+      if (request !== requestRef.current) {
+        return;
+      }
+      setPlays((current) => (before ? [...current, ...response.data.plays] : response.data.plays));
+      setNextBefore(response.data.nextBefore);
+      setLoadError(false);
+    } catch (error) {
+      console.warn('Failed to load listening history', error);
+      if (request === requestRef.current) {
+        setLoadError(true);
+      }
+    } finally {
+      if (request === requestRef.current) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  // Plays are reported while listening, so reload whenever the tab is shown
+  useFocusEffect(
+    useCallback(() => {
+      fetchPage(range);
+    }, [fetchPage, range])
+  );
+
+  const loadMore = () => {
+    if (nextBefore && !loading) {
+      fetchPage(range, nextBefore);
+    }
+  };
+
+  const renderPlay = ({ item }: { item: Play }) => (
+    <Card mode="contained" style={styles.trackItem}>
+      <Card.Content>
+        <Text variant="titleSmall" numberOfLines={1} style={{ color: TextColors.primary }}>
+          {item.title ?? item.videoId}
+        </Text>
+        <Text variant="bodySmall" style={{ color: TextColors.secondary }}>
+          {item.author ?? 'Unknown'} · {formatPlayedAt(item.playedAt)}
+        </Text>
+      </Card.Content>
+    </Card>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: 'black' }}>
+      <AppBackground style={{ position: 'absolute', width: '100%', height: '100%' }} />
+      <View style={styles.content}>
+        <Text style={styles.heading}>History</Text>
+        <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+          <View style={styles.rangeRow}>
+            {RANGES.map((option) => (
+              <Button
+                key={option.value}
+                compact
+                mode={option.value === range ? 'contained-tonal' : 'text'}
+                textColor={option.value === range ? undefined : 'white'}
+                onPress={() => setRange(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </View>
+          {loadError && !plays.length ? (
+            <Text style={styles.hint}>Could not load the history.</Text>
+          ) : !plays.length && !loading ? (
+            <Text style={styles.hint}>Nothing played in this period.</Text>
+          ) : (
+            <FlatList
+              data={plays}
+              contentContainerStyle={styles.list}
+              keyExtractor={(item) => item.id}
+              renderItem={renderPlay}
+              onEndReached={loadMore}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={loading ? <ActivityIndicator color="white" style={{ padding: Spacing.lg }} /> : null}
+            />
+          )}
+        </BlurView>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    flex: 1,
+    padding: Platform.OS === 'web' ? 20 : 16,
+    paddingTop: 60,
+    paddingBottom: 100,
+    gap: Spacing.lg,
+  },
+  heading: {
+    color: TextColors.primary,
+    fontSize: 24,
+    fontWeight: '700',
+    textShadowColor: 'rgba(0, 0, 0, 0.75)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
+  glassCard: {
+    flex: 1,
+    borderRadius: BorderRadius.xxl,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: BorderColors.subtle,
+    backgroundColor: SurfaceColors.card,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+  list: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+  },
+  trackItem: {
+    marginBottom: Spacing.md,
+    backgroundColor: SurfaceColors.listItem,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: BorderColors.subtle,
+  },
+  hint: {
+    color: TextColors.secondary,
+    padding: Spacing.lg,
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+});
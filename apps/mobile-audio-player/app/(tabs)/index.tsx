@@ -18,30 +18,64 @@ import TrackPlayer, {
   usePlaybackState,
   useProgress,
   useTrackPlayerEvents,
-  AppKilledPlaybackBehavior,
   IOSCategory,
   IOSCategoryMode,
   IOSCategoryOptions,
 } from 'react-native-track-player';
-import axios from 'axios';
+import { isAxiosError } from 'axios';
 import { Image } from 'expo-image';
-import { IconButton, Text, Button, Card, useTheme, ActivityIndicator as PaperActivityIndicator, TextInput } from 'react-native-paper';
+import { IconButton, Text, Button, Card, Menu, useTheme, ActivityIndicator as PaperActivityIndicator, TextInput, ProgressBar } from 'react-native-paper';
 import Animated, { useSharedValue, useAnimatedStyle, withSpring, withTiming, Easing, withRepeat } from 'react-native-reanimated';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import DraggableFlatList, { ScaleDecorator, RenderItemParams } from 'react-native-draggable-flatlist';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { BlurView } from 'expo-blur';
 
-import { useSettings } from '@/context/settings-context';
+import { useSettings, type AudioQuality } from '@/context/settings-context';
 import { useIdle } from '@/context/idle-context';
+import { useDownloads } from '@/context/downloads-context';
 import { TextColors, SurfaceColors, BorderColors, StatusColors, Spacing, BorderRadius } from '@/constants/theme';
 import { AppBackground } from '@/components/AppBackground';
-import { GroupDetailModal } from '@/components/GroupDetailModal';
+import { GroupDetailModal, type GroupUpdateResult } from '@/components/GroupDetailModal';
+import { useCacheJobEvents, CacheJobPhase, CacheJobProgress } from '@/hooks/use-cache-job-events';
+import { usePlaylistImport } from '@/hooks/use-playlist-import';
+import { usePreferredQuality } from '@/hooks/use-preferred-quality';
+import { usePlaybackQueue } from '@/hooks/use-playback-queue';
+import { useFavourites } from '@/hooks/use-favourites';
+import { useAccess } from '@/hooks/use-access';
+import {
+  clearQueueState,
+  enqueue,
+  getQueueState,
+  isCurrentQueueTrack,
+  loudnessFor,
+  recoverFromPlaybackError,
+  restoreQueue,
+  setActiveTrackLoudness,
+  setQueueCrossfade,
+  setQueueRepeatMode,
+  setQueueShuffle,
+  setQueueVolumeNormalization,
+  setShuffleWeighting,
+  startQueue,
+} from '@/lib/playback-queue';
+import { toggleFavourite } from '@/lib/track-stats';
+import { STREAM_BASE_URL, api, hasRole, isAccessGranted, rateLimitMessage } from '@/lib/api';
 
-const STREAM_BASE_URL = (process.env.EXPO_PUBLIC_STREAM_BASE_URL ?? '').replace(/\/$/, '');
 const KEEP_ALIVE_INTERVAL_MS = 10 * 60 * 1000;
 const TRACK_ORDER_KEY = 'kplayer_track_order';
 
+const CACHE_PHASE_LABELS: Record<CacheJobPhase, string> = {
+  queued: '等待缓存...',
+  metadata: '正在获取歌曲信息...',
+  downloading: '正在下载音频...',
+  transcoding: '正在转码...',
+  uploading: '正在上传缓存...',
+  normalizing: '正在均衡音量...',
+  done: '缓存完成',
+  failed: '缓存失败',
+};
+
 type PlayerState = 'idle' | 'loading' | 'playing' | 'paused' | 'error';
 
 type GatewayStatus = 'checking' | 'online' | 'offline';
@@ -52,20 +86,64 @@ type TrackMetadata = {
   author?: string;
   durationSeconds?: number | null;
   thumbnailUrl?: string | null;
+  // EBU R128 measurement of tracks cached before it was kept per rendition
+  loudness?: TrackLoudness | null;
+  // Cached renditions by quality, with their loudness; tracks from before renditions only have a storageKey
+  renditions?: Record<string, { loudness?: TrackLoudness | null }>;
+  storageKey?: string;
   createdAt?: string;
+  // Plays the gateway has recorded for the track
+  playCount?: number;
+  lastPlayedAt?: string | null;
+};
+
+type TrackLoudness = {
+  integratedLufs: number;
+  truePeakDb: number;
+  gainDb: number;
+  // Already normalized in the file itself, so no gain is needed
+  normalized: boolean;
 };
 
 type GroupMetadata = {
   id: string;
   name: string;
   trackIds: string[];
+  // Bumped by the gateway on every change; sent back as If-Match
+  version?: number;
   createdAt?: string;
   updatedAt?: string;
 };
 
-type PlaybackOptions = {
-  fromQueue?: boolean;
-  skipCacheCheck?: boolean;
+type LoopMode = 'off' | 'single' | 'shuffle';
+
+// How TrackPlayer repeats for each loop mode. With looping off the library (or
+// group) still plays through and starts over, like the old auto-advance did.
+function repeatModeFor(loopMode: LoopMode, groupLoopEnabled: boolean | null) {
+  if (loopMode === 'single') {
+    return RepeatMode.Track;
+  }
+  if (groupLoopEnabled === false) {
+    return RepeatMode.Off;
+  }
+  return RepeatMode.Queue;
+}
+
+// Whether the gateway already has `quality` of the track, so playing it won't start a cache job
+function hasCachedRendition(track: TrackMetadata | undefined, quality: AudioQuality) {
+  if (!track) {
+    return false;
+  }
+  return Boolean(track.renditions?.[quality] ?? (quality === 'mp3-128' && track.storageKey));
+}
+
+type StreamInfo = {
+  cached: boolean;
+  caching: boolean;
+  url?: string;
+  quality?: AudioQuality;
+  metadata?: TrackMetadata | null;
+  error?: string;
 };
 
 type YouTubeSearchResult = {
@@ -104,6 +182,8 @@ const formatDuration = (seconds?: number | null) => {
   return formatTime((seconds ?? 0) * 1000);
 };
 
+const formatPlayCount = (playCount?: number) => (playCount ? ` · 播放 ${playCount} 次` : '');
+
 const extractVideoId = (input: string): string | null => {
   const trimmed = input.trim();
   if (!trimmed) {
@@ -130,6 +210,19 @@ const extractVideoId = (input: string): string | null => {
   return null;
 };
 
+// `list=` in watch/playlist URLs, or a bare playlist id
+const extractPlaylistId = (input: string): string | null => {
+  const trimmed = input.trim();
+  const match = trimmed.match(/[?&]list=([a-zA-Z0-9_-]+)/);
+  if (match?.[1]) {
+    return match[1];
+  }
+  if (/^(PL|OL|UU|LL|FL|RD)[a-zA-Z0-9_-]{10,}$/.test(trimmed)) {
+    return trimmed;
+  }
+  return null;
+};
+
 // Suppress VirtualizedList nesting warning - safe in this context with fixed-height containers
 LogBox.ignoreLogs([
   'VirtualizedLists should never be nested',
@@ -137,10 +230,9 @@ LogBox.ignoreLogs([
 
 
 export default function HomeScreen() {
-  const { autoRefreshEnabled, keepAliveEnabled, showBanner, backgroundMode, idleTimeout, showDebugConsole, cachePollingInterval } = useSettings();
+  const { autoRefreshEnabled, keepAliveEnabled, showBanner, backgroundMode, idleTimeout, showDebugConsole, volumeNormalization, crossfadeSeconds, weightedShuffle } = useSettings();
   const { isIdleShared } = useIdle();
   const idleTimerRef = useRef<any>(null);
-  const cachingPollIntervalRef = useRef<any>(null);
   const [outerScrollEnabled, setOuterScrollEnabled] = useState(true);
   const [youtubeInput, setYoutubeInput] = useState('');
 
@@ -149,9 +241,9 @@ export default function HomeScreen() {
   const [isPlayerReady, setIsPlayerReady] = useState(false);
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
 
-  const addDebugLog = (msg: string) => {
+  const addDebugLog = useCallback((msg: string) => {
     setDebugLogs(prev => [`[${new Date().toLocaleTimeString()}] ${msg}`, ...prev].slice(0, 20));
-  };
+  }, []);
 
   // Helper to map RNTP state to UI state
   const [isStopped, setIsStopped] = useState(false);
@@ -167,17 +259,37 @@ export default function HomeScreen() {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars -- only setter is used
   const [_message, setMessage] = useState<string | null>(null);
   const [cachingVideoId, setCachingVideoId] = useState<string | null>(null); // Track which video is being cached
+  const [cachingQuality, setCachingQuality] = useState<AudioQuality | null>(null);
+  const preferredQuality = usePreferredQuality();
+  const {
+    isSupported: offlineSupported,
+    downloads,
+    savedGroups,
+    statuses: downloadStatuses,
+    getLocalTrack,
+    downloadTrack,
+    downloadGroup,
+    removeDownload,
+    removeGroup,
+    syncWithLibrary,
+  } = useDownloads();
+  // Live transcodes can't serve byte ranges, so seeking is disabled until the next load from cache
+  const [isLiveSource, setIsLiveSource] = useState(false);
   const [gatewayStatus, setGatewayStatus] = useState<GatewayStatus>('checking');
-  const [loopMode, setLoopMode] = useState<'off' | 'single' | 'shuffle'>('off');
+  const [loopMode, setLoopMode] = useState<LoopMode>('off');
   const [groupLoopEnabled, setGroupLoopEnabled] = useState(true);
   // Remove manual position/duration state, use progress hook
   const [tracks, setTracks] = useState<TrackMetadata[]>([]);
   const [groups, setGroups] = useState<GroupMetadata[]>([]);
   const [tracksLoading, setTracksLoading] = useState(false);
+  // Whether /tracks has answered yet, which the session restore waits for
+  const [libraryStatus, setLibraryStatus] = useState<'loading' | 'loaded' | 'failed'>(
+    STREAM_BASE_URL ? 'loading' : 'failed'
+  );
+  const sessionRestoreStartedRef = useRef(false);
   const [groupsLoading, setGroupsLoading] = useState(false);
   const [selectedTrackIds, setSelectedTrackIds] = useState<string[]>([]);
   const [newGroupName, setNewGroupName] = useState('');
-  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
   const [currentTrackId, setCurrentTrackId] = useState<string | null>(null);
   const [isSeeking, setIsSeeking] = useState(false);
   const [seekValue, setSeekValue] = useState(0);
@@ -185,47 +297,16 @@ export default function HomeScreen() {
   const [searchLoading, setSearchLoading] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
 
-  const queueStateRef = useRef<{ queue: string[]; loop: boolean; index: number; groupId: string | null }>({
-    queue: [],
-    loop: false,
-    index: 0,
-    groupId: null,
-  });
-  const initiatePlaybackRef = useRef<((videoId: string, options?: PlaybackOptions) => Promise<void>) | null>(null);
-
   const [viewingGroup, setViewingGroup] = useState<GroupMetadata | null>(null);
-
-  const autoPlayLibraryTrack = useCallback(
-    (previousVideoId?: string | null) => {
-      if (loopMode !== 'off' || queueStateRef.current.queue.length) {
-        return false;
-      }
-
-      if (!tracks.length) {
-        return false;
-      }
-
-      const currentIndex = previousVideoId
-        ? tracks.findIndex((track) => track.videoId === previousVideoId)
-        : -1;
-      const nextIndex = (currentIndex + 1) % tracks.length;
-      const nextTrack = tracks[nextIndex];
-      if (!nextTrack) {
-        return false;
-      }
-
-      const initiator = initiatePlaybackRef.current;
-      if (!initiator) {
-        return false;
-      }
-
-      initiator(nextTrack.videoId).catch((error) =>
-        console.warn('Auto library playback failed', error)
-      );
-      return true;
-    },
-    [loopMode, tracks]
-  );
+  const playbackQueue = usePlaybackQueue();
+  const activeGroupId = playbackQueue.groupId;
+  const [queueMenuTrackId, setQueueMenuTrackId] = useState<string | null>(null);
+  const favourites = useFavourites();
+  const access = useAccess();
+  const accessGranted = isAccessGranted(access);
+  // Listeners only play; curators also manage groups and imports, admins delete tracks
+  const canCurate = hasRole(access, 'curator');
+  const canDeleteTracks = hasRole(access, 'admin');
 
   const theme = useTheme();
   const scale = useSharedValue(0.8);
@@ -332,6 +413,7 @@ export default function HomeScreen() {
   });
 
   const parsedVideoId = useMemo(() => extractVideoId(youtubeInput), [youtubeInput]);
+  const parsedPlaylistId = useMemo(() => extractPlaylistId(youtubeInput), [youtubeInput]);
 
   useEffect(() => {
     async function setup() {
@@ -385,7 +467,7 @@ export default function HomeScreen() {
       }
 
       try {
-        await axios.get(`${STREAM_BASE_URL}/healthz`, { timeout: 4000 });
+        await api.get('/healthz', { timeout: 4000 });
         if (mounted) {
           setGatewayStatus('online');
         }
@@ -410,8 +492,9 @@ export default function HomeScreen() {
     }
     setTracksLoading(true);
     try {
-      const response = await axios.get(`${STREAM_BASE_URL}/tracks`);
+      const response = await api.get('/tracks');
       const fetchedTracks: TrackMetadata[] = response.data?.tracks ?? [];
+      syncWithLibrary({ tracks: fetchedTracks });
 
       const savedOrderString = await AsyncStorage.getItem(TRACK_ORDER_KEY);
       if (savedOrderString) {
@@ -436,12 +519,14 @@ export default function HomeScreen() {
       } else {
         setTracks(fetchedTracks);
       }
+      setLibraryStatus('loaded');
     } catch (error) {
       console.warn('Failed to fetch track metadata', error);
+      setLibraryStatus((status) => (status === 'loaded' ? status : 'failed'));
     } finally {
       setTracksLoading(false);
     }
-  }, []);
+  }, [syncWithLibrary]);
 
   const fetchGroups = useCallback(async () => {
     if (!STREAM_BASE_URL) {
@@ -449,21 +534,38 @@ export default function HomeScreen() {
     }
     setGroupsLoading(true);
     try {
-      const response = await axios.get(`${STREAM_BASE_URL}/groups`);
-      setGroups(response.data?.groups ?? []);
+      const response = await api.get('/groups');
+      const fetchedGroups: GroupMetadata[] = response.data?.groups ?? [];
+      setGroups(fetchedGroups);
+      syncWithLibrary({ groups: fetchedGroups });
     } catch (error) {
       console.warn('Failed to fetch groups', error);
     } finally {
       setGroupsLoading(false);
     }
-  }, []);
+  }, [syncWithLibrary]);
 
+  // With an access code, the library loads once the gate has a session (again after it is re-entered)
   useEffect(() => {
-    if (gatewayStatus === 'online') {
+    if (gatewayStatus === 'online' && accessGranted) {
       fetchTracks();
       fetchGroups();
     }
-  }, [gatewayStatus, fetchTracks, fetchGroups]);
+  }, [gatewayStatus, accessGranted, fetchTracks, fetchGroups]);
+
+  // Without the gateway, the library is whatever has been downloaded
+  useEffect(() => {
+    if (gatewayStatus !== 'offline') {
+      return;
+    }
+    setTracks(Object.values(downloads));
+    setGroups(
+      Object.values(savedGroups).map((group) => ({
+        ...group,
+        trackIds: group.trackIds.filter((videoId) => downloads[videoId]),
+      }))
+    );
+  }, [gatewayStatus, downloads, savedGroups]);
 
   useEffect(() => {
     if (!autoRefreshEnabled) {
@@ -471,7 +573,7 @@ export default function HomeScreen() {
     }
 
     const refreshAll = () => {
-      if (gatewayStatus === 'online') {
+      if (gatewayStatus === 'online' && accessGranted) {
         fetchTracks();
         fetchGroups();
       }
@@ -480,7 +582,7 @@ export default function HomeScreen() {
     refreshAll();
     const interval = setInterval(refreshAll, 30000);
     return () => clearInterval(interval);
-  }, [gatewayStatus, fetchTracks, fetchGroups, autoRefreshEnabled]);
+  }, [gatewayStatus, accessGranted, fetchTracks, fetchGroups, autoRefreshEnabled]);
 
   useEffect(() => {
     if (!STREAM_BASE_URL || !keepAliveEnabled) {
@@ -488,8 +590,8 @@ export default function HomeScreen() {
     }
 
     const pingHealth = () => {
-      axios
-        .get(`${STREAM_BASE_URL}/healthz`, { timeout: 4000 })
+      api
+        .get('/healthz', { timeout: 4000 })
         .catch((error) => console.warn('Keep-alive ping failed', error));
     };
 
@@ -502,11 +604,6 @@ export default function HomeScreen() {
 
 
 
-  const clearQueue = useCallback(() => {
-    queueStateRef.current = { queue: [], loop: false, index: 0, groupId: null };
-    setActiveGroupId(null);
-  }, []);
-
   const unloadCurrentSound = useCallback(async () => {
     try {
       await TrackPlayer.reset();
@@ -520,44 +617,13 @@ export default function HomeScreen() {
       await TrackPlayer.stop(); // Force stop state
     } catch (_) { }
     await unloadCurrentSound();
-    clearQueue();
+    clearQueueState();
     // Do not clear currentTrackId so we stay in "Stopped" state with a selected track
     setIsStopped(true);
     setMessage(null);
     setSeekValue(0);
     setIsSeeking(false);
-  }, [clearQueue, unloadCurrentSound]);
-
-  const playNextInQueue = useCallback(async () => {
-    const { queue, index, loop } = queueStateRef.current;
-    if (!queue.length) {
-      clearQueue();
-      await TrackPlayer.reset();
-      return;
-    }
-
-    let nextIndex = index + 1;
-    if (nextIndex >= queue.length) {
-      if (loop && queue.length > 0) {
-        nextIndex = 0;
-      } else {
-        clearQueue();
-        await TrackPlayer.reset();
-        setMessage('分组播放结束');
-        return;
-      }
-    }
-
-    queueStateRef.current = {
-      ...queueStateRef.current,
-      index: nextIndex,
-    };
-
-    const initiator = initiatePlaybackRef.current;
-    if (initiator) {
-      await initiator(queue[nextIndex], { fromQueue: true });
-    }
-  }, [clearQueue]);
+  }, [unloadCurrentSound]);
 
   const handlePause = useCallback(async () => {
     try {
@@ -576,34 +642,44 @@ export default function HomeScreen() {
     }
   }, []);
 
-  // Request stream info from Gateway - returns either R2 URL (if cached) or 202 (if caching) or error
-  const requestStreamInfo = useCallback(async (videoId: string) => {
+  // Request stream info from Gateway - returns a playable URL: the cached file (hit)
+  // or the live transcode that is being cached in the background (miss), or an error.
+  // A downloaded track plays from the device without asking the gateway.
+  const requestStreamInfo = useCallback(async (videoId: string): Promise<StreamInfo> => {
+    const localTrack = getLocalTrack(videoId);
+    if (localTrack) {
+      addDebugLog(`Playing download of ${videoId} (${localTrack.quality})`);
+      return { cached: true, caching: false, url: localTrack.uri, quality: localTrack.quality, metadata: localTrack };
+    }
+
     if (!STREAM_BASE_URL) {
       throw new Error('Gateway URL not configured');
     }
 
     try {
-      const response = await axios.get(`${STREAM_BASE_URL}/stream/${encodeURIComponent(videoId)}`);
+      const response = await api.get(`/stream/${encodeURIComponent(videoId)}`, {
+        params: { quality: preferredQuality },
+      });
 
-      if (response.status === 200 && response.data.cached) {
-        // Track is cached - return R2 URL
-        addDebugLog(`Cache HIT for ${videoId}`);
-        return { cached: true, url: response.data.url, metadata: response.data.metadata };
+      if (!response.data?.url) {
+        throw new Error('Unexpected response from stream endpoint');
       }
 
-      if (response.status === 202 || (response.data && !response.data.cached)) {
-        // Track is being cached
-        addDebugLog(`Cache MISS for ${videoId} - caching started`);
-        return { cached: false, caching: true };
+      if (response.data.cached) {
+        addDebugLog(`Cache HIT for ${videoId} (${preferredQuality})`);
+        return {
+          cached: true,
+          caching: false,
+          url: response.data.url,
+          quality: response.data.quality,
+          metadata: response.data.metadata,
+        };
       }
 
-      throw new Error('Unexpected response from stream endpoint');
+      // This rendition is being cached - play the live stream while the upload continues
+      addDebugLog(`Cache MISS for ${videoId} (${preferredQuality}) - streaming while caching`);
+      return { cached: false, caching: true, url: response.data.url, quality: response.data.quality, metadata: null };
     } catch (error: any) {
-      if (error.response?.status === 202) {
-        addDebugLog(`Cache MISS for ${videoId} - caching started`);
-        return { cached: false, caching: true };
-      }
-
       // Check if backend returned a caching error
       if (error.response?.status === 500 && error.response?.data?.error) {
         addDebugLog(`[ERROR] Cache failed for ${videoId}: ${error.response.data.error}`);
@@ -612,188 +688,229 @@ export default function HomeScreen() {
 
       throw error;
     }
-  }, [addDebugLog]);
-
-  // Stop cache polling
-  const stopCachePolling = useCallback(() => {
-    if (cachingPollIntervalRef.current) {
-      clearInterval(cachingPollIntervalRef.current);
-      cachingPollIntervalRef.current = null;
-    }
-    setCachingVideoId(null);
-  }, []);
-
-  const initiatePlayback = useCallback(
-    async (videoId: string, options?: PlaybackOptions) => {
-      console.log('[initiatePlayback] Called with videoId:', videoId, 'options:', options, 'stack:', new Error().stack);
-      addDebugLog(`initiatePlayback: ${videoId}`);
-
-      if (!videoId) {
-        setMessage('请选择要播放的歌曲或输入链接');
+  }, [addDebugLog, getLocalTrack, preferredQuality]);
+
+  // The player fetches audio on its own, so ask the gateway separately whether
+  // the new track is being cached, to show progress and keep seeking off while it's live
+  const followActiveTrack = useCallback(
+    async (index: number | undefined, videoId: string | null) => {
+      setCurrentTrackId(videoId);
+      const libraryTrack = tracks.find((track) => track.videoId === videoId);
+      if (!videoId || getLocalTrack(videoId) || hasCachedRendition(libraryTrack, preferredQuality)) {
+        setCachingVideoId(null);
+        setIsLiveSource(false);
         return;
       }
 
-      if (!STREAM_BASE_URL) {
-        setMessage('未设置后端地址，请在 .env 中配置 EXPO_PUBLIC_STREAM_BASE_URL。');
-        return;
-      }
-
-      if (playerState !== 'idle') {
-        if (options?.fromQueue) {
-          await unloadCurrentSound();
-        } else {
-          await stopPlayback();
+      try {
+        const streamInfo = await requestStreamInfo(videoId);
+        if (streamInfo.error) {
+          setMessage(`缓存失败: ${streamInfo.error}`);
         }
+        setCachingVideoId(streamInfo.caching ? videoId : null);
+        setCachingQuality(streamInfo.quality ?? null);
+        setIsLiveSource(streamInfo.caching);
+
+        // Tracks played from a link are queued before their title is known
+        if (!libraryTrack && streamInfo.metadata && index !== undefined) {
+          await TrackPlayer.updateMetadataForTrack(index, {
+            title: streamInfo.metadata.title,
+            artist: streamInfo.metadata.author,
+            artwork: streamInfo.metadata.thumbnailUrl ?? undefined,
+          });
+        }
+      } catch (error) {
+        console.warn('Failed to check stream status', error);
       }
+    },
+    [tracks, getLocalTrack, preferredQuality, requestStreamInfo]
+  );
 
-      if (!options?.fromQueue) {
-        clearQueue();
-      }
-
+  // Replace TrackPlayer's queue; URLs resolve through the gateway as the player reaches each track.
+  // A shuffled queue without a start index starts anywhere.
+  const playQueue = useCallback(
+    async (
+      items: TrackMetadata[],
+      startIndex: number | undefined,
+      options: { groupId?: string; repeatMode: RepeatMode; shuffle?: boolean }
+    ) => {
       setIsStopped(false);
       setMessage(null);
-
-      if (!options?.fromQueue) {
-        Keyboard.dismiss();
-      }
-
       setSeekValue(0);
       setIsSeeking(false);
 
       try {
-        // First, request stream info to check if track is cached
-        const streamInfo = await requestStreamInfo(videoId);
-
-        if (!streamInfo.cached) {
-          // Track is not cached - start polling for cache completion
-          startCachePolling(videoId);
-          return;
-        }
-
-        // Track is cached - play from R2 URL
-        const metadata = tracks.find((track) => track.videoId === videoId) || streamInfo.metadata;
-
-        await TrackPlayer.reset();
-        await TrackPlayer.add({
-          id: videoId,
-          url: streamInfo.url, // Use R2 signed URL
-          title: metadata?.title ?? videoId,
-          artist: metadata?.author ?? 'Unknown',
-          artwork: metadata?.thumbnailUrl ?? undefined,
-          duration: metadata?.durationSeconds ?? 0,
+        const first = await startQueue(items, {
+          startIndex,
+          groupId: options.groupId,
+          repeatMode: options.repeatMode,
+          shuffle: options.shuffle,
+          quality: preferredQuality,
+          localTrack: getLocalTrack,
         });
-
-        // On mobile, we handle looping manually via PlaybackQueueEnded event (RepeatMode.Track is unreliable with streams)
-        // On web, use RepeatMode.Track as it works fine
-        const shouldLoop = !options?.fromQueue && loopMode === 'single';
-        const repeatMode = Platform.OS === 'web' && shouldLoop ? RepeatMode.Track : RepeatMode.Off;
-        await TrackPlayer.setRepeatMode(repeatMode);
-        addDebugLog(`Track added. LoopMode=${loopMode}, Platform=${Platform.OS}, RepeatMode=${repeatMode === RepeatMode.Track ? 'Track' : 'Off'}, URL=${streamInfo.url.substring(0, 50)}...`);
-
-        await TrackPlayer.play();
-        setCurrentTrackId(videoId);
-
-        addDebugLog(`Playing from R2: ${videoId}`);
+        // TrackPlayer's events about the new queue are ignored until it has loaded
+        await followActiveTrack(getQueueState().activeIndex ?? undefined, first.videoId);
+        addDebugLog(`Queued ${items.length} track(s), starting at ${first.videoId}, RepeatMode=${options.repeatMode}`);
       } catch (error) {
         console.error('Unable to start playback', error);
         addDebugLog(`Playback error: ${error}`);
-        setMessage('播放失败，请稍后重试。');
-        stopCachePolling(); // Stop polling if there was an error
+        setMessage(rateLimitMessage(error) ?? '播放失败，请稍后重试。');
+        setCachingVideoId(null);
       }
     },
-    [
-      loopMode,
-      stopPlayback,
-      clearQueue,
-      playNextInQueue,
-      tracks,
-      requestStreamInfo,
-      // startCachePolling is intentionally omitted to avoid circular dependency
-      // eslint-disable-next-line react-hooks/exhaustive-deps
-      stopCachePolling,
-      addDebugLog,
-    ]
+    [addDebugLog, followActiveTrack, getLocalTrack, preferredQuality]
   );
 
-  // Start polling for cache completion
-  const startCachePolling = useCallback((videoId: string) => {
-    addDebugLog(`Starting cache polling for ${videoId} (interval: ${cachePollingInterval}s)`);
-    setCachingVideoId(videoId);
-    setMessage(`正在缓存音频... (${videoId})`);
+  // Play a track with the rest of the library queued behind it
+  const initiatePlayback = useCallback(
+    async (videoId: string) => {
+      if (!videoId) {
+        setMessage('请选择要播放的歌曲或输入链接');
+        return;
+      }
 
-    // Clear any existing polling interval
-    if (cachingPollIntervalRef.current) {
-      clearInterval(cachingPollIntervalRef.current);
-    }
+      if (!STREAM_BASE_URL && !getLocalTrack(videoId)) {
+        setMessage('未设置后端地址，请在 .env 中配置 EXPO_PUBLIC_STREAM_BASE_URL。');
+        return;
+      }
 
-    // Poll every N seconds to check if track is cached or if caching failed
-    cachingPollIntervalRef.current = setInterval(async () => {
-      try {
-        // First check if caching has failed with an error
-        const streamInfo = await requestStreamInfo(videoId);
+      Keyboard.dismiss();
 
-        if (streamInfo.error) {
-          // Caching failed - stop polling and show error
-          addDebugLog(`[ERROR] Cache failed for ${videoId}: ${streamInfo.error}`);
-          stopCachePolling();
-          setMessage(`缓存失败: ${streamInfo.error}`);
-          return;
-        }
+      const libraryTrack = tracks.find((track) => track.videoId === videoId);
+      const picked = libraryTrack ?? { videoId, title: videoId };
+      const repeatMode = repeatModeFor(loopMode, null);
 
-        // Check if track is now cached
-        const cachedTracks = await axios.get(`${STREAM_BASE_URL}/tracks`);
-        const foundTrack = cachedTracks.data?.tracks?.find((t: TrackMetadata) => t.videoId === videoId);
-
-        if (foundTrack) {
-          addDebugLog(`Cache completed for ${videoId}`);
-          clearInterval(cachingPollIntervalRef.current);
-          cachingPollIntervalRef.current = null;
-          setCachingVideoId(null);
-          setMessage(null);
+      if (loopMode === 'single') {
+        await playQueue([picked], 0, { repeatMode });
+        return;
+      }
+      // Shuffle draws the rest of the library as a shuffle bag
+      const shuffle = loopMode === 'shuffle';
+      // A track from outside the library (link or search result) plays first, then the library
+      if (libraryTrack) {
+        await playQueue(tracks, tracks.indexOf(libraryTrack), { repeatMode, shuffle });
+      } else {
+        await playQueue([picked, ...tracks], 0, { repeatMode, shuffle });
+      }
+    },
+    [tracks, loopMode, playQueue, getLocalTrack]
+  );
 
-          // Refresh tracks list
-          await fetchTracks();
+  // Playback of a cache miss doesn't wait for the upload; the job's progress
+  // events only tell us when the track has landed so the library picks it up.
+  const handleCacheJobFinished = useCallback(async (job: CacheJobProgress) => {
+    setCachingVideoId(null);
+    if (job.phase === 'failed') {
+      addDebugLog(`[ERROR] Cache failed for ${job.videoId}: ${job.error}`);
+      setMessage(`缓存失败: ${job.error ?? '未知错误'}`);
+      return;
+    }
+    addDebugLog(`Cache completed for ${job.videoId}`);
+    await fetchTracks();
+  }, [addDebugLog, fetchTracks]);
+
+  const cacheJob = useCacheJobEvents(cachingVideoId, cachingQuality, handleCacheJobFinished);
+
+  // Re-apply the volume when the setting changes, or when a track that was
+  // still caching at play time gets its loudness measurement
+  // A download plays its own rendition, whatever the network's quality setting is
+  const playingTrack = tracks.find((track) => track.videoId === currentTrackId);
+  const playingQuality = (currentTrackId && getLocalTrack(currentTrackId)?.quality) || preferredQuality;
+  const currentLoudness = playingTrack ? loudnessFor(playingTrack, playingQuality) : null;
+  useEffect(() => {
+    setQueueVolumeNormalization(volumeNormalization).catch((error) => {
+      console.warn('Failed to set volume', error);
+    });
+  }, [volumeNormalization]);
+  useEffect(() => {
+    if (!currentTrackId || !currentLoudness) {
+      return;
+    }
+    setActiveTrackLoudness(currentLoudness).catch((error) => {
+      console.warn('Failed to set volume', error);
+    });
+  }, [currentTrackId, currentLoudness]);
+  useEffect(() => {
+    setQueueCrossfade(crossfadeSeconds).catch((error) => {
+      console.warn('Failed to set crossfade', error);
+    });
+  }, [crossfadeSeconds]);
+  useEffect(() => {
+    setShuffleWeighting(weightedShuffle);
+  }, [weightedShuffle]);
 
-          // Now play the cached track
-          await initiatePlayback(videoId, { skipCacheCheck: true });
-        } else {
-          addDebugLog(`Still caching ${videoId}...`);
+  // Bring back the last session, paused, once the player is set up and the
+  // library has loaded. Tracks deleted from the gateway since are left out;
+  // when the gateway can't be reached nothing is, since nothing can be re-cached.
+  useEffect(() => {
+    if (!isPlayerReady || libraryStatus === 'loading' || sessionRestoreStartedRef.current) {
+      return;
+    }
+    sessionRestoreStartedRef.current = true;
+    const libraryIds = new Set(tracks.map((track) => track.videoId));
+    restoreQueue(
+      {
+        quality: preferredQuality,
+        localTrack: getLocalTrack,
+      },
+      (videoId) => libraryStatus !== 'loaded' || libraryIds.has(videoId) || Boolean(getLocalTrack(videoId))
+    )
+      .then((restored) => {
+        if (!restored) {
+          return;
         }
-      } catch (error) {
-        console.error('Failed to poll cache status', error);
-      }
-    }, cachePollingInterval * 1000);
-  }, [cachePollingInterval, addDebugLog, fetchTracks, initiatePlayback, requestStreamInfo, stopCachePolling]);
+        const { state, position, activeTrackMissing, missingCount } = restored;
+        if (state.activeIndex !== null) {
+          followActiveTrack(state.activeIndex, state.items[state.activeIndex].videoId);
+        }
+        setLoopMode(state.repeatMode === RepeatMode.Track ? 'single' : state.shuffle ? 'shuffle' : 'off');
+        if (state.groupId) {
+          setGroupLoopEnabled(state.repeatMode !== RepeatMode.Off);
+        }
+        if (activeTrackMissing) {
+          setMessage('上次播放的歌曲已被删除，已切换到下一首。');
+        } else if (missingCount) {
+          setMessage(`播放队列中有 ${missingCount} 首歌曲已被删除，已移除。`);
+        }
+        addDebugLog(`Restored session: ${state.items.length} track(s), index ${state.activeIndex} at ${Math.round(position)}s`);
+      })
+      .catch((error) => {
+        console.warn('Failed to restore the last session', error);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only once, with the library and quality as they are at launch
+  }, [isPlayerReady, libraryStatus]);
 
-  // Cleanup polling on unmount
-  useEffect(() => {
-    return () => {
-      if (cachingPollIntervalRef.current) {
-        clearInterval(cachingPollIntervalRef.current);
+  useTrackPlayerEvents([Event.PlaybackQueueEnded, Event.PlaybackError, Event.PlaybackState, Event.PlaybackActiveTrackChanged], async (event) => {
+    if (event.type === Event.PlaybackActiveTrackChanged) {
+      if (!isCurrentQueueTrack(event.track)) {
+        return;
       }
-    };
-  }, []);
-
-  // Handle queue completion manually via event since we are managing the queue state manually for now
-  useTrackPlayerEvents([Event.PlaybackQueueEnded, Event.PlaybackError, Event.PlaybackState, Event.PlaybackTrackChanged], async (event) => {
-    if (event.type === Event.PlaybackTrackChanged) {
-      const trackId = typeof event.track === 'object' && event.track !== null ? (event.track as any).id : event.track;
-      const nextTrackId = typeof event.nextTrack === 'object' && event.nextTrack !== null ? (event.nextTrack as any).id : event.nextTrack;
-      addDebugLog(`TrackChanged: ${trackId}, Index: ${(event as any).index}, NextTrack: ${nextTrackId}`);
-      console.log('Track changed:', event);
+      const videoId = event.track?.id ?? null;
+      addDebugLog(`ActiveTrackChanged: ${videoId}, Index: ${event.index}`);
+      // The playback service keeps the queue state in step
+      await followActiveTrack(event.index, videoId);
+      return;
     }
+
     if (event.type === Event.PlaybackError) {
       console.warn('Playback Error:', event);
       addDebugLog(`Error: ${event.message} (${event.code})`);
-      setMessage(`播放出错: ${event.message || '未知错误'}`);
+      const reason = event.message || '未知错误';
 
-      // Stop playback on error to prevent infinite retries
+      // The track is tried again, then skipped; the queue only stops when that keeps failing
       try {
-        await TrackPlayer.reset();
-        setCurrentTrackId(null);
-        clearQueue();
+        const outcome = await recoverFromPlaybackError();
+        addDebugLog(`Playback error handled: ${outcome}`);
+        if (outcome === 'skipped') {
+          setMessage(`播放出错，已跳到下一首: ${reason}`);
+        } else if (outcome === 'stopped') {
+          setMessage(`播放出错: ${reason}`);
+          await TrackPlayer.reset();
+          setCurrentTrackId(null);
+          clearQueueState();
+        }
       } catch (err) {
-        console.warn('Failed to reset player after error', err);
+        console.warn('Failed to recover from the playback error', err);
       }
       return;
     }
@@ -803,95 +920,16 @@ export default function HomeScreen() {
       addDebugLog(`State: ${event.state}`);
     }
 
+    // Only reached when nothing repeats, i.e. a group played through with group loop off
     if (event.type === Event.PlaybackQueueEnded) {
       addDebugLog(`QueueEnded (LoopMode: ${loopMode})`);
-      console.log('Queue ended. LoopMode:', loopMode, 'Queue:', queueStateRef.current.queue.length);
-
-      // Handle group queue playback
-      if (queueStateRef.current.queue.length) {
-        playNextInQueue();
-        return;
-      }
-
-      // For single track loop on mobile, we need to fully reset and re-add the track
-      // seekTo(0) doesn't work reliably with streaming URLs on mobile
-      if (loopMode === 'single' && currentTrackId) {
-        console.log('Looping single track - doing full reset');
-        addDebugLog('Looping: Reloading track...');
-
-        const metadata = tracks.find((track) => track.videoId === currentTrackId);
-        if (metadata) {
-          try {
-            // Request stream info to get R2 URL (should be cached since we just played it)
-            const streamInfo = await requestStreamInfo(currentTrackId);
-
-            if (!streamInfo.cached) {
-              addDebugLog('Warning: Track not cached during loop, will wait for caching');
-              return;
-            }
-
-            await TrackPlayer.reset();
-            await TrackPlayer.add({
-              id: currentTrackId,
-              url: streamInfo.url, // Use R2 signed URL
-              title: metadata.title,
-              artist: metadata.author,
-              artwork: metadata.thumbnailUrl ?? undefined,
-              duration: metadata.durationSeconds ?? 0,
-            });
-            await TrackPlayer.play();
-            addDebugLog('Looping: Track reloaded and playing from R2');
-          } catch (error) {
-            console.error('Failed to loop track', error);
-            addDebugLog(`Loop error: ${error}`);
-          }
-        }
-        return;
-      }
-
-      // Shuffle Loop Logic
-      if (loopMode === 'shuffle' && tracks.length > 0) {
-        addDebugLog('Shuffle: Selecting random track...');
-
-        // Filter out current track if possible to avoid immediate repeat, unless it's the only one
-        const availableTracks = tracks.length > 1
-          ? tracks.filter(t => t.videoId !== currentTrackId)
-          : tracks;
-
-        const randomIndex = Math.floor(Math.random() * availableTracks.length);
-        const nextTrack = availableTracks[randomIndex];
-
-        if (nextTrack) {
-          const initiator = initiatePlaybackRef.current;
-          if (initiator) {
-            // We treat this like a new playback initiation
-            initiator(nextTrack.videoId).catch((error) =>
-              console.warn('Shuffle playback failed', error)
-            );
-          }
-        }
-        return;
-      }
-
-      // Track finished and no loop enabled
-      if (loopMode === 'off') {
-        setMessage('播放完成');
-        setCurrentTrackId(null);
-        clearQueue();
-
-        // Auto-play next track from library if available
-        autoPlayLibraryTrack(currentTrackId);
-      }
+      setMessage(activeGroupId ? '分组播放结束' : '播放完成');
+      setCurrentTrackId(null);
+      setCachingVideoId(null);
+      clearQueueState();
     }
   });
 
-  useEffect(() => {
-    initiatePlaybackRef.current = initiatePlayback;
-  }, [initiatePlayback]);
-
-  // Note: We rely on PlaybackQueueEnded event for looping, not progress monitoring
-  // Progress monitoring was causing false triggers (restarting in middle of playback)
-
   const handlePlay = async () => {
     const targetId = parsedVideoId || currentTrackId;
 
@@ -903,8 +941,10 @@ export default function HomeScreen() {
     await initiatePlayback(targetId);
   };
 
+  // Applies to the queue that is playing: shuffle turns what follows the current
+  // track into a shuffle bag of its group or library
   const handleLoopToggle = async () => {
-    let nextMode: 'off' | 'single' | 'shuffle' = 'off';
+    let nextMode: LoopMode = 'off';
     if (loopMode === 'off') nextMode = 'single';
     else if (loopMode === 'single') nextMode = 'shuffle';
     else nextMode = 'off';
@@ -912,24 +952,47 @@ export default function HomeScreen() {
     setLoopMode(nextMode);
     addDebugLog(`Loop toggle: ${nextMode} (platform: ${Platform.OS})`);
     try {
-      // On mobile, we handle looping manually based on 'single' mode
-      // For shuffle, repeatMode should be Off because we handle queueing manually
-      const repeatMode = Platform.OS === 'web' && nextMode === 'single' ? RepeatMode.Track : RepeatMode.Off;
-      await TrackPlayer.setRepeatMode(repeatMode);
-      const currentMode = await TrackPlayer.getRepeatMode();
-      addDebugLog(`RepeatMode: ${currentMode} (mobile uses PlaybackQueueEnded event)`);
+      await setQueueRepeatMode(repeatModeFor(nextMode, activeGroupId ? groupLoopEnabled : null));
+      await setQueueShuffle(nextMode === 'shuffle');
     } catch (error) {
       console.warn('Unable to toggle loop', error);
       addDebugLog(`Loop toggle error: ${error}`);
     }
   };
 
+  const handleGroupLoopToggle = async () => {
+    const nextEnabled = !groupLoopEnabled;
+    setGroupLoopEnabled(nextEnabled);
+    if (!activeGroupId) {
+      return;
+    }
+    try {
+      await setQueueRepeatMode(repeatModeFor(loopMode, nextEnabled));
+    } catch (error) {
+      console.warn('Unable to toggle group loop', error);
+    }
+  };
+
   const toggleTrackSelection = (videoId: string) => {
     setSelectedTrackIds((prev) =>
       prev.includes(videoId) ? prev.filter((id) => id !== videoId) : [...prev, videoId]
     );
   };
 
+  const {
+    report: playlistImport,
+    isStarting: isStartingImport,
+    error: playlistImportError,
+    startImport: startPlaylistImport,
+    dismiss: dismissPlaylistImport,
+  } = usePlaylistImport(
+    useCallback(() => {
+      // The group exists as soon as the import starts; tracks show up as they finish caching
+      fetchGroups();
+      fetchTracks();
+    }, [fetchGroups, fetchTracks])
+  );
+
   const handleCreateGroup = useCallback(async () => {
     if (!newGroupName.trim()) {
       setMessage('请填写分组名称');
@@ -947,7 +1010,7 @@ export default function HomeScreen() {
     }
 
     try {
-      await axios.post(`${STREAM_BASE_URL}/groups`, {
+      await api.post('/groups', {
         name: newGroupName.trim(),
         trackIds: selectedTrackIds,
       });
@@ -970,8 +1033,8 @@ export default function HomeScreen() {
       }
 
       try {
-        await axios.delete(`${STREAM_BASE_URL}/groups/${groupId}`);
-        if (queueStateRef.current.groupId === groupId) {
+        await api.delete(`/groups/${groupId}`);
+        if (activeGroupId === groupId) {
           await stopPlayback();
           setCurrentTrackId(null);
         }
@@ -981,29 +1044,39 @@ export default function HomeScreen() {
         setMessage('删除分组失败');
       }
     },
-    [fetchGroups, stopPlayback]
+    [fetchGroups, stopPlayback, activeGroupId]
   );
 
-  const handleUpdateGroup = useCallback(async (groupId: string, name: string, trackIds: string[]) => {
-    if (!STREAM_BASE_URL) {
-      setMessage('Backend not configured');
-      return;
-    }
-    try {
-      await axios.put(`${STREAM_BASE_URL}/groups/${groupId}`, {
-        name,
-        trackIds
-      });
-      fetchGroups();
-      // Update the currently viewing group to reflect changes immediately in UI if needed,
-      // but fetchGroups should handle it. However, fetchGroups is async.
-      // We can also optimize by updating the local state.
-      setViewingGroup(prev => prev ? { ...prev, trackIds } : null);
-    } catch (error) {
-      console.error('Failed to update group', error);
-      setMessage('Failed to update group');
-    }
-  }, [fetchGroups]);
+  const handleUpdateGroup = useCallback(
+    async (groupId: string, name: string, trackIds: string[], version?: number): Promise<GroupUpdateResult> => {
+      if (!STREAM_BASE_URL) {
+        setMessage('Backend not configured');
+        return { ok: false };
+      }
+      try {
+        const response = await api.put<GroupMetadata>(
+          `/groups/${groupId}`,
+          { name, trackIds },
+          { headers: version != null ? { 'If-Match': `"${version}"` } : undefined }
+        );
+        setViewingGroup(response.data);
+        fetchGroups();
+        return { ok: true };
+      } catch (error) {
+        if (isAxiosError(error) && error.response?.status === 409) {
+          // Someone else edited the group first; show their version and let the modal offer a merge
+          const current = (error.response.data as { current: GroupMetadata }).current;
+          setViewingGroup(current);
+          fetchGroups();
+          return { ok: false, conflict: current };
+        }
+        console.error('Failed to update group', error);
+        setMessage('Failed to update group');
+        return { ok: false };
+      }
+    },
+    [fetchGroups]
+  );
 
   const handleTrackPlay = useCallback(
     async (videoId: string) => {
@@ -1029,7 +1102,7 @@ export default function HomeScreen() {
     setSearchError(null);
 
     try {
-      const response = await axios.get(`${STREAM_BASE_URL}/search`, {
+      const response = await api.get('/search', {
         params: { q: trimmed },
       });
       const results = response.data?.results ?? [];
@@ -1039,7 +1112,7 @@ export default function HomeScreen() {
       }
     } catch (error) {
       console.error('搜索 YouTube 失败', error);
-      setSearchError('搜索失败，请稍后再试');
+      setSearchError(rateLimitMessage(error) ?? '搜索失败，请稍后再试');
     } finally {
       setSearchLoading(false);
     }
@@ -1057,6 +1130,17 @@ export default function HomeScreen() {
       return;
     }
 
+    // Playlist links without a specific video import the whole list
+    if (parsedPlaylistId && !parsedVideoId) {
+      if (!canCurate) {
+        setMessage('当前访问码不能导入播放列表');
+        return;
+      }
+      await startPlaylistImport(trimmed, preferredQuality);
+      setYoutubeInput('');
+      return;
+    }
+
     if (parsedVideoId) {
       await initiatePlayback(parsedVideoId);
       setYoutubeInput(''); // Clear search input when playing
@@ -1064,7 +1148,7 @@ export default function HomeScreen() {
     }
 
     await handleSearch(trimmed);
-  }, [youtubeInput, parsedVideoId, initiatePlayback, handleSearch]);
+  }, [youtubeInput, parsedVideoId, parsedPlaylistId, canCurate, startPlaylistImport, preferredQuality, initiatePlayback, handleSearch]);
 
   const handleSearchResultSelect = useCallback(
     async (result: YouTubeSearchResult) => {
@@ -1093,7 +1177,8 @@ export default function HomeScreen() {
       }
 
       try {
-        await axios.delete(`${STREAM_BASE_URL}/tracks/${videoId}`);
+        await api.delete(`/tracks/${videoId}`);
+        removeDownload(videoId);
         setSelectedTrackIds((prev) => prev.filter((id) => id !== videoId));
         if (currentTrackId === videoId) {
           await stopPlayback();
@@ -1107,7 +1192,7 @@ export default function HomeScreen() {
         setMessage('删除曲目失败');
       }
     },
-    [fetchGroups, fetchTracks, stopPlayback, currentTrackId]
+    [fetchGroups, fetchTracks, stopPlayback, currentTrackId, removeDownload]
   );
 
   const handleGroupPlayback = useCallback(
@@ -1123,18 +1208,87 @@ export default function HomeScreen() {
         return;
       }
 
-      queueStateRef.current = {
-        queue: group.trackIds,
-        loop: groupLoopEnabled,
-        index: 0,
+      if (!STREAM_BASE_URL) {
+        setMessage('未设置后端地址，请在 .env 中配置 EXPO_PUBLIC_STREAM_BASE_URL。');
+        return;
+      }
+
+      // Group members missing from the library (e.g. still caching) are queued by id
+      const items = group.trackIds.map(
+        (videoId) => tracks.find((track) => track.videoId === videoId) ?? { videoId, title: videoId }
+      );
+      const shuffle = loopMode === 'shuffle';
+      await playQueue(items, shuffle ? undefined : 0, {
         groupId: group.id,
-      };
-      setActiveGroupId(group.id);
-      await initiatePlayback(group.trackIds[0], { fromQueue: true });
+        repeatMode: repeatModeFor(loopMode, groupLoopEnabled),
+        shuffle,
+      });
     },
-    [groups, groupLoopEnabled, initiatePlayback]
+    [groups, tracks, loopMode, groupLoopEnabled, playQueue]
   );
 
+  // An empty queue starts with the track instead
+  const handleEnqueue = async (track: TrackMetadata, position: 'next' | 'end') => {
+    setQueueMenuTrackId(null);
+    if (!playbackQueue.items.length) {
+      await playQueue([track], 0, { repeatMode: repeatModeFor(loopMode, null) });
+      return;
+    }
+    try {
+      await enqueue([track], position);
+      setMessage(position === 'next' ? `下一首播放：${track.title}` : `已添加到播放队列：${track.title}`);
+    } catch (error) {
+      console.warn('Failed to update the queue', error);
+      setMessage('添加到播放队列失败。');
+    }
+  };
+
+  const renderQueueMenu = (track: TrackMetadata) => (
+    <Menu
+      visible={queueMenuTrackId === track.videoId}
+      onDismiss={() => setQueueMenuTrackId(null)}
+      anchor={<IconButton icon="playlist-plus" size={20} iconColor="white" onPress={() => setQueueMenuTrackId(track.videoId)} />}
+    >
+      <Menu.Item leadingIcon="playlist-play" title="Play next" onPress={() => handleEnqueue(track, 'next')} />
+      <Menu.Item leadingIcon="playlist-plus" title="Add to queue" onPress={() => handleEnqueue(track, 'end')} />
+    </Menu>
+  );
+
+  const renderFavouriteButton = (track: TrackMetadata) => (
+    <IconButton
+      icon={favourites.has(track.videoId) ? 'heart' : 'heart-outline'}
+      size={20}
+      iconColor="white"
+      onPress={() => {
+        toggleFavourite(track.videoId).catch((error) => {
+          console.warn('Failed to update favourites', error);
+        });
+      }}
+    />
+  );
+
+  // Tap to download for offline playback, tap again to remove the copy from the device
+  const renderDownloadButton = (track: TrackMetadata) => {
+    if (!offlineSupported) {
+      return null;
+    }
+    const status = downloadStatuses[track.videoId];
+    if (status === 'queued' || status === 'downloading') {
+      return <IconButton icon="progress-download" size={20} iconColor="white" disabled />;
+    }
+    if (downloads[track.videoId]) {
+      return <IconButton icon="download-circle" size={20} iconColor={StatusColors.success} onPress={() => removeDownload(track.videoId)} />;
+    }
+    return (
+      <IconButton
+        icon={status === 'failed' ? 'download-off-outline' : 'download-outline'}
+        size={20}
+        iconColor={status === 'failed' ? StatusColors.error : 'white'}
+        onPress={() => downloadTrack(track, preferredQuality)}
+      />
+    );
+  };
+
   const sliderMax = progress.duration > 0 ? progress.duration * 1000 : 1;
   const displayedPosition = isSeeking ? seekValue : progress.position * 1000;
   const sliderValue = progress.duration > 0 ? Math.min(displayedPosition, sliderMax) : 0;
@@ -1180,7 +1334,7 @@ export default function HomeScreen() {
                     }
                     handlePrimaryAction();
                   }}
-                  returnKeyType={parsedVideoId ? 'go' : 'search'}
+                  returnKeyType={parsedVideoId || parsedPlaylistId ? 'go' : 'search'}
                   multiline={false}
                   style={styles.input}
                   textColor="white"
@@ -1193,7 +1347,7 @@ export default function HomeScreen() {
                   }}
                   right={
                     <TextInput.Icon
-                      icon={parsedVideoId ? 'play' : 'magnify'}
+                      icon={parsedVideoId ? 'play' : parsedPlaylistId ? 'playlist-plus' : 'magnify'}
                       onPress={() => {
                         if (!STREAM_BASE_URL || searchLoading) {
                           return;
@@ -1206,6 +1360,54 @@ export default function HomeScreen() {
                   }
                 />
 
+                {canCurate && parsedPlaylistId && parsedVideoId && (
+                  <Button
+                    mode="outlined"
+                    icon="playlist-plus"
+                    onPress={async () => {
+                      await startPlaylistImport(youtubeInput.trim(), preferredQuality);
+                      setYoutubeInput('');
+                    }}
+                    loading={isStartingImport}
+                    disabled={isStartingImport}
+                    textColor={TextColors.primary}
+                    style={styles.importButton}
+                  >
+                    导入整个播放列表
+                  </Button>
+                )}
+
+                {playlistImportError ? (
+                  <Text variant="bodySmall" style={[styles.searchErrorText, { color: theme.colors.error }]}>
+                    {playlistImportError}
+                  </Text>
+                ) : null}
+
+                {playlistImport && (
+                  <View style={styles.importStatus}>
+                    {!playlistImport.finished && (
+                      <PaperActivityIndicator animating size="small" color={theme.colors.primary} />
+                    )}
+                    <View style={{ flex: 1 }}>
+                      <Text variant="titleSmall" numberOfLines={1} style={{ color: TextColors.primary }}>
+                        {playlistImport.finished ? '导入完成' : '正在导入'}：{playlistImport.title} ➜ {playlistImport.groupName}
+                      </Text>
+                      <Text variant="bodySmall" style={{ color: TextColors.secondary }}>
+                        已缓存 {playlistImport.summary.cached}/{playlistImport.summary.total}
+                        {playlistImport.summary.failed ? `，失败 ${playlistImport.summary.failed}` : ''}
+                        {playlistImport.summary.unavailable ? `，不可用 ${playlistImport.summary.unavailable}` : ''}
+                      </Text>
+                    </View>
+                    <IconButton
+                      icon="close"
+                      size={18}
+                      iconColor={theme.colors.onSurfaceVariant}
+                      onPress={dismissPlaylistImport}
+                      style={{ margin: 0 }}
+                    />
+                  </View>
+                )}
+
                 {searchError ? (
                   <Text variant="bodySmall" style={[styles.searchErrorText, { color: theme.colors.error }]}>
                     {searchError}
@@ -1289,17 +1491,28 @@ export default function HomeScreen() {
 
                 {cachingVideoId && (
                   <View style={styles.cachingIndicator}>
-                    <PaperActivityIndicator animating={true} size="large" color={theme.colors.primary} />
-                    <Text variant="titleMedium" style={{ color: TextColors.primary, marginTop: 12 }}>
-                      正在缓存音频...
-                    </Text>
-                    <Text variant="bodySmall" style={{ color: TextColors.secondary, marginTop: 4 }}>
-                      请稍候，首次播放需要下载并转码
-                    </Text>
+                    <PaperActivityIndicator animating={true} size="small" color={theme.colors.primary} />
+                    <View style={{ flex: 1 }}>
+                      <Text variant="titleSmall" style={{ color: TextColors.primary }}>
+                        {cacheJob?.phase === 'queued' && cacheJob.lastError
+                          ? '缓存失败，等待重试...'
+                          : cacheJob ? CACHE_PHASE_LABELS[cacheJob.phase] : '正在缓存音频...'}
+                        {cacheJob?.percent != null ? ` ${Math.round(cacheJob.percent)}%` : ''}
+                      </Text>
+                      <Text variant="bodySmall" style={{ color: TextColors.secondary }}>
+                        首次播放边下载边播放，缓存完成前无法拖动进度
+                      </Text>
+                      <ProgressBar
+                        progress={(cacheJob?.percent ?? 0) / 100}
+                        indeterminate={cacheJob?.percent == null}
+                        color={theme.colors.primary}
+                        style={{ marginTop: Spacing.xs }}
+                      />
+                    </View>
                   </View>
                 )}
 
-                {!cachingVideoId && (parsedVideoId || currentTrackId) && (
+                {(parsedVideoId || currentTrackId) && (
                   <View style={styles.controls}>
                     <IconButton
                       icon="play"
@@ -1336,7 +1549,7 @@ export default function HomeScreen() {
                   </View>
                 )}
 
-                {playerState !== 'idle' && !cachingVideoId && (
+                {playerState !== 'idle' && (
                   <Text variant="labelSmall" style={{ textAlign: 'center', marginTop: 10 }}>
                     {PLAYER_STATE_COPY[playerState]}
                   </Text>
@@ -1352,7 +1565,7 @@ export default function HomeScreen() {
                       minimumTrackTintColor={theme.colors.primary}
                       maximumTrackTintColor={theme.colors.surfaceVariant}
                       thumbTintColor={theme.colors.primary}
-                      disabled={progress.duration <= 0}
+                      disabled={progress.duration <= 0 || isLiveSource}
                       onSlidingStart={(value) => {
                         setIsSeeking(true);
                         setSeekValue(value ?? 0);
@@ -1420,12 +1633,19 @@ export default function HomeScreen() {
                               <Card.Content style={styles.trackItemContent}>
                                 <View style={{ flex: 1 }}>
                                   <Text variant="titleSmall" numberOfLines={1} style={{ color: TextColors.primary }}>{item.title}</Text>
-                                  <Text variant="bodySmall" style={{ color: TextColors.secondary }}>{item.author} · {formatDuration(item.durationSeconds)}</Text>
+                                  <Text variant="bodySmall" style={{ color: TextColors.secondary }}>{item.author} · {formatDuration(item.durationSeconds)}{formatPlayCount(item.playCount)}</Text>
                                 </View>
                                 <View style={styles.trackActions}>
                                   <IconButton icon="play-circle" size={20} iconColor="white" onPress={() => handleTrackPlay(item.videoId)} />
-                                  <IconButton icon={selected ? "check-circle" : "circle-outline"} size={20} iconColor="white" onPress={() => toggleTrackSelection(item.videoId)} />
-                                  <IconButton icon="delete" size={20} iconColor="white" onPress={() => handleDeleteTrack(item.videoId)} />
+                                  {renderQueueMenu(item)}
+                                  {renderFavouriteButton(item)}
+                                  {canCurate && (
+                                    <IconButton icon={selected ? "check-circle" : "circle-outline"} size={20} iconColor="white" onPress={() => toggleTrackSelection(item.videoId)} />
+                                  )}
+                                  {renderDownloadButton(item)}
+                                  {canDeleteTracks && (
+                                    <IconButton icon="delete" size={20} iconColor="white" onPress={() => handleDeleteTrack(item.videoId)} />
+                                  )}
                                 </View>
                               </Card.Content>
                             </Card>
@@ -1462,12 +1682,19 @@ export default function HomeScreen() {
                                   <Card.Content style={styles.trackItemContent}>
                                     <View style={{ flex: 1 }}>
                                       <Text variant="titleSmall" numberOfLines={1} style={{ color: TextColors.primary }}>{item.title}</Text>
-                                      <Text variant="bodySmall" style={{ color: TextColors.secondary }}>{item.author} · {formatDuration(item.durationSeconds)}</Text>
+                                      <Text variant="bodySmall" style={{ color: TextColors.secondary }}>{item.author} · {formatDuration(item.durationSeconds)}{formatPlayCount(item.playCount)}</Text>
                                     </View>
                                     <View style={styles.trackActions}>
                                       <IconButton icon="play-circle" size={20} iconColor="white" onPress={() => handleTrackPlay(item.videoId)} />
-                                      <IconButton icon={selected ? "check-circle" : "circle-outline"} size={20} iconColor="white" onPress={() => toggleTrackSelection(item.videoId)} />
-                                      <IconButton icon="delete" size={20} iconColor="white" onPress={() => handleDeleteTrack(item.videoId)} />
+                                      {renderQueueMenu(item)}
+                                      {renderFavouriteButton(item)}
+                                      {canCurate && (
+                                        <IconButton icon={selected ? "check-circle" : "circle-outline"} size={20} iconColor="white" onPress={() => toggleTrackSelection(item.videoId)} />
+                                      )}
+                                      {renderDownloadButton(item)}
+                                      {canDeleteTracks && (
+                                        <IconButton icon="delete" size={20} iconColor="white" onPress={() => handleDeleteTrack(item.videoId)} />
+                                      )}
                                       <Pressable onLongPress={drag} delayLongPress={0} disabled={isActive} hitSlop={20} style={{ padding: 8 }}>
                                         <MaterialCommunityIcons name="drag" size={24} color="rgba(255,255,255,0.5)" />
                                       </Pressable>
@@ -1482,11 +1709,11 @@ export default function HomeScreen() {
                     </View>
                   )
                 )}
-                <Text style={styles.hint}>Selected: {selectedTrackIds.length}</Text>
+                {canCurate && <Text style={styles.hint}>Selected: {selectedTrackIds.length}</Text>}
               </View>
             </BlurView>
 
-            {selectedTrackIds.length > 0 && (
+            {canCurate && selectedTrackIds.length > 0 && (
               <BlurView intensity={20} tint="dark" style={styles.glassCard}>
                 <View style={styles.sectionHeader}>
                   <Text style={styles.sectionTitle}>Create Group</Text>
@@ -1537,12 +1764,23 @@ export default function HomeScreen() {
                           </View>
                           <View style={styles.trackActions}>
                             <IconButton icon="play" iconColor="white" onPress={() => handleGroupPlayback(group.id)} />
-                            <IconButton icon="playlist-edit" iconColor="white" onPress={() => setViewingGroup(group)} />
-                            <IconButton icon="delete" iconColor="white" onPress={() => handleDeleteGroup(group.id)} />
+                            {canCurate && (
+                              <IconButton icon="playlist-edit" iconColor="white" onPress={() => setViewingGroup(group)} />
+                            )}
+                            {offlineSupported && (
+                              savedGroups[group.id] ? (
+                                <IconButton icon="download-circle" iconColor={StatusColors.success} onPress={() => removeGroup(group.id)} />
+                              ) : (
+                                <IconButton icon="download-outline" iconColor="white" onPress={() => downloadGroup(group, tracks, preferredQuality)} />
+                              )
+                            )}
+                            {canCurate && (
+                              <IconButton icon="delete" iconColor="white" onPress={() => handleDeleteGroup(group.id)} />
+                            )}
                             <IconButton
                               icon={groupLoopEnabled ? "repeat" : "repeat-off"}
                               iconColor="white"
-                              onPress={() => setGroupLoopEnabled(!groupLoopEnabled)}
+                              onPress={handleGroupLoopToggle}
                             />
                           </View>
                         </Card.Content>
@@ -1665,6 +1903,16 @@ const styles = StyleSheet.create({
   searchErrorText: {
     marginTop: 4,
   },
+  importButton: {
+    marginTop: Spacing.sm,
+    borderColor: BorderColors.subtle,
+  },
+  importStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
   albumContainer: {
     alignItems: 'center',
     marginVertical: 20,
@@ -1715,10 +1963,11 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.xl,
   },
   cachingIndicator: {
+    flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    paddingVertical: Spacing.xl,
-    marginBottom: Spacing.xl,
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
   },
   sliderContainer: {
     marginTop: 10,
@@ -0,0 +1,217 @@
+import { FlatList, Platform, Pressable, StyleSheet, View } from 'react-native';
+import { Button, Card, IconButton, Text, useTheme } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import DraggableFlatList, { ScaleDecorator, RenderItemParams } from 'react-native-draggable-flatlist';
+import { BlurView } from 'expo-blur';
+
+import { TextColors, SurfaceColors, BorderColors, Spacing, BorderRadius } from '@/constants/theme';
+import { AppBackground } from '@/components/AppBackground';
+import { usePlaybackQueue } from '@/hooks/use-playback-queue';
+import {
+  clearUpcoming,
+  moveInQueue,
+  playQueueItem,
+  removeFromQueue,
+  type QueueItem,
+} from '@/lib/playback-queue';
+
+type QueueRow = QueueItem & {
+  // Position in the player's queue; the same track can be queued twice
+  index: number;
+};
+
+const formatDuration = (seconds?: number | null) => {
+  if (!seconds && seconds !== 0) {
+    return '--:--';
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+function runQueueAction(action: () => Promise<unknown>) {
+  action().catch((error) => {
+    console.warn('Queue update failed', error);
+  });
+}
+
+/**
+ * What TrackPlayer will play, in order: tap a track to jump to it, drag it
+ * (arrows on web) to reorder, or remove it. "Play next" and "Add to queue" are
+ * on the home screen's track list.
+ */
+export default function QueueScreen() {
+  const theme = useTheme();
+  const { items, activeIndex, groupId, shuffle } = usePlaybackQueue();
+  const rows: QueueRow[] = items.map((item, index) => ({ ...item, index }));
+  const upcomingCount = activeIndex === null ? 0 : items.length - activeIndex - 1;
+
+  const renderRow = (item: QueueRow, drag?: () => void, isDragging = false) => {
+    const playing = item.index === activeIndex;
+    return (
+      <Card
+        mode="contained"
+        style={[
+          styles.trackItem,
+          playing && { borderColor: theme.colors.primary, borderWidth: 1 },
+          isDragging && { opacity: 0.7, backgroundColor: 'rgba(255,255,255,0.1)' },
+        ]}
+      >
+        <Card.Content style={styles.trackItemContent}>
+          <Pressable style={{ flex: 1 }} onPress={() => runQueueAction(() => playQueueItem(item.index))}>
+            <Text variant="titleSmall" numberOfLines={1} style={{ color: TextColors.primary }}>
+              {item.title}
+            </Text>
+            <Text variant="bodySmall" style={{ color: TextColors.secondary }}>
+              {playing ? 'Now playing · ' : ''}{item.author ?? 'Unknown'} · {formatDuration(item.durationSeconds)}
+            </Text>
+          </Pressable>
+          <View style={styles.trackActions}>
+            {Platform.OS === 'web' && (
+              <>
+                <IconButton
+                  icon="arrow-up"
+                  size={20}
+                  iconColor="white"
+                  disabled={item.index === 0}
+                  onPress={() => runQueueAction(() => moveInQueue(item.index, item.index - 1))}
+                />
+                <IconButton
+                  icon="arrow-down"
+                  size={20}
+                  iconColor="white"
+                  disabled={item.index === items.length - 1}
+                  onPress={() => runQueueAction(() => moveInQueue(item.index, item.index + 1))}
+                />
+              </>
+            )}
+            {!playing && (
+              <IconButton
+                icon="close"
+                size={20}
+                iconColor="white"
+                onPress={() => runQueueAction(() => removeFromQueue(item.index))}
+              />
+            )}
+            {drag && (
+              <Pressable onLongPress={drag} delayLongPress={0} disabled={isDragging} hitSlop={20} style={{ padding: 8 }}>
+                <MaterialCommunityIcons name="drag" size={24} color="rgba(255,255,255,0.5)" />
+              </Pressable>
+            )}
+          </View>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: 'black' }}>
+      <AppBackground style={{ position: 'absolute', width: '100%', height: '100%' }} />
+      <View style={styles.content}>
+        <Text style={styles.heading}>Up Next</Text>
+        <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>
+              {items.length
+                ? `${upcomingCount} upcoming${groupId ? ' · group' : ''}${shuffle ? ' · shuffle' : ''}`
+                : 'Queue is empty'}
+            </Text>
+            {items.length > 1 && (
+              <Button mode="text" textColor="white" onPress={() => runQueueAction(clearUpcoming)}>
+                Clear
+              </Button>
+            )}
+          </View>
+          {!items.length ? (
+            <Text style={styles.hint}>Play a track or a group, or add tracks from the home screen.</Text>
+          ) : Platform.OS === 'web' ? (
+            <FlatList
+              data={rows}
+              contentContainerStyle={styles.list}
+              keyExtractor={(item) => `${item.index}:${item.videoId}`}
+              renderItem={({ item }) => renderRow(item)}
+            />
+          ) : (
+            <DraggableFlatList
+              data={rows}
+              contentContainerStyle={styles.list}
+              keyExtractor={(item) => `${item.index}:${item.videoId}`}
+              onDragEnd={({ from, to }) => runQueueAction(() => moveInQueue(from, to))}
+              renderItem={({ item, drag, isActive }: RenderItemParams<QueueRow>) => (
+                <ScaleDecorator>
+                  <Pressable onLongPress={drag} disabled={isActive} delayLongPress={200}>
+                    {renderRow(item, drag, isActive)}
+                  </Pressable>
+                </ScaleDecorator>
+              )}
+            />
+          )}
+        </BlurView>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    flex: 1,
+    padding: Platform.OS === 'web' ? 20 : 16,
+    paddingTop: 60,
+    paddingBottom: 100,
+    gap: Spacing.lg,
+  },
+  heading: {
+    color: TextColors.primary,
+    fontSize: 24,
+    fontWeight: '700',
+    textShadowColor: 'rgba(0, 0, 0, 0.75)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
+  glassCard: {
+    flex: 1,
+    borderRadius: BorderRadius.xxl,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: BorderColors.subtle,
+    backgroundColor: SurfaceColors.card,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: TextColors.primary,
+  },
+  list: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+  },
+  trackItem: {
+    marginBottom: Spacing.md,
+    backgroundColor: SurfaceColors.listItem,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: BorderColors.subtle,
+  },
+  trackItemContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  trackActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  hint: {
+    color: TextColors.secondary,
+    padding: Spacing.lg,
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+});
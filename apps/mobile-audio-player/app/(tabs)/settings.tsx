@@ -1,25 +1,51 @@
-import { ScrollView, StyleSheet, Switch, Text, View, Pressable, Platform } from 'react-native';
+import { ActivityIndicator, ScrollView, StyleSheet, Switch, Text, View, Pressable, Platform } from 'react-native';
 import Slider from '@react-native-community/slider';
 import { BlurView } from 'expo-blur';
 import { useEffect, useState } from 'react';
-import axios from 'axios';
 import Animated, { useSharedValue, useAnimatedStyle, withRepeat, withTiming, Easing, cancelAnimation } from 'react-native-reanimated';
 
 import { Colors, TextColors, SurfaceColors, BorderColors, StatusColors, Spacing, BorderRadius } from '@/constants/theme';
-import { SETTINGS_DEFAULTS, useSettings } from '@/context/settings-context';
+import { MAX_CROSSFADE_SECONDS, SETTINGS_DEFAULTS, useSettings, type AudioQuality } from '@/context/settings-context';
 import { useIdle } from '@/context/idle-context';
 import { AppBackground } from '@/components/AppBackground';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { YouTubeLoginModal } from '@/components/YouTubeLoginModal';
-
-const STREAM_BASE_URL = (process.env.EXPO_PUBLIC_STREAM_BASE_URL ?? '').replace(/\/$/, '');
+import { DownloadsPanel } from '@/components/DownloadsPanel';
+import { OfflineDownloadsPanel } from '@/components/OfflineDownloadsPanel';
+import { useAccess } from '@/hooks/use-access';
+import { STREAM_BASE_URL, api, endAccessSession, hasRole } from '@/lib/api';
 
 type GatewayStatus = 'checking' | 'online' | 'offline';
 
+const QUALITY_OPTIONS: { value: AudioQuality; label: string }[] = [
+  { value: 'opus-96', label: 'Opus 96k' },
+  { value: 'mp3-128', label: 'MP3 128k' },
+  { value: 'aac-256', label: 'AAC 256k' },
+  { value: 'mp3-320', label: 'MP3 320k' },
+];
+
+type CookieHealth = 'missing' | 'expired' | 'rejected' | 'valid' | 'unknown' | 'unchecked';
+
+const COOKIE_HEALTH_LABELS: Record<CookieHealth, string> = {
+  missing: '未登录',
+  expired: '已过期',
+  rejected: '被拒绝',
+  valid: '有效',
+  unknown: '无法检测',
+  unchecked: '未检测',
+};
+
 type YouTubeCookiesStatus = {
   hasCookies: boolean;
   lastUpdated?: string;
   ageHours?: number;
+  // From the cookie file's expiry dates and the gateway's last check with YouTube
+  health?: CookieHealth;
+  // When the first sign-in cookie expires
+  expiresAt?: string | null;
+  checkedAt?: string | null;
+  // Whether the gateway keeps an encrypted copy that survives restarts
+  encryptedAtRest?: boolean;
   message: string;
 };
 
@@ -37,6 +63,16 @@ export default function SettingsScreen() {
     setIdleTimeout,
     showDebugConsole,
     setShowDebugConsole,
+    volumeNormalization,
+    setVolumeNormalization,
+    preferredQualityWifi,
+    setPreferredQualityWifi,
+    preferredQualityCellular,
+    setPreferredQualityCellular,
+    crossfadeSeconds,
+    setCrossfadeSeconds,
+    weightedShuffle,
+    setWeightedShuffle,
   } = useSettings();
   const { isIdleShared } = useIdle();
 
@@ -49,10 +85,18 @@ export default function SettingsScreen() {
   const isWeb = Platform.OS === 'web';
   const [gatewayStatus, setGatewayStatus] = useState<GatewayStatus>('checking');
   const [localIdleTimeout, setLocalIdleTimeout] = useState(idleTimeout);
+  const [localCrossfade, setLocalCrossfade] = useState(crossfadeSeconds);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [youtubeCookiesStatus, setYoutubeCookiesStatus] = useState<YouTubeCookiesStatus | null>(null);
   const [showYouTubeLogin, setShowYouTubeLogin] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
+  const [isProbingCookies, setIsProbingCookies] = useState(false);
+  const access = useAccess();
+  // YouTube cookies are the gateway's, so only admins see them
+  const isAdmin = hasRole(access, 'admin');
+  const cookieHealth: CookieHealth =
+    youtubeCookiesStatus?.health ?? (youtubeCookiesStatus?.hasCookies ? 'unchecked' : 'missing');
+  const [isEndingSession, setIsEndingSession] = useState(false);
   const rotation = useSharedValue(0);
 
   const animatedIconStyle = useAnimatedStyle(() => ({
@@ -63,6 +107,10 @@ export default function SettingsScreen() {
     setLocalIdleTimeout(idleTimeout);
   }, [idleTimeout]);
 
+  useEffect(() => {
+    setLocalCrossfade(crossfadeSeconds);
+  }, [crossfadeSeconds]);
+
   const pingGateway = async () => {
     if (!STREAM_BASE_URL) {
       setGatewayStatus('offline');
@@ -80,7 +128,7 @@ export default function SettingsScreen() {
     );
 
     try {
-      await axios.get(`${STREAM_BASE_URL}/healthz`, { timeout: 4000 });
+      await api.get('/healthz', { timeout: 4000 });
       setGatewayStatus('online');
     } catch (error) {
       console.warn('Gateway health check failed', error);
@@ -99,7 +147,7 @@ export default function SettingsScreen() {
     }
 
     try {
-      const response = await axios.get(`${STREAM_BASE_URL}/api/youtube-cookies/status`);
+      const response = await api.get('/api/youtube-cookies/status');
       setYoutubeCookiesStatus(response.data);
     } catch (error) {
       console.warn('Failed to check YouTube cookies status', error);
@@ -110,6 +158,28 @@ export default function SettingsScreen() {
     }
   };
 
+  // The gateway loads a video with the cookies, which takes a few seconds
+  const probeYouTubeCookies = async () => {
+    if (!STREAM_BASE_URL || isProbingCookies) {
+      return;
+    }
+    if (!youtubeCookiesStatus?.hasCookies) {
+      await checkYouTubeCookiesStatus();
+      return;
+    }
+
+    try {
+      setIsProbingCookies(true);
+      const response = await api.post('/api/youtube-cookies/probe');
+      setYoutubeCookiesStatus(response.data);
+    } catch (error) {
+      console.warn('Failed to check YouTube cookies with YouTube', error);
+      await checkYouTubeCookiesStatus();
+    } finally {
+      setIsProbingCookies(false);
+    }
+  };
+
   const logoutFromYouTube = async () => {
     if (!STREAM_BASE_URL || isLoggingOut) {
       return;
@@ -117,7 +187,7 @@ export default function SettingsScreen() {
 
     try {
       setIsLoggingOut(true);
-      await axios.delete(`${STREAM_BASE_URL}/api/youtube-cookies`);
+      await api.delete('/api/youtube-cookies');
       await checkYouTubeCookiesStatus();
     } catch (error) {
       console.warn('Failed to logout from YouTube', error);
@@ -126,12 +196,31 @@ export default function SettingsScreen() {
     }
   };
 
+  const signOut = async (everywhere: boolean) => {
+    if (isEndingSession) {
+      return;
+    }
+    try {
+      setIsEndingSession(true);
+      await endAccessSession(everywhere);
+    } catch (error) {
+      console.warn('Failed to end the access session', error);
+    } finally {
+      setIsEndingSession(false);
+    }
+  };
+
   useEffect(() => {
     pingGateway();
-    checkYouTubeCookiesStatus();
     // eslint-disable-next-line react-hooks/exhaustive-deps -- intentionally run only on mount
   }, []);
 
+  useEffect(() => {
+    if (isAdmin) {
+      checkYouTubeCookiesStatus();
+    }
+  }, [isAdmin]);
+
   return (
     <View style={{ flex: 1, backgroundColor: 'black' }}>
       <AppBackground style={{ position: 'absolute', width: '100%', height: '100%' }} />
@@ -304,69 +393,248 @@ export default function SettingsScreen() {
           </View>
         </BlurView>
 
-        <BlurView intensity={20} tint="dark" style={styles.glassCard}>
-          <View style={styles.cardContent}>
-            <View style={styles.cardText}>
-              <Text style={styles.cardTitle}>YouTube 登录</Text>
-              <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 8, gap: 8 }}>
-                <View
-                  style={[
-                    styles.statusDot,
-                    youtubeCookiesStatus?.hasCookies ? styles.online : styles.offline,
-                  ]}
-                />
-                <Text style={styles.cardSubtitle}>
-                  {youtubeCookiesStatus?.hasCookies ? '已登录' : '未登录'}
+        <DownloadsPanel canManage={isAdmin} />
+
+        <OfflineDownloadsPanel />
+
+        {isAdmin && (
+          <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+            <View style={styles.cardContent}>
+              <View style={styles.cardText}>
+                <Text style={styles.cardTitle}>YouTube 登录</Text>
+                <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 8, gap: 8 }}>
+                  <View
+                    style={[
+                      styles.statusDot,
+                      cookieHealth === 'valid'
+                        ? styles.online
+                        : cookieHealth === 'unchecked' || cookieHealth === 'unknown'
+                          ? styles.pending
+                          : styles.offline,
+                    ]}
+                  />
+                  <Text style={styles.cardSubtitle}>
+                    {COOKIE_HEALTH_LABELS[cookieHealth]}
+                  </Text>
+                  {!isWeb && !youtubeCookiesStatus?.hasCookies && (
+                    <Pressable
+                      onPress={() => setShowYouTubeLogin(true)}
+                      disabled={isLoggingOut}
+                      style={[styles.logoutTextButton, isLoggingOut && styles.logoutDisabled]}
+                    >
+                      <Text style={styles.logoutText}>登录</Text>
+                    </Pressable>
+                  )}
+                  {!isWeb && youtubeCookiesStatus?.hasCookies && (
+                    <Pressable
+                      onPress={logoutFromYouTube}
+                      disabled={isLoggingOut}
+                      style={[styles.logoutTextButton, isLoggingOut && styles.logoutDisabled]}
+                    >
+                      <Text style={styles.logoutText}>登出</Text>
+                    </Pressable>
+                  )}
+                </View>
+                {youtubeCookiesStatus?.lastUpdated && (
+                  <Text style={[styles.cardDescription, { fontSize: 12, marginTop: 4 }]}>
+                    更新于: {new Date(youtubeCookiesStatus.lastUpdated).toLocaleString('zh-CN')}
+                    {youtubeCookiesStatus.ageHours !== undefined && ` (${youtubeCookiesStatus.ageHours}小时前)`}
+                  </Text>
+                )}
+                {youtubeCookiesStatus?.expiresAt && (
+                  <Text style={[styles.cardDescription, { fontSize: 12, marginTop: 4 }]}>
+                    登录有效期至: {new Date(youtubeCookiesStatus.expiresAt).toLocaleString('zh-CN')}
+                  </Text>
+                )}
+                {youtubeCookiesStatus?.checkedAt && (
+                  <Text style={[styles.cardDescription, { fontSize: 12, marginTop: 4 }]}>
+                    上次检测: {new Date(youtubeCookiesStatus.checkedAt).toLocaleString('zh-CN')}
+                  </Text>
+                )}
+                {youtubeCookiesStatus?.hasCookies && youtubeCookiesStatus.encryptedAtRest === false && (
+                  <Text style={[styles.cardDescription, { fontSize: 12, marginTop: 4 }]}>
+                    网关未设置 COOKIES_ENCRYPTION_KEY，Cookies 以明文保存。
+                  </Text>
+                )}
+                <Text style={styles.cardDescription}>
+                  {isWeb && !youtubeCookiesStatus?.hasCookies
+                    ? '请在移动端登录后点击刷新查看状态。'
+                    : youtubeCookiesStatus?.message || '用于确保 YouTube 流畅播放。'}
                 </Text>
-                {!isWeb && !youtubeCookiesStatus?.hasCookies && (
+              </View>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <Pressable
+                  onPress={probeYouTubeCookies}
+                  disabled={isLoggingOut || isProbingCookies}
+                  style={[styles.refreshButton, (isLoggingOut || isProbingCookies) && styles.refreshButtonDisabled]}
+                >
+                  {isProbingCookies ? (
+                    <ActivityIndicator size="small" color={TextColors.primary} />
+                  ) : (
+                    <IconSymbol
+                      name="arrow.clockwise"
+                      size={20}
+                      color={TextColors.primary}
+                    />
+                  )}
+                </Pressable>
+              </View>
+            </View>
+          </BlurView>
+        )}
+
+        {access.session && (
+          <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+            <View style={styles.cardContent}>
+              <View style={styles.cardText}>
+                <Text style={styles.cardTitle}>访问会话</Text>
+                <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 8, gap: 8 }}>
+                  <Text style={styles.cardSubtitle}>
+                    有效期至 {new Date(access.session.expiresAt).toLocaleString('zh-CN')}
+                  </Text>
                   <Pressable
-                    onPress={() => setShowYouTubeLogin(true)}
-                    disabled={isLoggingOut}
-                    style={[styles.logoutTextButton, isLoggingOut && styles.logoutDisabled]}
+                    onPress={() => signOut(false)}
+                    disabled={isEndingSession}
+                    style={[styles.logoutTextButton, isEndingSession && styles.logoutDisabled]}
                   >
-                    <Text style={styles.logoutText}>登录</Text>
+                    <Text style={styles.logoutText}>退出</Text>
                   </Pressable>
-                )}
-                {!isWeb && youtubeCookiesStatus?.hasCookies && (
                   <Pressable
-                    onPress={logoutFromYouTube}
-                    disabled={isLoggingOut}
-                    style={[styles.logoutTextButton, isLoggingOut && styles.logoutDisabled]}
+                    onPress={() => signOut(true)}
+                    disabled={isEndingSession}
+                    style={[styles.logoutTextButton, isEndingSession && styles.logoutDisabled]}
                   >
-                    <Text style={styles.logoutText}>登出</Text>
+                    <Text style={styles.logoutText}>退出所有设备</Text>
                   </Pressable>
-                )}
+                </View>
+                <Text style={styles.cardDescription}>使用期间会自动续期，退出后需要重新输入访问码。</Text>
               </View>
-              {youtubeCookiesStatus?.lastUpdated && (
-                <Text style={[styles.cardDescription, { fontSize: 12, marginTop: 4 }]}>
-                  更新于: {new Date(youtubeCookiesStatus.lastUpdated).toLocaleString('zh-CN')}
-                  {youtubeCookiesStatus.ageHours !== undefined && ` (${youtubeCookiesStatus.ageHours}小时前)`}
-                </Text>
-              )}
+            </View>
+          </BlurView>
+        )}
+
+        <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+          <View style={styles.cardContent}>
+            <View style={styles.cardText}>
+              <Text style={styles.cardTitle}>显示歌曲封面</Text>
+              <Text style={styles.cardSubtitle}>
+                {showBanner ? '开启' : '关闭'}
+              </Text>
               <Text style={styles.cardDescription}>
-                {isWeb && !youtubeCookiesStatus?.hasCookies
-                  ? '请在移动端登录后点击刷新查看状态。'
-                  : youtubeCookiesStatus?.message || '用于确保 YouTube 流畅播放。'}
+                播放时是否在中间显示歌曲的封面图片。关闭后将显示背景动画。
               </Text>
             </View>
-            <View style={{ flexDirection: 'row', gap: 8 }}>
-              <Pressable
-                onPress={() => {
-                  if (isWeb) {
-                    checkYouTubeCookiesStatus();
-                    return;
-                  }
-                  checkYouTubeCookiesStatus();
-                }}
-                disabled={isLoggingOut}
-                style={[styles.refreshButton, isLoggingOut && styles.refreshButtonDisabled]}
-              >
-                <IconSymbol
-                  name="arrow.clockwise"
-                  size={20}
-                  color={TextColors.primary}
+            <Switch
+              value={showBanner}
+              onValueChange={setShowBanner}
+              trackColor={{ true: Colors.dark.tint, false: '#5f6368' }}
+            />
+          </View>
+        </BlurView>
+
+        <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+          <View style={[styles.cardContent, styles.cardColumn]}>
+            <View>
+              <Text style={styles.cardTitle}>音质</Text>
+              <Text style={styles.cardDescription}>
+                分别设置 Wi-Fi 和蜂窝数据下请求的音质。首次以某个音质播放时服务器会重新缓存该歌曲；iOS 可能无法播放 Opus。
+              </Text>
+            </View>
+            {[
+              { label: 'Wi-Fi', value: preferredQualityWifi, onChange: setPreferredQualityWifi },
+              { label: '蜂窝数据', value: preferredQualityCellular, onChange: setPreferredQualityCellular },
+            ].map((row) => (
+              <View key={row.label} style={styles.qualityRow}>
+                <Text style={styles.cardSubtitle}>{row.label}</Text>
+                <View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+                  {QUALITY_OPTIONS.map((option) => (
+                    <Pressable
+                      key={option.value}
+                      onPress={() => row.onChange(option.value)}
+                      style={[styles.modeButton, row.value === option.value && styles.modeButtonActive]}
+                    >
+                      <Text
+                        style={[styles.modeButtonText, row.value === option.value && styles.modeButtonTextActive]}
+                      >
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            ))}
+          </View>
+        </BlurView>
+
+        <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+          <View style={styles.cardContent}>
+            <View style={styles.cardText}>
+              <Text style={styles.cardTitle}>音量均衡</Text>
+              <Text style={styles.cardSubtitle}>
+                {volumeNormalization ? '开启' : '关闭'}
+              </Text>
+              <Text style={styles.cardDescription}>
+                按照服务器测得的响度（EBU R128）调低过响的歌曲，使分组内的音量保持一致。服务器已直接均衡的文件不受影响。
+              </Text>
+            </View>
+            <Switch
+              value={volumeNormalization}
+              onValueChange={setVolumeNormalization}
+              trackColor={{ true: Colors.dark.tint, false: '#5f6368' }}
+            />
+          </View>
+        </BlurView>
+
+        <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+          <View style={styles.cardContent}>
+            <View style={styles.cardText}>
+              <Text style={styles.cardTitle}>交叉淡入淡出</Text>
+              <Text style={styles.cardSubtitle}>
+                {localCrossfade > 0 ? `${localCrossfade} 秒` : '已关闭'}
+              </Text>
+              <Text style={styles.cardDescription}>
+                歌曲结束前，下一首提前开始并淡入，当前歌曲同时淡出。网页版两首会重叠播放；iOS/Android 上先淡出再淡入。设为 0 关闭，歌曲之间无缝衔接。
+              </Text>
+            </View>
+            <View style={{ width: 160, flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+              {Platform.OS === 'web' ? (
+                // @ts-ignore
+                <input
+                  type="range"
+                  min="0"
+                  max={String(MAX_CROSSFADE_SECONDS)}
+                  step="1"
+                  value={localCrossfade}
+                  onInput={(e: any) => {
+                    const val = parseInt(e.target.value, 10);
+                    setLocalCrossfade(val);
+                  }}
+                  onChange={(e: any) => {
+                    const val = parseInt(e.target.value, 10);
+                    setCrossfadeSeconds(val);
+                  }}
+                  style={{
+                    flex: 1,
+                    accentColor: Colors.dark.tint,
+                    cursor: 'pointer',
+                    height: 40,
+                  }}
                 />
-              </Pressable>
+              ) : (
+                <Slider
+                  style={{ flex: 1, height: 40 }}
+                  minimumValue={0}
+                  maximumValue={MAX_CROSSFADE_SECONDS}
+                  step={1}
+                  value={localCrossfade}
+                  onValueChange={setLocalCrossfade}
+                  onSlidingComplete={setCrossfadeSeconds}
+                  minimumTrackTintColor={Colors.dark.tint}
+                  maximumTrackTintColor="#5f6368"
+                  thumbTintColor={Colors.dark.tint}
+                />
+              )}
+              <Text style={{ color: TextColors.primary, minWidth: 24, textAlign: 'right', fontSize: 12 }}>{localCrossfade}s</Text>
             </View>
           </View>
         </BlurView>
@@ -374,17 +642,17 @@ export default function SettingsScreen() {
         <BlurView intensity={20} tint="dark" style={styles.glassCard}>
           <View style={styles.cardContent}>
             <View style={styles.cardText}>
-              <Text style={styles.cardTitle}>显示歌曲封面</Text>
+              <Text style={styles.cardTitle}>加权随机播放</Text>
               <Text style={styles.cardSubtitle}>
-                {showBanner ? '开启' : '关闭'}
+                {weightedShuffle ? '开启' : '关闭'}
               </Text>
               <Text style={styles.cardDescription}>
-                播放时是否在中间显示歌曲的封面图片。关闭后将显示背景动画。
+                随机播放时，收藏的歌曲和较久未播放的歌曲排得更靠前。每首歌在一轮中仍只播放一次。
               </Text>
             </View>
             <Switch
-              value={showBanner}
-              onValueChange={setShowBanner}
+              value={weightedShuffle}
+              onValueChange={setWeightedShuffle}
               trackColor={{ true: Colors.dark.tint, false: '#5f6368' }}
             />
           </View>
@@ -561,6 +829,14 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: Spacing.md,
   },
+  cardColumn: {
+    flexDirection: 'column',
+    alignItems: 'stretch',
+    gap: Spacing.md,
+  },
+  qualityRow: {
+    gap: Spacing.sm,
+  },
   cardTitle: {
     color: TextColors.primary,
     fontSize: 16,
@@ -591,6 +867,9 @@ const styles = StyleSheet.create({
   offline: {
     backgroundColor: StatusColors.error,
   },
+  pending: {
+    backgroundColor: StatusColors.warning,
+  },
   modeButton: {
     flex: 1,
     paddingVertical: 10,
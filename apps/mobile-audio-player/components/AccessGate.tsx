@@ -1,37 +1,33 @@
 import { useCallback, useEffect, useState } from 'react';
 import { ActivityIndicator, KeyboardAvoidingView, Platform, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import axios from 'axios';
-
-import { TextColors } from '@/constants/theme';
-
-const STREAM_BASE_URL = (process.env.EXPO_PUBLIC_STREAM_BASE_URL ?? '').replace(/\/$/, '');
-const ACCESS_CODE_TTL_MINUTES = Number(process.env.EXPO_PUBLIC_ACCESS_CODE_TTL_MINUTES ?? '0');
-const ACCESS_CODE_TTL_MS = Number.isFinite(ACCESS_CODE_TTL_MINUTES) && ACCESS_CODE_TTL_MINUTES > 0
-  ? ACCESS_CODE_TTL_MINUTES * 60 * 1000
-  : 0;
-const STORAGE_KEY = '@kplayer/access-gate';
-
-type AccessStatus = {
-  enabled: boolean;
-  version: string | null;
-};
 
+import { useAccess } from '@/hooks/use-access';
+import {
+  STREAM_BASE_URL,
+  api,
+  formatRetryAfter,
+  getRetryAfterSeconds,
+  restoreAccessSession,
+  setAccessControlEnabled,
+  setAccessSession,
+} from '@/lib/api';
+
+/**
+ * Asks for the gateway's access code and keeps the session it hands out. The
+ * gateway enforces the session and its expiry, so the overlay comes back
+ * whenever a request is turned away.
+ */
 export function AccessGate() {
-  const [status, setStatus] = useState<AccessStatus>({ enabled: false, version: null });
+  const access = useAccess();
   const [loadingStatus, setLoadingStatus] = useState(true);
   const [statusError, setStatusError] = useState<string | null>(null);
-  const [verified, setVerified] = useState(false);
   const [code, setCode] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
-  const [expiresAt, setExpiresAt] = useState<number | null>(null);
 
   const fetchStatus = useCallback(async () => {
     if (!STREAM_BASE_URL) {
-      setStatus({ enabled: false, version: null });
-      setVerified(true);
-      setExpiresAt(null);
+      setAccessControlEnabled(false);
       setLoadingStatus(false);
       return;
     }
@@ -39,46 +35,16 @@ export function AccessGate() {
     try {
       setLoadingStatus(true);
       setStatusError(null);
-      const response = await axios.get(`${STREAM_BASE_URL}/api/access-control/status`);
-      const payload: AccessStatus = {
-        enabled: Boolean(response.data?.enabled),
-        version: response.data?.version ?? null,
-      };
-      setStatus(payload);
-
-      if (!payload.enabled) {
-        setVerified(true);
-        setExpiresAt(null);
-      } else {
-        const storedRaw = await AsyncStorage.getItem(STORAGE_KEY);
-        if (storedRaw) {
-          try {
-            const stored = JSON.parse(storedRaw) as { version: string | null; expiresAt?: number | null };
-            const notExpired = !ACCESS_CODE_TTL_MS || (typeof stored.expiresAt === 'number' && stored.expiresAt > Date.now());
-            if (stored.version && stored.version === payload.version && notExpired) {
-              setVerified(true);
-              setExpiresAt(stored.expiresAt ?? null);
-            } else {
-              setVerified(false);
-              await AsyncStorage.removeItem(STORAGE_KEY);
-              setExpiresAt(null);
-            }
-          } catch (error) {
-            console.warn('[AccessGate] Failed to parse stored state', error);
-            setVerified(false);
-            setExpiresAt(null);
-          }
-        } else {
-          setVerified(false);
-          setExpiresAt(null);
-        }
+      const response = await api.get('/api/access-control/status');
+      const enabled = Boolean(response.data?.enabled);
+      if (enabled) {
+        await restoreAccessSession();
       }
+      setAccessControlEnabled(enabled);
     } catch (error) {
       console.warn('[AccessGate] Failed to fetch status', error);
       setStatusError('无法获取访问控制状态，请检查后端服务');
-      setStatus({ enabled: true, version: null });
-      setVerified(false);
-      setExpiresAt(null);
+      setAccessControlEnabled(true);
     } finally {
       setLoadingStatus(false);
     }
@@ -101,56 +67,35 @@ export function AccessGate() {
     setSubmitError(null);
     setSubmitting(true);
     try {
-      const response = await axios.post(`${STREAM_BASE_URL}/api/access-control/verify`, { code: trimmed });
+      const response = await api.post('/api/access-control/verify', { code: trimmed });
       if (response.data?.success) {
-        const expiresAt = ACCESS_CODE_TTL_MS ? Date.now() + ACCESS_CODE_TTL_MS : null;
-        await AsyncStorage.setItem(
-          STORAGE_KEY,
-          JSON.stringify({ version: response.data?.version ?? status.version, expiresAt })
-        );
-        setVerified(true);
+        if (response.data.token) {
+          await setAccessSession({
+            token: response.data.token,
+            expiresAt: response.data.expiresAt,
+            role: response.data.role,
+          });
+        } else {
+          // The access code was removed on the gateway in the meantime
+          setAccessControlEnabled(false);
+        }
         setCode('');
-        setExpiresAt(expiresAt);
       } else {
         setSubmitError(response.data?.message || '访问码错误');
       }
     } catch (error: any) {
-      const message = error?.response?.data?.message || '验证失败，请稍后再试';
+      // Too many wrong codes lock this device out for a while
+      const retryAfter = getRetryAfterSeconds(error);
+      const message = retryAfter !== null
+        ? `尝试次数过多，请 ${formatRetryAfter(retryAfter)}后再试`
+        : error?.response?.data?.message || '验证失败，请稍后再试';
       setSubmitError(message);
     } finally {
       setSubmitting(false);
     }
   };
 
-  useEffect(() => {
-    if (!ACCESS_CODE_TTL_MS || !verified || !expiresAt) {
-      return undefined;
-    }
-
-    const remaining = expiresAt - Date.now();
-    if (remaining <= 0) {
-      AsyncStorage.removeItem(STORAGE_KEY).catch((error) => {
-        console.warn('[AccessGate] Failed to clear expired key', error);
-      });
-      setVerified(false);
-      setExpiresAt(null);
-      setCode('');
-      return undefined;
-    }
-
-    const timeout = setTimeout(() => {
-      AsyncStorage.removeItem(STORAGE_KEY).catch((error) => {
-        console.warn('[AccessGate] Failed to clear expired key', error);
-      });
-      setVerified(false);
-      setExpiresAt(null);
-      setCode('');
-    }, remaining);
-
-    return () => clearTimeout(timeout);
-  }, [verified, expiresAt]);
-
-  if (!status.enabled || verified) {
+  if (access.enabled !== true || access.session) {
     return null;
   }
 
@@ -0,0 +1,239 @@
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { useFocusEffect } from 'expo-router';
+
+import { TextColors, SurfaceColors, BorderColors, StatusColors, Spacing, BorderRadius } from '@/constants/theme';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import type { CacheJobPhase, CacheJobProgress } from '@/hooks/use-cache-job-events';
+import { STREAM_BASE_URL, api } from '@/lib/api';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+type CacheJobSummary = CacheJobProgress & {
+  title: string | null;
+  startTime: number;
+};
+
+type JobsResponse = {
+  jobs: CacheJobSummary[];
+  running: number;
+  concurrency: number;
+};
+
+const PHASE_LABELS: Record<CacheJobPhase, string> = {
+  queued: '排队中',
+  metadata: '获取信息',
+  downloading: '下载中',
+  transcoding: '转码中',
+  uploading: '上传中',
+  normalizing: '均衡音量',
+  done: '已完成',
+  failed: '失败',
+};
+
+function describeJob(job: CacheJobSummary) {
+  if (job.phase === 'queued' && job.lastError) {
+    return `等待重试 · ${job.lastError}`;
+  }
+  if (job.phase === 'failed') {
+    return job.error ?? '未知错误';
+  }
+  const percent = job.percent != null ? ` ${Math.round(job.percent)}%` : '';
+  return `${PHASE_LABELS[job.phase]}${percent}`;
+}
+
+/**
+ * Settings card listing the gateway's cache jobs, so a stuck download can be
+ * cancelled or a failed one retried without restarting the server. Only admins
+ * (`canManage`) get the buttons.
+ */
+export function DownloadsPanel({ canManage }: { canManage: boolean }) {
+  const [data, setData] = useState<JobsResponse | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  // `${videoId}:${quality}` of the job an action is running for
+  const [busyJobKey, setBusyJobKey] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    if (!STREAM_BASE_URL) {
+      return;
+    }
+    try {
+      const response = await api.get<JobsResponse>('/jobs', { timeout: 4000 });
+      setData(response.data);
+      setLoadError(false);
+    } catch (error) {
+      console.warn('Failed to load cache jobs', error);
+      setLoadError(true);
+    }
+  }, []);
+
+  // Only poll while the settings screen is on top
+  useFocusEffect(
+    useCallback(() => {
+      fetchJobs();
+      const interval = setInterval(fetchJobs, REFRESH_INTERVAL_MS);
+      return () => clearInterval(interval);
+    }, [fetchJobs])
+  );
+
+  const runAction = async (job: CacheJobSummary, action: 'cancel' | 'retry') => {
+    const jobKey = `${job.videoId}:${job.quality}`;
+    const params = { quality: job.quality };
+    setBusyJobKey(jobKey);
+    try {
+      if (action === 'cancel') {
+        await api.delete(`/jobs/${job.videoId}`, { params });
+      } else {
+        await api.post(`/jobs/${job.videoId}/retry`, null, { params });
+      }
+    } catch (error) {
+      console.warn(`Failed to ${action} cache job ${jobKey}`, error);
+    } finally {
+      setBusyJobKey(null);
+      fetchJobs();
+    }
+  };
+
+  const jobs = data?.jobs ?? [];
+
+  return (
+    <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+      <View style={styles.header}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.title}>下载任务</Text>
+          <Text style={styles.subtitle}>
+            {loadError
+              ? '无法获取任务列表'
+              : data
+                ? `进行中 ${data.running}/${data.concurrency}，共 ${jobs.length} 个任务`
+                : '加载中...'}
+          </Text>
+        </View>
+        <Pressable onPress={fetchJobs} style={styles.iconButton}>
+          <IconSymbol name="arrow.clockwise" size={20} color={TextColors.primary} />
+        </Pressable>
+      </View>
+
+      {jobs.length === 0 && !loadError && data && (
+        <Text style={styles.emptyText}>当前没有下载任务。</Text>
+      )}
+
+      {jobs.map((job) => {
+        const isFailed = job.phase === 'failed';
+        const jobKey = `${job.videoId}:${job.quality}`;
+        const isBusy = busyJobKey === jobKey;
+        return (
+          <View key={jobKey} style={styles.jobRow}>
+            <View style={[styles.statusDot, isFailed ? styles.failedDot : styles.activeDot]} />
+            <View style={{ flex: 1 }}>
+              <Text style={styles.jobTitle} numberOfLines={1}>
+                {job.title ?? job.videoId}
+              </Text>
+              <Text style={[styles.jobStatus, isFailed && { color: StatusColors.error }]} numberOfLines={2}>
+                {job.quality ? `${job.quality} · ` : ''}
+                {describeJob(job)}
+                {(job.attempts ?? 0) > 1 ? ` · 第 ${job.attempts} 次尝试` : ''}
+              </Text>
+            </View>
+            {!canManage ? null : isBusy ? (
+              <ActivityIndicator size="small" color={TextColors.secondary} />
+            ) : (
+              <View style={styles.actions}>
+                {isFailed && (
+                  <Pressable onPress={() => runAction(job, 'retry')} style={styles.pillButton}>
+                    <Text style={styles.pillText}>重试</Text>
+                  </Pressable>
+                )}
+                <Pressable onPress={() => runAction(job, 'cancel')} style={styles.pillButton}>
+                  <Text style={styles.pillText}>{isFailed ? '移除' : '取消'}</Text>
+                </Pressable>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  glassCard: {
+    borderRadius: BorderRadius.lg,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: BorderColors.subtle,
+    backgroundColor: SurfaceColors.card,
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    color: TextColors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  subtitle: {
+    color: TextColors.secondary,
+    marginTop: 4,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: SurfaceColors.hover,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    color: TextColors.tertiary,
+    fontSize: 14,
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  activeDot: {
+    backgroundColor: StatusColors.success,
+  },
+  failedDot: {
+    backgroundColor: StatusColors.error,
+  },
+  jobTitle: {
+    color: TextColors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  jobStatus: {
+    color: TextColors.tertiary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  pillButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: '#ffffff',
+    borderRadius: 999,
+    minHeight: 28,
+    justifyContent: 'center',
+  },
+  pillText: {
+    color: TextColors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
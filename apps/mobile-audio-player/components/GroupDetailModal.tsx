@@ -1,9 +1,9 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { View, StyleSheet, FlatList } from 'react-native';
 import { Modal, Portal, Text, Button, IconButton, useTheme, Card, Divider } from 'react-native-paper';
 import { BlurView } from 'expo-blur';
-import { TextColors, SurfaceColors, BorderColors, Spacing } from '@/constants/theme';
+import { TextColors, SurfaceColors, BorderColors, StatusColors, Spacing } from '@/constants/theme';
 
 type TrackMetadata = {
     videoId: string;
@@ -17,14 +17,38 @@ type GroupMetadata = {
     id: string;
     name: string;
     trackIds: string[];
+    version?: number;
 };
 
+export type GroupUpdateResult = {
+    ok: boolean;
+    // The group as it is on the server, when our edit was based on an older version
+    conflict?: GroupMetadata;
+};
+
+type PendingConflict = {
+    // Track list our edit started from, and what we wanted it to become
+    base: string[];
+    mine: string[];
+    theirs: GroupMetadata;
+};
+
+/**
+ * Replay our edit on top of theirs: drop the tracks we removed, then append the
+ * ones we added that they don't already have.
+ */
+function mergeTrackIds(base: string[], mine: string[], theirs: string[]) {
+    const removed = new Set(base.filter((id) => !mine.includes(id)));
+    const added = mine.filter((id) => !base.includes(id) && !theirs.includes(id));
+    return [...theirs.filter((id) => !removed.has(id)), ...added];
+}
+
 type GroupDetailModalProps = {
     visible: boolean;
     onDismiss: () => void;
     group: GroupMetadata | null;
     allTracks: TrackMetadata[];
-    onUpdateGroup: (groupId: string, name: string, trackIds: string[]) => Promise<void>;
+    onUpdateGroup: (groupId: string, name: string, trackIds: string[], version?: number) => Promise<GroupUpdateResult>;
     onPlayGroup: (groupId: string) => void;
 };
 
@@ -38,6 +62,13 @@ export function GroupDetailModal({
 }: GroupDetailModalProps) {
     const theme = useTheme();
     const [isAddingMode, setIsAddingMode] = useState(false);
+    const [conflict, setConflict] = useState<PendingConflict | null>(null);
+    const [isMerging, setIsMerging] = useState(false);
+
+    const groupId = group?.id;
+    useEffect(() => {
+        setConflict(null);
+    }, [groupId]);
 
     const groupTracks = useMemo(() => {
         if (!group) return [];
@@ -51,16 +82,33 @@ export function GroupDetailModal({
         return allTracks.filter((t) => !group.trackIds.includes(t.videoId));
     }, [group, allTracks]);
 
+    const saveTrackIds = async (target: GroupMetadata, base: string[], trackIds: string[]) => {
+        const result = await onUpdateGroup(target.id, target.name, trackIds, target.version);
+        setConflict(result.conflict ? { base, mine: trackIds, theirs: result.conflict } : null);
+    };
+
     const handleRemoveTrack = async (videoId: string) => {
         if (!group) return;
         const newTrackIds = group.trackIds.filter((id) => id !== videoId);
-        await onUpdateGroup(group.id, group.name, newTrackIds);
+        await saveTrackIds(group, group.trackIds, newTrackIds);
     };
 
     const handleAddTrack = async (videoId: string) => {
         if (!group) return;
         const newTrackIds = [...group.trackIds, videoId];
-        await onUpdateGroup(group.id, group.name, newTrackIds);
+        await saveTrackIds(group, group.trackIds, newTrackIds);
+    };
+
+    const handleMergeConflict = async () => {
+        if (!conflict) return;
+        const { base, mine, theirs } = conflict;
+        setIsMerging(true);
+        try {
+            // If it changed yet again, the next conflict starts from their latest list
+            await saveTrackIds(theirs, theirs.trackIds, mergeTrackIds(base, mine, theirs.trackIds));
+        } finally {
+            setIsMerging(false);
+        }
     };
 
     if (!group) return null;
@@ -84,6 +132,22 @@ export function GroupDetailModal({
 
                     <Divider style={styles.divider} />
 
+                    {conflict && (
+                        <View style={styles.conflictBanner}>
+                            <Text variant="bodyMedium" style={{ color: TextColors.primary }}>
+                                This group was changed somewhere else, so your last edit was not saved.
+                            </Text>
+                            <View style={styles.conflictActions}>
+                                <Button mode="text" onPress={() => setConflict(null)} disabled={isMerging}>
+                                    Discard mine
+                                </Button>
+                                <Button mode="contained-tonal" onPress={handleMergeConflict} loading={isMerging} disabled={isMerging}>
+                                    Merge my changes
+                                </Button>
+                            </View>
+                        </View>
+                    )}
+
                     {isAddingMode ? (
                         <View style={styles.content}>
                             <View style={styles.subHeader}>
@@ -182,6 +246,19 @@ const styles = StyleSheet.create({
         backgroundColor: BorderColors.subtle,
         marginBottom: 10,
     },
+    conflictBanner: {
+        borderWidth: 1,
+        borderColor: StatusColors.warning,
+        borderRadius: 12,
+        padding: Spacing.md,
+        marginBottom: 10,
+        gap: Spacing.sm,
+    },
+    conflictActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: Spacing.sm,
+    },
     content: {
         flex: 1,
     },
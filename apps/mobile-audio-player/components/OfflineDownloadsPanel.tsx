@@ -0,0 +1,108 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Paths } from 'expo-file-system';
+
+import { TextColors, SurfaceColors, BorderColors, Spacing, BorderRadius } from '@/constants/theme';
+import { useDownloads } from '@/context/downloads-context';
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * Settings card for tracks saved on the device: how much space they take and a
+ * way to remove them all. Tracks and groups are downloaded from the home screen.
+ */
+export function OfflineDownloadsPanel() {
+  const { isSupported, downloads, savedGroups, statuses, usageBytes, clearDownloads } = useDownloads();
+
+  const trackCount = Object.keys(downloads).length;
+  const groupCount = Object.keys(savedGroups).length;
+  const pendingCount = Object.values(statuses).filter((status) => status !== 'failed').length;
+  const failedCount = Object.values(statuses).filter((status) => status === 'failed').length;
+
+  let availableBytes: number | null = null;
+  if (isSupported) {
+    try {
+      availableBytes = Paths.availableDiskSpace;
+    } catch {
+      availableBytes = null;
+    }
+  }
+
+  return (
+    <BlurView intensity={20} tint="dark" style={styles.glassCard}>
+      <View style={styles.header}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.title}>离线下载</Text>
+          <Text style={styles.subtitle}>
+            {isSupported
+              ? `${trackCount} 首歌曲，${groupCount} 个分组，占用 ${formatBytes(usageBytes)}`
+              : '网页版不支持离线下载'}
+          </Text>
+          {isSupported && availableBytes !== null && (
+            <Text style={styles.detail}>设备剩余空间 {formatBytes(availableBytes)}</Text>
+          )}
+          {pendingCount > 0 && <Text style={styles.detail}>正在下载，剩余 {pendingCount} 首</Text>}
+          {failedCount > 0 && <Text style={styles.detail}>{failedCount} 首下载失败，可在曲目列表中重试</Text>}
+        </View>
+        {isSupported && (trackCount > 0 || pendingCount > 0) && (
+          <Pressable onPress={clearDownloads} style={styles.pillButton}>
+            <Text style={styles.pillText}>全部删除</Text>
+          </Pressable>
+        )}
+      </View>
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  glassCard: {
+    borderRadius: BorderRadius.lg,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: BorderColors.subtle,
+    backgroundColor: SurfaceColors.card,
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  title: {
+    color: TextColors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  subtitle: {
+    color: TextColors.secondary,
+    marginTop: 4,
+  },
+  detail: {
+    color: TextColors.tertiary,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  pillButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: '#ffffff',
+    borderRadius: 999,
+    minHeight: 28,
+    justifyContent: 'center',
+  },
+  pillText: {
+    color: TextColors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -3,11 +3,9 @@ import { Modal, StyleSheet, View } from 'react-native';
 import { Button, Text } from 'react-native-paper';
 import WebView from 'react-native-webview';
 import CookieManager from '@react-native-cookies/cookies';
-import axios from 'axios';
 
 import { TextColors, SurfaceColors, BorderRadius, Spacing } from '@/constants/theme';
-
-const STREAM_BASE_URL = (process.env.EXPO_PUBLIC_STREAM_BASE_URL ?? '').replace(/\/$/, '');
+import { STREAM_BASE_URL, api } from '@/lib/api';
 
 interface YouTubeLoginModalProps {
   visible: boolean;
@@ -46,7 +44,7 @@ export function YouTubeLoginModal({ visible, onDismiss, onSuccess }: YouTubeLogi
         const expires = cookie.expires
           ? (typeof cookie.expires === 'string'
               ? Math.floor(new Date(cookie.expires).getTime() / 1000)
-              : cookie.expires)
+              : Math.floor(cookie.expires))
           : now + (365 * 24 * 60 * 60); // 1 year default
         const value = cookie.value || '';
 
@@ -59,7 +57,7 @@ export function YouTubeLoginModal({ visible, onDismiss, onSuccess }: YouTubeLogi
       console.log('[YouTubeLogin] Sending to:', `${STREAM_BASE_URL}/api/youtube-cookies`);
 
       // Send cookies to Gateway
-      const response = await axios.post(`${STREAM_BASE_URL}/api/youtube-cookies`, {
+      const response = await api.post('/api/youtube-cookies', {
         cookies: cookieData
       });
 
@@ -70,7 +68,9 @@ export function YouTubeLoginModal({ visible, onDismiss, onSuccess }: YouTubeLogi
     } catch (err: any) {
       console.error('[YouTubeLogin] Failed:', err);
       console.error('[YouTubeLogin] Error details:', err.message, err.response?.data);
-      setError(`Failed: ${err.message || 'Unknown error'}. Check console for details.`);
+      // The gateway says what is wrong with a cookie file it refuses
+      const reason = err.response?.data?.message || err.message || 'Unknown error';
+      setError(`Failed: ${reason}. Check console for details.`);
       setLoading(false);
     }
   };
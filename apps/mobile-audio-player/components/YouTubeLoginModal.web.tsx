@@ -1,9 +1,9 @@
+import { useEffect, useState } from 'react';
 import { Modal, StyleSheet, View } from 'react-native';
 import { Button, Text } from 'react-native-paper';
 
 import { TextColors, SurfaceColors, BorderRadius, Spacing } from '@/constants/theme';
-
-const STREAM_BASE_URL = (process.env.EXPO_PUBLIC_STREAM_BASE_URL ?? '').replace(/\/$/, '');
+import { api } from '@/lib/api';
 
 interface YouTubeLoginModalProps {
   visible: boolean;
@@ -11,8 +11,16 @@ interface YouTubeLoginModalProps {
   onSuccess: () => void;
 }
 
-export function YouTubeLoginModal({ visible, onDismiss }: YouTubeLoginModalProps) {
-  const loginScript = `(async function() {
+const YOUTUBE_ORIGIN = 'https://www.youtube.com';
+const COOKIES_MESSAGE_TYPE = 'kplayer-youtube-cookies';
+
+export function YouTubeLoginModal({ visible, onDismiss, onSuccess }: YouTubeLoginModalProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The script runs on youtube.com, so it only hands the cookies back to this
+  // window; the upload goes through the app, which holds the session token
+  const loginScript = `(function() {
   const cookies = document.cookie.split('; ');
   const domain = '.youtube.com';
   const path = '/';
@@ -22,18 +30,46 @@ export function YouTubeLoginModal({ visible, onDismiss }: YouTubeLoginModalProps
     return \`\${domain}\\tTRUE\\t\${path}\\tFALSE\\t\${expires}\\t\${name}\\t\${value}\`;
   }).join('\\n');
   const cookieData = '# Netscape HTTP Cookie File\\n' + netscapeCookies;
-  const response = await fetch('${STREAM_BASE_URL}/api/youtube-cookies', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ cookies: cookieData })
-  });
-  const result = await response.json();
-  console.log('✅', result);
-  alert('✅ Cookies saved! Refresh Settings to see status.');
+  if (!window.opener) {
+    alert('❌ Open YouTube from the app\\'s login button, then run this script again.');
+    return;
+  }
+  window.opener.postMessage({ type: '${COOKIES_MESSAGE_TYPE}', cookies: cookieData }, '${window.location.origin}');
+  alert('✅ Cookies sent to the app, you can close this tab.');
 })();`;
 
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    const handleMessage = async (event: MessageEvent) => {
+      if (event.origin !== YOUTUBE_ORIGIN || event.data?.type !== COOKIES_MESSAGE_TYPE) {
+        return;
+      }
+      if (typeof event.data.cookies !== 'string') {
+        return;
+      }
+      try {
+        setSaving(true);
+        setError(null);
+        await api.post('/api/youtube-cookies', { cookies: event.data.cookies });
+        onSuccess();
+        onDismiss();
+      } catch (err: any) {
+        console.error('[YouTubeLogin] Failed:', err);
+        // The gateway says what is wrong with a cookie file it refuses
+        setError(`Failed: ${err.response?.data?.message || err.message || 'Unknown error'}`);
+      } finally {
+        setSaving(false);
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [visible, onSuccess, onDismiss]);
+
   const handleOpenYouTube = () => {
-    window.open('https://www.youtube.com', '_blank');
+    // Not noopener: the script answers through window.opener
+    window.open(YOUTUBE_ORIGIN, '_blank');
     navigator.clipboard.writeText(loginScript);
     alert('Script copied! Now:\n1. Login to YouTube\n2. Press F12 → Console\n3. Paste & press Enter');
   };
@@ -63,8 +99,10 @@ export function YouTubeLoginModal({ visible, onDismiss }: YouTubeLoginModalProps
             </Button>
           </View>
 
+          {error && <Text style={[styles.message, styles.error]}>{error}</Text>}
+
           <Text variant="bodySmall" style={[styles.message, { marginTop: 16, fontSize: 12, opacity: 0.7 }]}>
-            After running the script, refresh Settings to see login status.
+            {saving ? 'Saving cookies…' : 'Keep this page open while the script runs; the cookies are saved from here.'}
           </Text>
         </View>
       </View>
@@ -93,4 +131,7 @@ const styles = StyleSheet.create({
   title: {
     color: TextColors.primary,
   },
+  error: {
+    color: '#ff6b6b',
+  },
 });
@@ -20,6 +20,8 @@ const MAPPING = {
   'chevron.right': 'chevron-right',
   'gearshape.fill': 'settings',
   'arrow.clockwise': 'refresh',
+  'list.bullet': 'queue-music',
+  'clock.fill': 'history',
 } as IconMapping;
 
 /**
@@ -77,6 +77,8 @@ export const StatusColors = {
   success: '#34a853',
   /** Offline, error states */
   error: '#ea4335',
+  /** Needs attention, e.g. edit conflicts */
+  warning: '#fbbc04',
 };
 
 /**
@@ -0,0 +1,442 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import type { AudioQuality } from '@/context/settings-context';
+import { STREAM_BASE_URL, api, getRetryAfterSeconds } from '@/lib/api';
+
+const STORAGE_KEY = 'kplayer_offline_downloads';
+const DOWNLOAD_DIRECTORY = 'offline-audio';
+
+// expo-file-system has no web implementation, so the browser can only stream
+export const OFFLINE_DOWNLOADS_SUPPORTED = Platform.OS !== 'web';
+
+const QUALITY_EXTENSIONS: Record<AudioQuality, string> = {
+  'mp3-128': 'mp3',
+  'mp3-320': 'mp3',
+  'aac-256': 'aac',
+  'opus-96': 'opus',
+};
+
+type OfflineTrackLoudness = {
+  integratedLufs: number;
+  truePeakDb: number;
+  gainDb: number;
+  normalized: boolean;
+};
+
+/**
+ * What the library knows about a track; kept with the download so it can be
+ * listed and played without the gateway.
+ */
+export type OfflineTrackMetadata = {
+  videoId: string;
+  title: string;
+  author?: string;
+  durationSeconds?: number | null;
+  thumbnailUrl?: string | null;
+  // Cached renditions by quality, with the loudness measured for each
+  renditions?: Record<string, { loudness?: OfflineTrackLoudness | null }>;
+};
+
+export type DownloadedTrack = Omit<OfflineTrackMetadata, 'renditions'> & {
+  quality: AudioQuality;
+  // Loudness of the downloaded rendition
+  loudness: OfflineTrackLoudness | null;
+  uri: string;
+  sizeBytes: number;
+  downloadedAt: string;
+};
+
+// A group saved for offline use; tracks added to it on the server are downloaded on the next sync
+export type SavedGroup = {
+  id: string;
+  name: string;
+  trackIds: string[];
+  quality: AudioQuality;
+};
+
+export type DownloadStatus = 'queued' | 'downloading' | 'failed';
+
+type LibraryGroup = {
+  id: string;
+  name: string;
+  trackIds: string[];
+};
+
+type PersistedDownloads = {
+  tracks: Record<string, DownloadedTrack>;
+  groups: Record<string, SavedGroup>;
+};
+
+type DownloadRequest = {
+  track: OfflineTrackMetadata;
+  quality: AudioQuality;
+};
+
+type DownloadsContextValue = {
+  isSupported: boolean;
+  downloads: Record<string, DownloadedTrack>;
+  savedGroups: Record<string, SavedGroup>;
+  statuses: Record<string, DownloadStatus>;
+  usageBytes: number;
+  getLocalTrack: (videoId: string) => DownloadedTrack | null;
+  downloadTrack: (track: OfflineTrackMetadata, quality: AudioQuality) => void;
+  downloadGroup: (group: LibraryGroup, tracks: OfflineTrackMetadata[], quality: AudioQuality) => void;
+  removeDownload: (videoId: string) => void;
+  removeGroup: (groupId: string) => void;
+  clearDownloads: () => void;
+  syncWithLibrary: (library: { tracks?: OfflineTrackMetadata[]; groups?: LibraryGroup[] }) => void;
+};
+
+const DownloadsContext = createContext<DownloadsContextValue | undefined>(undefined);
+
+function downloadDirectory() {
+  const directory = new Directory(Paths.document, DOWNLOAD_DIRECTORY);
+  directory.create({ idempotent: true, intermediates: true });
+  return directory;
+}
+
+function deleteLocalFile(uri: string) {
+  try {
+    const file = new File(uri);
+    if (file.exists) {
+      file.delete();
+    }
+  } catch (error) {
+    console.warn('Failed to delete downloaded file', uri, error);
+  }
+}
+
+// What a download keeps of the library's metadata: the track, and the loudness of its rendition
+function toDownloadedMetadata(track: OfflineTrackMetadata, quality: AudioQuality) {
+  const { renditions, ...metadata } = track;
+  return { ...metadata, quality, loudness: renditions?.[quality]?.loudness ?? null };
+}
+
+// Same endpoint as playback: a signed URL for a cached rendition, or the live transcode of a new one
+async function requestDownloadUrl(videoId: string, quality: AudioQuality) {
+  const response = await api.get(`/stream/${encodeURIComponent(videoId)}`, {
+    params: { quality },
+  });
+  if (!response.data?.url) {
+    throw new Error('Unexpected response from stream endpoint');
+  }
+  return response.data.url as string;
+}
+
+/**
+ * Download manager for offline playback. Tracks are fetched one at a time into
+ * the app's document directory and listed in AsyncStorage; `syncWithLibrary`
+ * keeps them in step with the gateway's `/tracks` and `/groups`.
+ */
+export function DownloadsProvider({ children }: { children: ReactNode }) {
+  const [downloads, setDownloads] = useState<Record<string, DownloadedTrack>>({});
+  const [savedGroups, setSavedGroups] = useState<Record<string, SavedGroup>>({});
+  const [statuses, setStatuses] = useState<Record<string, DownloadStatus>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const queueRef = useRef<DownloadRequest[]>([]);
+  const activeIdRef = useRef<string | null>(null);
+  // Set while the queue waits out a 429 from the gateway
+  const resumeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Removed while their download was running; the file is discarded when it lands
+  const discardedIdsRef = useRef(new Set<string>());
+  const downloadsRef = useRef(downloads);
+  const savedGroupsRef = useRef(savedGroups);
+  const libraryTracksRef = useRef<OfflineTrackMetadata[]>([]);
+
+  useEffect(() => {
+    downloadsRef.current = downloads;
+    savedGroupsRef.current = savedGroups;
+  }, [downloads, savedGroups]);
+
+  useEffect(() => {
+    async function loadDownloads() {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          const parsed: PersistedDownloads = JSON.parse(stored);
+          // The OS or the user may have cleared the files behind our back
+          const tracks = Object.fromEntries(
+            Object.entries(parsed.tracks ?? {}).filter(([, track]) => new File(track.uri).exists)
+          );
+          setDownloads(tracks);
+          setSavedGroups(parsed.groups ?? {});
+        }
+      } catch (error) {
+        console.error('Failed to load offline downloads:', error);
+      } finally {
+        setIsLoaded(true);
+      }
+    }
+    if (OFFLINE_DOWNLOADS_SUPPORTED) {
+      loadDownloads();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const persisted: PersistedDownloads = { tracks: downloads, groups: savedGroups };
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(persisted));
+  }, [downloads, savedGroups, isLoaded]);
+
+  const setStatus = useCallback((videoId: string, status: DownloadStatus | null) => {
+    setStatuses((current) => {
+      const { [videoId]: _previous, ...rest } = current;
+      return status ? { ...rest, [videoId]: status } : rest;
+    });
+  }, []);
+
+  const processQueue = useCallback(async () => {
+    if (activeIdRef.current || resumeTimerRef.current) {
+      return;
+    }
+    const request = queueRef.current.shift();
+    if (!request) {
+      return;
+    }
+
+    const { track, quality } = request;
+    activeIdRef.current = track.videoId;
+    setStatus(track.videoId, 'downloading');
+    try {
+      const url = await requestDownloadUrl(track.videoId, quality);
+      const destination = new File(downloadDirectory(), `${track.videoId}-${quality}.${QUALITY_EXTENSIONS[quality]}`);
+      const file = await File.downloadFileAsync(url, destination, { idempotent: true });
+
+      if (discardedIdsRef.current.delete(track.videoId)) {
+        deleteLocalFile(file.uri);
+        setStatus(track.videoId, null);
+      } else {
+        const previous = downloadsRef.current[track.videoId];
+        if (previous && previous.uri !== file.uri) {
+          deleteLocalFile(previous.uri);
+        }
+        setDownloads((current) => ({
+          ...current,
+          [track.videoId]: {
+            ...toDownloadedMetadata(track, quality),
+            uri: file.uri,
+            sizeBytes: file.size ?? 0,
+            downloadedAt: new Date().toISOString(),
+          },
+        }));
+        setStatus(track.videoId, null);
+      }
+    } catch (error) {
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null && !discardedIdsRef.current.has(track.videoId)) {
+        // Rate limited: put the track back and wait as long as the gateway asks
+        queueRef.current.unshift(request);
+        setStatus(track.videoId, 'queued');
+        resumeTimerRef.current = setTimeout(() => {
+          resumeTimerRef.current = null;
+          processQueue();
+        }, retryAfter * 1000);
+      } else {
+        console.warn(`Failed to download ${track.videoId} for offline playback`, error);
+        discardedIdsRef.current.delete(track.videoId);
+        setStatus(track.videoId, 'failed');
+      }
+    } finally {
+      activeIdRef.current = null;
+      processQueue();
+    }
+  }, [setStatus]);
+
+  const enqueue = useCallback(
+    (tracks: OfflineTrackMetadata[], quality: AudioQuality) => {
+      if (!OFFLINE_DOWNLOADS_SUPPORTED || !STREAM_BASE_URL) {
+        return;
+      }
+      for (const track of tracks) {
+        const alreadyQueued =
+          activeIdRef.current === track.videoId ||
+          queueRef.current.some((request) => request.track.videoId === track.videoId);
+        if (alreadyQueued) {
+          continue;
+        }
+        discardedIdsRef.current.delete(track.videoId);
+        queueRef.current.push({ track, quality });
+        setStatus(track.videoId, 'queued');
+      }
+      processQueue();
+    },
+    [processQueue, setStatus]
+  );
+
+  // Drop tracks from the queue and from disk
+  const forgetTracks = useCallback(
+    (videoIds: string[]) => {
+      if (!videoIds.length) {
+        return;
+      }
+      const ids = new Set(videoIds);
+      queueRef.current = queueRef.current.filter((request) => !ids.has(request.track.videoId));
+      if (activeIdRef.current && ids.has(activeIdRef.current)) {
+        discardedIdsRef.current.add(activeIdRef.current);
+      }
+      for (const videoId of ids) {
+        const download = downloadsRef.current[videoId];
+        if (download) {
+          deleteLocalFile(download.uri);
+        }
+        if (videoId !== activeIdRef.current) {
+          setStatus(videoId, null);
+        }
+      }
+      setDownloads((current) => Object.fromEntries(Object.entries(current).filter(([id]) => !ids.has(id))));
+    },
+    [setStatus]
+  );
+
+  const getLocalTrack = useCallback((videoId: string) => downloads[videoId] ?? null, [downloads]);
+
+  const downloadTrack = useCallback(
+    (track: OfflineTrackMetadata, quality: AudioQuality) => enqueue([track], quality),
+    [enqueue]
+  );
+
+  const downloadGroup = useCallback(
+    (group: LibraryGroup, tracks: OfflineTrackMetadata[], quality: AudioQuality) => {
+      if (!OFFLINE_DOWNLOADS_SUPPORTED) {
+        return;
+      }
+      setSavedGroups((current) => ({
+        ...current,
+        [group.id]: { id: group.id, name: group.name, trackIds: group.trackIds, quality },
+      }));
+      const missing = group.trackIds
+        .filter((videoId) => !downloadsRef.current[videoId])
+        .map((videoId) => tracks.find((track) => track.videoId === videoId) ?? { videoId, title: videoId });
+      enqueue(missing, quality);
+    },
+    [enqueue]
+  );
+
+  const removeDownload = useCallback((videoId: string) => forgetTracks([videoId]), [forgetTracks]);
+
+  // Tracks only kept for this group go with it; ones another saved group needs stay
+  const removeGroup = useCallback(
+    (groupId: string) => {
+      const group = savedGroupsRef.current[groupId];
+      if (!group) {
+        return;
+      }
+      const { [groupId]: _removed, ...rest } = savedGroupsRef.current;
+      const stillNeeded = new Set(Object.values(rest).flatMap((other) => other.trackIds));
+      setSavedGroups(rest);
+      forgetTracks(group.trackIds.filter((videoId) => !stillNeeded.has(videoId)));
+    },
+    [forgetTracks]
+  );
+
+  const clearDownloads = useCallback(() => {
+    setSavedGroups({});
+    forgetTracks([...Object.keys(downloadsRef.current), ...queueRef.current.map((request) => request.track.videoId)]);
+  }, [forgetTracks]);
+
+  const syncWithLibrary = useCallback(
+    ({ tracks, groups }: { tracks?: OfflineTrackMetadata[]; groups?: LibraryGroup[] }) => {
+      if (!OFFLINE_DOWNLOADS_SUPPORTED || !isLoaded) {
+        return;
+      }
+
+      if (tracks) {
+        libraryTracksRef.current = tracks;
+        // Deleted on the server, so nothing may play them any more
+        const serverIds = new Set(tracks.map((track) => track.videoId));
+        const deletedIds = Object.keys(downloadsRef.current).filter((videoId) => !serverIds.has(videoId));
+        if (deletedIds.length) {
+          console.log(`[Downloads] Removing ${deletedIds.length} track(s) deleted on the gateway`);
+        }
+        forgetTracks(deletedIds);
+
+        // Pick up metadata that changed on the server, e.g. the downloaded rendition's loudness
+        setDownloads((current) => {
+          let changed = false;
+          const next = { ...current };
+          for (const track of tracks) {
+            const download = current[track.videoId];
+            if (!download) {
+              continue;
+            }
+            const updated = toDownloadedMetadata(track, download.quality);
+            const loudnessChanged = JSON.stringify(download.loudness ?? null) !== JSON.stringify(updated.loudness);
+            if (download.title !== updated.title || loudnessChanged) {
+              next[track.videoId] = { ...download, ...updated };
+              changed = true;
+            }
+          }
+          return changed ? next : current;
+        });
+      }
+
+      if (groups) {
+        const byId = new Map(groups.map((group) => [group.id, group]));
+        const nextGroups: Record<string, SavedGroup> = {};
+        for (const saved of Object.values(savedGroupsRef.current)) {
+          const group = byId.get(saved.id);
+          if (!group) {
+            continue; // deleted on the server; its tracks stay until removed
+          }
+          nextGroups[saved.id] = { ...saved, name: group.name, trackIds: group.trackIds };
+          const missing = libraryTracksRef.current.filter(
+            (track) => group.trackIds.includes(track.videoId) && !downloadsRef.current[track.videoId]
+          );
+          enqueue(missing, saved.quality);
+        }
+        setSavedGroups(nextGroups);
+      }
+    },
+    [enqueue, forgetTracks, isLoaded]
+  );
+
+  const usageBytes = useMemo(
+    () => Object.values(downloads).reduce((total, track) => total + track.sizeBytes, 0),
+    [downloads]
+  );
+
+  const value = useMemo(
+    () => ({
+      isSupported: OFFLINE_DOWNLOADS_SUPPORTED,
+      downloads,
+      savedGroups,
+      statuses,
+      usageBytes,
+      getLocalTrack,
+      downloadTrack,
+      downloadGroup,
+      removeDownload,
+      removeGroup,
+      clearDownloads,
+      syncWithLibrary,
+    }),
+    [
+      downloads,
+      savedGroups,
+      statuses,
+      usageBytes,
+      getLocalTrack,
+      downloadTrack,
+      downloadGroup,
+      removeDownload,
+      removeGroup,
+      clearDownloads,
+      syncWithLibrary,
+    ]
+  );
+
+  return <DownloadsContext.Provider value={value}>{children}</DownloadsContext.Provider>;
+}
+
+export function useDownloads() {
+  const context = useContext(DownloadsContext);
+  if (!context) {
+    throw new Error('useDownloads must be used within a DownloadsProvider');
+  }
+  return context;
+}
@@ -35,9 +35,20 @@ const STORAGE_KEYS = {
   SHOW_BANNER: 'kplayer_show_banner',
   IDLE_TIMEOUT: 'kplayer_idle_timeout',
   SHOW_DEBUG_CONSOLE: 'kplayer_show_debug_console',
-  CACHE_POLLING_INTERVAL: 'kplayer_cache_polling_interval',
+  VOLUME_NORMALIZATION: 'kplayer_volume_normalization',
+  QUALITY_WIFI: 'kplayer_quality_wifi',
+  QUALITY_CELLULAR: 'kplayer_quality_cellular',
+  CROSSFADE_SECONDS: 'kplayer_crossfade_seconds',
+  WEIGHTED_SHUFFLE: 'kplayer_weighted_shuffle',
 };
 
+export const MAX_CROSSFADE_SECONDS = 12;
+
+const AUDIO_QUALITIES: AudioQuality[] = ['mp3-128', 'mp3-320', 'aac-256', 'opus-96'];
+
+const isAudioQuality = (value: string | null): value is AudioQuality =>
+  AUDIO_QUALITIES.includes(value as AudioQuality);
+
 type SettingsContextValue = {
   autoRefreshEnabled: boolean;
   keepAliveEnabled: boolean;
@@ -51,8 +62,16 @@ type SettingsContextValue = {
   setIdleTimeout: (value: number) => void;
   showDebugConsole: boolean;
   setShowDebugConsole: (value: boolean) => void;
-  cachePollingInterval: number;
-  setCachePollingInterval: (value: number) => void;
+  volumeNormalization: boolean;
+  setVolumeNormalization: (value: boolean) => void;
+  preferredQualityWifi: AudioQuality;
+  setPreferredQualityWifi: (value: AudioQuality) => void;
+  preferredQualityCellular: AudioQuality;
+  setPreferredQualityCellular: (value: AudioQuality) => void;
+  crossfadeSeconds: number;
+  setCrossfadeSeconds: (value: number) => void;
+  weightedShuffle: boolean;
+  setWeightedShuffle: (value: boolean) => void;
 };
 
 const SettingsContext = createContext<SettingsContextValue | undefined>(undefined);
@@ -64,26 +83,52 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
   const [showBanner, setShowBanner] = useState(false);
   const [idleTimeout, setIdleTimeout] = useState(30);
   const [showDebugConsole, setShowDebugConsole] = useState(false);
-  const [cachePollingInterval, setCachePollingInterval] = useState(10); // Default 10 seconds
+  const [volumeNormalization, setVolumeNormalization] = useState(true);
+  // MP3 128k is what every track was cached as before renditions, so it avoids re-caching the library
+  const [preferredQualityWifi, setPreferredQualityWifi] = useState<AudioQuality>('mp3-128');
+  const [preferredQualityCellular, setPreferredQualityCellular] = useState<AudioQuality>('mp3-128');
+  const [crossfadeSeconds, setCrossfadeSeconds] = useState(0);
+  const [weightedShuffle, setWeightedShuffle] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Load settings from AsyncStorage on mount
   useEffect(() => {
     async function loadSettings() {
       try {
-        const [storedMode, storedBanner, storedTimeout, storedDebug, storedPolling] = await Promise.all([
+        const [
+          storedMode,
+          storedBanner,
+          storedTimeout,
+          storedDebug,
+          storedNormalization,
+          storedQualityWifi,
+          storedQualityCellular,
+          storedCrossfade,
+          storedWeightedShuffle,
+        ] = await Promise.all([
           AsyncStorage.getItem(STORAGE_KEYS.BACKGROUND_MODE),
           AsyncStorage.getItem(STORAGE_KEYS.SHOW_BANNER),
           AsyncStorage.getItem(STORAGE_KEYS.IDLE_TIMEOUT),
           AsyncStorage.getItem(STORAGE_KEYS.SHOW_DEBUG_CONSOLE),
-          AsyncStorage.getItem(STORAGE_KEYS.CACHE_POLLING_INTERVAL),
+          AsyncStorage.getItem(STORAGE_KEYS.VOLUME_NORMALIZATION),
+          AsyncStorage.getItem(STORAGE_KEYS.QUALITY_WIFI),
+          AsyncStorage.getItem(STORAGE_KEYS.QUALITY_CELLULAR),
+          AsyncStorage.getItem(STORAGE_KEYS.CROSSFADE_SECONDS),
+          AsyncStorage.getItem(STORAGE_KEYS.WEIGHTED_SHUFFLE),
         ]);
 
         if (storedMode) setBackgroundMode(storedMode as BackgroundMode);
         if (storedBanner !== null) setShowBanner(storedBanner === 'true');
         if (storedTimeout) setIdleTimeout(parseInt(storedTimeout, 10));
         if (storedDebug !== null) setShowDebugConsole(storedDebug === 'true');
-        if (storedPolling) setCachePollingInterval(parseInt(storedPolling, 10));
+        if (storedNormalization !== null) setVolumeNormalization(storedNormalization === 'true');
+        if (isAudioQuality(storedQualityWifi)) setPreferredQualityWifi(storedQualityWifi);
+        if (isAudioQuality(storedQualityCellular)) setPreferredQualityCellular(storedQualityCellular);
+        if (storedCrossfade) {
+          const seconds = parseInt(storedCrossfade, 10);
+          if (seconds >= 0 && seconds <= MAX_CROSSFADE_SECONDS) setCrossfadeSeconds(seconds);
+        }
+        if (storedWeightedShuffle !== null) setWeightedShuffle(storedWeightedShuffle === 'true');
 
         setIsLoaded(true);
       } catch (error) {
@@ -118,11 +163,30 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     AsyncStorage.setItem(STORAGE_KEYS.SHOW_DEBUG_CONSOLE, String(showDebugConsole));
   }, [showDebugConsole, isLoaded]);
 
-  // Save cachePollingInterval when it changes
+  // Save volumeNormalization when it changes
+  useEffect(() => {
+    if (!isLoaded) return;
+    AsyncStorage.setItem(STORAGE_KEYS.VOLUME_NORMALIZATION, String(volumeNormalization));
+  }, [volumeNormalization, isLoaded]);
+
+  // Save the preferred qualities when they change
+  useEffect(() => {
+    if (!isLoaded) return;
+    AsyncStorage.setItem(STORAGE_KEYS.QUALITY_WIFI, preferredQualityWifi);
+    AsyncStorage.setItem(STORAGE_KEYS.QUALITY_CELLULAR, preferredQualityCellular);
+  }, [preferredQualityWifi, preferredQualityCellular, isLoaded]);
+
+  // Save crossfadeSeconds when it changes
   useEffect(() => {
     if (!isLoaded) return;
-    AsyncStorage.setItem(STORAGE_KEYS.CACHE_POLLING_INTERVAL, String(cachePollingInterval));
-  }, [cachePollingInterval, isLoaded]);
+    AsyncStorage.setItem(STORAGE_KEYS.CROSSFADE_SECONDS, String(crossfadeSeconds));
+  }, [crossfadeSeconds, isLoaded]);
+
+  // Save weightedShuffle when it changes
+  useEffect(() => {
+    if (!isLoaded) return;
+    AsyncStorage.setItem(STORAGE_KEYS.WEIGHTED_SHUFFLE, String(weightedShuffle));
+  }, [weightedShuffle, isLoaded]);
 
   const value = useMemo(
     () => ({
@@ -138,10 +202,30 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
       setIdleTimeout,
       showDebugConsole,
       setShowDebugConsole,
-      cachePollingInterval,
-      setCachePollingInterval,
+      volumeNormalization,
+      setVolumeNormalization,
+      preferredQualityWifi,
+      setPreferredQualityWifi,
+      preferredQualityCellular,
+      setPreferredQualityCellular,
+      crossfadeSeconds,
+      setCrossfadeSeconds,
+      weightedShuffle,
+      setWeightedShuffle,
     }),
-    [autoRefreshEnabled, keepAliveEnabled, backgroundMode, showBanner, idleTimeout, showDebugConsole, cachePollingInterval]
+    [
+      autoRefreshEnabled,
+      keepAliveEnabled,
+      backgroundMode,
+      showBanner,
+      idleTimeout,
+      showDebugConsole,
+      volumeNormalization,
+      preferredQualityWifi,
+      preferredQualityCellular,
+      crossfadeSeconds,
+      weightedShuffle,
+    ]
   );
 
   return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
@@ -162,8 +246,14 @@ export const SETTINGS_DEFAULTS = {
   showBanner: false,
   idleTimeout: 30,
   showDebugConsole: false,
-  cachePollingInterval: 10,
+  volumeNormalization: true,
+  preferredQualityWifi: 'mp3-128' as AudioQuality,
+  preferredQualityCellular: 'mp3-128' as AudioQuality,
+  crossfadeSeconds: 0,
+  weightedShuffle: false,
 };
 
 export type BackgroundMode = 'galaxy' | 'pure_black' | 'rainbow_zappers' | 'particle_sphere' | 'tunnel_animation' | 'wormhole';
 
+// Rendition ids understood by the gateway's `?quality=`
+export type AudioQuality = 'mp3-128' | 'mp3-320' | 'aac-256' | 'opus-96';
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+
+import { getAccessState, subscribeToAccess } from '@/lib/api';
+
+/**
+ * Whether the gateway needs an access code and the current session, updated
+ * when a request finds the session expired or revoked.
+ */
+export function useAccess() {
+  return useSyncExternalStore(subscribeToAccess, getAccessState, getAccessState);
+}
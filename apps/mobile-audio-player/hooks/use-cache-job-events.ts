@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { STREAM_BASE_URL, getAccessState } from '@/lib/api';
+
+const RECONNECT_DELAY_MS = 3000;
+const MAX_RECONNECTS = 5;
+
+export type CacheJobPhase =
+  | 'queued'
+  | 'metadata'
+  | 'downloading'
+  | 'transcoding'
+  | 'uploading'
+  | 'normalizing'
+  | 'done'
+  | 'failed';
+
+export type CacheJobProgress = {
+  videoId: string;
+  // Rendition the job produces, e.g. mp3-128
+  quality?: string;
+  phase: CacheJobPhase;
+  percent: number | null;
+  error: string | null;
+  // Set while the gateway waits to retry a failed attempt
+  lastError?: string | null;
+  retryAt?: number | null;
+  attempts?: number;
+  downloadedBytes?: number;
+  totalBytes?: number | null;
+  transcodedSeconds?: number;
+  durationSeconds?: number | null;
+  uploadedBytes?: number;
+  outputBytes?: number;
+};
+
+/**
+ * Follow a gateway cache job through its Server-Sent Events stream
+ * (`/jobs/:videoId/events`). React Native has no EventSource, so this reads the
+ * stream incrementally through XMLHttpRequest, which works on every platform.
+ *
+ * `quality` picks the rendition's job; the gateway's default is used when null.
+ * `onFinished` fires once with the terminal (done/failed) snapshot.
+ */
+export function useCacheJobEvents(
+  videoId: string | null,
+  quality: string | null,
+  onFinished?: (progress: CacheJobProgress) => void
+) {
+  const [progress, setProgress] = useState<CacheJobProgress | null>(null);
+  const onFinishedRef = useRef(onFinished);
+
+  useEffect(() => {
+    onFinishedRef.current = onFinished;
+  }, [onFinished]);
+
+  useEffect(() => {
+    setProgress(null);
+    if (!videoId || !STREAM_BASE_URL) {
+      return undefined;
+    }
+
+    let xhr: XMLHttpRequest | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnects = 0;
+    let finished = false;
+
+    const handleEvent = (rawEvent: string) => {
+      const dataLines = rawEvent
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trim());
+      if (!dataLines.length) {
+        return; // comments / heartbeats
+      }
+      try {
+        const snapshot = JSON.parse(dataLines.join('\n')) as CacheJobProgress;
+        setProgress(snapshot);
+        if (snapshot.phase === 'done' || snapshot.phase === 'failed') {
+          finished = true;
+          xhr?.abort();
+          onFinishedRef.current?.(snapshot);
+        }
+      } catch (error) {
+        console.warn('[CacheJobEvents] Failed to parse event', error);
+      }
+    };
+
+    const connect = () => {
+      let consumed = 0;
+      const request = new XMLHttpRequest();
+      xhr = request;
+      const query = quality ? `?quality=${encodeURIComponent(quality)}` : '';
+      request.open('GET', `${STREAM_BASE_URL}/jobs/${encodeURIComponent(videoId)}/events${query}`);
+      request.setRequestHeader('Accept', 'text/event-stream');
+      const token = getAccessState().session?.token;
+      if (token) {
+        request.setRequestHeader('Authorization', `Bearer ${token}`);
+      }
+
+      const flush = () => {
+        const text = request.responseText.replace(/\r\n/g, '\n');
+        const lastBoundary = text.lastIndexOf('\n\n');
+        if (lastBoundary < consumed) {
+          return;
+        }
+        const complete = text.slice(consumed, lastBoundary);
+        consumed = lastBoundary + 2;
+        complete.split('\n\n').forEach(handleEvent);
+      };
+
+      request.onprogress = flush;
+
+      request.onloadend = () => {
+        if (finished || xhr !== request) {
+          return;
+        }
+        // The last event may arrive together with the end of the response
+        flush();
+        if (finished) {
+          return;
+        }
+        if (request.status === 404) {
+          // No job and nothing cached: the job was cleaned up after failing
+          finished = true;
+          const snapshot: CacheJobProgress = { videoId, phase: 'failed', percent: null, error: 'Cache job not found' };
+          setProgress(snapshot);
+          onFinishedRef.current?.(snapshot);
+          return;
+        }
+        if (reconnects < MAX_RECONNECTS) {
+          reconnects += 1;
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+
+      request.send();
+    };
+
+    connect();
+
+    return () => {
+      finished = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      xhr?.abort();
+    };
+  }, [videoId, quality]);
+
+  return progress;
+}
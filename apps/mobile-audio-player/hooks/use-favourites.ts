@@ -0,0 +1,14 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { getFavourites, loadTrackStats, subscribeToFavourites } from '@/lib/track-stats';
+
+/**
+ * Ids of the tracks marked as favourites on this device. Weighted shuffle
+ * plays them more often.
+ */
+export function useFavourites() {
+  useEffect(() => {
+    loadTrackStats();
+  }, []);
+  return useSyncExternalStore(subscribeToFavourites, getFavourites, getFavourites);
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+
+import { getQueueState, subscribeToQueue } from '@/lib/playback-queue';
+
+/**
+ * The queue TrackPlayer is playing, shared with the playback service so that
+ * lock-screen skips show up in the app.
+ */
+export function usePlaybackQueue() {
+  return useSyncExternalStore(subscribeToQueue, getQueueState, getQueueState);
+}
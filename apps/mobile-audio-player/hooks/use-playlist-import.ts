@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+
+import { STREAM_BASE_URL, api, rateLimitMessage } from '@/lib/api';
+
+const POLL_INTERVAL_MS = 3000;
+
+export type PlaylistImportItemStatus = 'cached' | 'caching' | 'failed' | 'unavailable';
+
+export type PlaylistImportItem = {
+  videoId: string;
+  title: string;
+  position: number;
+  status: PlaylistImportItemStatus;
+  error: string | null;
+};
+
+export type PlaylistImportReport = {
+  id: string;
+  playlistId: string;
+  quality: string;
+  title: string;
+  groupId: string;
+  groupName: string;
+  createdAt: string;
+  items: PlaylistImportItem[];
+  finished: boolean;
+  summary: Record<PlaylistImportItemStatus, number> & { total: number };
+};
+
+/**
+ * Start a playlist import on the gateway (`POST /imports`) and poll its report
+ * until every item is cached, failed or unavailable.
+ *
+ * `onChange` fires when the import starts and again when it finishes, so the
+ * caller can refresh its track and group lists.
+ */
+export function usePlaylistImport(onChange?: (report: PlaylistImportReport) => void) {
+  const [report, setReport] = useState<PlaylistImportReport | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  const startImport = useCallback(async (playlist: string, quality?: string) => {
+    if (!STREAM_BASE_URL) {
+      setError('未设置后端地址，无法导入播放列表');
+      return;
+    }
+    setIsStarting(true);
+    setError(null);
+    try {
+      const response = await api.post<PlaylistImportReport>('/imports', { playlist, quality });
+      setReport(response.data);
+      onChangeRef.current?.(response.data);
+    } catch (requestError) {
+      console.error('Failed to import playlist', requestError);
+      setError(rateLimitMessage(requestError) ?? '导入播放列表失败，请检查链接后重试');
+    } finally {
+      setIsStarting(false);
+    }
+  }, []);
+
+  const importId = report && !report.finished ? report.id : null;
+
+  useEffect(() => {
+    if (!importId) {
+      return undefined;
+    }
+    const interval = setInterval(async () => {
+      try {
+        const response = await api.get<PlaylistImportReport>(`/imports/${importId}`);
+        setReport(response.data);
+        if (response.data.finished) {
+          onChangeRef.current?.(response.data);
+        }
+      } catch (pollError) {
+        if (axios.isAxiosError(pollError) && pollError.response?.status === 404) {
+          // The gateway restarted and forgot the report; stop polling
+          setReport((current) => (current ? { ...current, finished: true } : current));
+          return;
+        }
+        console.warn('Failed to refresh playlist import', pollError);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [importId]);
+
+  const dismiss = useCallback(() => {
+    setReport(null);
+    setError(null);
+  }, []);
+
+  return { report, isStarting, error, startImport, dismiss };
+}
@@ -0,0 +1,13 @@
+import { NetworkStateType, useNetworkState } from 'expo-network';
+
+import { useSettings, type AudioQuality } from '@/context/settings-context';
+
+/**
+ * Rendition to request from the gateway: the cellular preference while on
+ * mobile data, the Wi-Fi one on any other connection.
+ */
+export function usePreferredQuality(): AudioQuality {
+  const { preferredQualityWifi, preferredQualityCellular } = useSettings();
+  const networkState = useNetworkState();
+  return networkState.type === NetworkStateType.CELLULAR ? preferredQualityCellular : preferredQualityWifi;
+}
@@ -2,12 +2,8 @@
 import { AppRegistry } from 'react-native';
 import TrackPlayer from 'react-native-track-player';
 
-import { Platform } from 'react-native';
-
-// Must be registered right away
-if (Platform.OS !== 'web') {
-    TrackPlayer.registerPlaybackService(() => require('./service'));
-}
+// Must be registered right away. On web the shim runs it once the player is set up.
+TrackPlayer.registerPlaybackService(() => require('./service'));
 
 // Proceed with standard Expo Router entry
 import 'expo-router/entry';
@@ -0,0 +1,205 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios, { isAxiosError } from 'axios';
+
+export const STREAM_BASE_URL = (process.env.EXPO_PUBLIC_STREAM_BASE_URL ?? '').replace(/\/$/, '');
+const SESSION_KEY = '@kplayer/access-gate';
+// Tokens are refreshed this long before they expire
+const REFRESH_LEAD_MS = 5 * 60 * 1000;
+const REFRESH_RETRY_MS = 60 * 1000;
+// setTimeout can't wait longer than this
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Each role can do everything the ones before it can
+const ROLES = ['listener', 'curator', 'admin'] as const;
+
+export type AccessRole = (typeof ROLES)[number];
+
+type AccessSession = {
+  token: string;
+  expiresAt: string;
+  // What the access code allows; sessions saved before roles existed have none until checked
+  role?: AccessRole;
+};
+
+/**
+ * Whether the gateway asks for an access code (null until known), and the
+ * session token it issued when it does.
+ */
+export type AccessState = {
+  enabled: boolean | null;
+  session: AccessSession | null;
+};
+
+let state: AccessState = { enabled: null, session: null };
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Axios instance for every gateway request: adds the session token and drops
+ * the session when the gateway rejects it, which brings the access gate back.
+ */
+export const api = axios.create({ baseURL: STREAM_BASE_URL });
+
+api.interceptors.request.use((config) => {
+  if (state.session) {
+    config.headers.Authorization = `Bearer ${state.session.token}`;
+  }
+  return config;
+});
+
+api.interceptors.response.use(undefined, (error) => {
+  const sentToken = isAxiosError(error) && error.config?.headers?.Authorization;
+  if (sentToken && error.response?.status === 401 && sentToken === `Bearer ${state.session?.token}`) {
+    setAccessSession(null).catch((storageError) => {
+      console.warn('[Api] Failed to clear the session', storageError);
+    });
+  }
+  return Promise.reject(error);
+});
+
+function updateAccessState(next: Partial<AccessState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+export function getAccessState() {
+  return state;
+}
+
+export function subscribeToAccess(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Gateway requests can go out: no access code is needed, or there is a session
+export function isAccessGranted(access: AccessState) {
+  return access.enabled === false || access.session !== null;
+}
+
+/**
+ * Whether the gateway would let this session do what `role` can. Without an
+ * access code everyone is an admin. Only hides controls; the gateway enforces it.
+ */
+export function hasRole(access: AccessState, role: AccessRole) {
+  if (access.enabled === false) {
+    return true;
+  }
+  const current = access.session?.role;
+  return current !== undefined && ROLES.indexOf(current) >= ROLES.indexOf(role);
+}
+
+export function setAccessControlEnabled(enabled: boolean) {
+  updateAccessState({ enabled });
+}
+
+function scheduleRefresh(session: AccessSession | null) {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  if (!session) {
+    return;
+  }
+  const delay = Date.parse(session.expiresAt) - Date.now() - REFRESH_LEAD_MS;
+  refreshTimer = setTimeout(() => {
+    refreshAccessSession().catch((error) => {
+      console.warn('[Api] Failed to refresh the session', error);
+    });
+  }, Math.min(Math.max(0, delay), MAX_TIMER_MS));
+}
+
+export async function setAccessSession(session: AccessSession | null) {
+  updateAccessState({ session });
+  scheduleRefresh(session);
+  if (session) {
+    await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } else {
+    await AsyncStorage.removeItem(SESSION_KEY);
+  }
+}
+
+async function refreshAccessSession() {
+  const current = state.session;
+  if (!current) {
+    return;
+  }
+  try {
+    const response = await api.post<AccessSession>('/api/access-control/refresh');
+    // At its maximum age the session comes back unchanged, so there is no point asking again
+    if (Date.parse(response.data.expiresAt) > Date.parse(current.expiresAt)) {
+      await setAccessSession(response.data);
+    }
+  } catch (error) {
+    // A rejected token is dropped by the interceptor; otherwise try again while it lasts
+    if (state.session === current && Date.parse(current.expiresAt) - Date.now() > REFRESH_RETRY_MS) {
+      refreshTimer = setTimeout(() => {
+        refreshAccessSession().catch(() => undefined);
+      }, REFRESH_RETRY_MS);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sign this device out, or every device at once, and forget the session.
+ */
+export async function endAccessSession(everywhere = false) {
+  await api.post(everywhere ? '/api/access-control/revoke-all' : '/api/access-control/logout');
+  await setAccessSession(null);
+}
+
+/**
+ * Bring back the saved session and check it with the gateway. Returns whether
+ * it is still valid; an expired or revoked one is dropped.
+ */
+export async function restoreAccessSession() {
+  const stored = await AsyncStorage.getItem(SESSION_KEY);
+  const session = stored ? (JSON.parse(stored) as Partial<AccessSession>) : null;
+  if (!session?.token || !session.expiresAt || Date.parse(session.expiresAt) <= Date.now()) {
+    await setAccessSession(null);
+    return false;
+  }
+  updateAccessState({ session: session as AccessSession });
+  try {
+    // The access code's role may have changed since
+    const response = await api.get<{ role?: AccessRole }>('/api/access-control/session');
+    if (state.session && response.data.role && response.data.role !== state.session.role) {
+      await setAccessSession({ ...state.session, role: response.data.role });
+    }
+  } catch (error) {
+    if (isAxiosError(error) && error.response?.status === 401) {
+      return false;
+    }
+    // Unreachable gateway: keep the session and let the next request decide
+  }
+  scheduleRefresh(state.session);
+  return state.session !== null;
+}
+
+/**
+ * Seconds the gateway asked us to wait before trying again (its `Retry-After`),
+ * or null when the error is not a 429.
+ */
+export function getRetryAfterSeconds(error: unknown) {
+  if (!isAxiosError(error) || error.response?.status !== 429) {
+    return null;
+  }
+  const retryAfter = Number(error.response.headers['retry-after'] ?? error.response.data?.retryAfter);
+  return Number.isFinite(retryAfter) && retryAfter > 0 ? Math.ceil(retryAfter) : 60;
+}
+
+// e.g. "30 秒" or "5 分钟"
+export function formatRetryAfter(seconds: number) {
+  return seconds < 60 ? `${seconds} 秒` : `${Math.ceil(seconds / 60)} 分钟`;
+}
+
+/**
+ * What to tell the user when the gateway turned a request away for being too
+ * frequent, or null for any other error.
+ */
+export function rateLimitMessage(error: unknown) {
+  const seconds = getRetryAfterSeconds(error);
+  return seconds === null ? null : `请求过于频繁，请 ${formatRetryAfter(seconds)}后再试`;
+}
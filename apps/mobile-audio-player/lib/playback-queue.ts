@@ -0,0 +1,885 @@
+import TrackPlayer, { RepeatMode, type Track } from 'react-native-track-player';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { loadTrackStats, recordPlay, shuffleWeight } from './track-stats';
+import { STREAM_BASE_URL, api, getAccessState } from './api';
+
+// Remote "previous" restarts the track instead once it has played this long
+const RESTART_THRESHOLD_SECONDS = 3;
+// The next track is resolved this long before the current one ends, so the
+// player gets a URL it can load straight away instead of the gateway's redirect
+const PREFETCH_LEAD_SECONDS = 60;
+const TICK_MS = 1000;
+// Volume steps while fading
+const FADE_TICK_MS = 200;
+const STORAGE_KEY = 'kplayer_play_queue';
+const POSITION_KEY = 'kplayer_play_position';
+// How far playback moves before the saved position is updated
+const POSITION_SAVE_STEP_SECONDS = 5;
+// A play counts in the gateway's history once half the track, or this much of
+// it, has been listened to
+const PLAY_REPORT_MAX_SECONDS = 240;
+// Position changes bigger than this between ticks are seeks, not listening
+const MAX_LISTEN_STEP_SECONDS = 3;
+// A track that fails to play is loaded again with a fresh URL this often
+// before it is skipped, and the queue stops after this many tracks fail in a row
+const MAX_TRACK_RETRIES = 1;
+const MAX_FAILED_TRACKS = 3;
+
+// The web shim overlaps the two tracks of a crossfade itself; TrackPlayer on
+// iOS and Android plays one track at a time, so there the queue fades instead
+const crossfadingPlayer = TrackPlayer as typeof TrackPlayer & {
+  setCrossfade?: (seconds: number) => Promise<void>;
+};
+
+export type QueueTrackLoudness = {
+  gainDb: number;
+  // Already normalized in the file itself, so no gain is needed
+  normalized: boolean;
+};
+
+export type QueueItem = {
+  videoId: string;
+  title: string;
+  author?: string;
+  durationSeconds?: number | null;
+  thumbnailUrl?: string | null;
+  // Measured per cached rendition; the top-level one is a download's, or from before renditions
+  renditions?: Record<string, { loudness?: QueueTrackLoudness | null }>;
+  loudness?: QueueTrackLoudness | null;
+};
+
+/**
+ * What is queued in TrackPlayer and why. The app screen and the playback
+ * service (lock screen, headphones) read and update the same state.
+ */
+export type PlaybackQueueState = {
+  items: QueueItem[];
+  activeIndex: number | null;
+  // Set while a group is playing
+  groupId: string | null;
+  repeatMode: RepeatMode;
+  // The group or library the queue was built from, in its own order
+  context: QueueItem[];
+  // The queue is a shuffle bag of `context`, refilled as it runs out
+  shuffle: boolean;
+};
+
+// How queued items become player tracks
+export type QueueTrackOptions = {
+  quality: string;
+  // Device copy of a track and its rendition, played instead of the gateway's
+  localTrack?: (videoId: string) => { uri: string; quality: string } | null;
+};
+
+type StartQueueOptions = QueueTrackOptions & {
+  // Without it a shuffled queue starts anywhere
+  startIndex?: number;
+  groupId?: string | null;
+  repeatMode: RepeatMode;
+  shuffle?: boolean;
+};
+
+const EMPTY_STATE: PlaybackQueueState = {
+  items: [],
+  activeIndex: null,
+  groupId: null,
+  repeatMode: RepeatMode.Off,
+  context: [],
+  shuffle: false,
+};
+
+let state = EMPTY_STATE;
+let queueOptions: QueueTrackOptions | null = null;
+let volumeNormalization = true;
+let activeLoudness: QueueTrackLoudness | null = null;
+let crossfadeSeconds = 0;
+let weightedShuffle = false;
+// Multiplies the track's volume while fading out of or into a track
+let fadeLevel = 1;
+let fadingIn = false;
+// `${index}:${videoId}` of queue entries already resolved
+const prefetched = new Set<string>();
+let tickTimer: ReturnType<typeof setTimeout> | null = null;
+let savedPosition: { videoId: string; position: number } | null = null;
+// Bumped for every queue loaded into TrackPlayer. Tracks carry the generation
+// they were queued in, and their events only count once that queue is loaded.
+let queueGeneration = 0;
+let loadedGeneration = 0;
+// Playback errors since a track last played
+let playbackFailures: { videoId: string; retries: number; failedTracks: number } | null = null;
+// Listening to the active track since it became active (or started over)
+let listen: { videoId: string; seconds: number; position: number; reported: boolean } | null = null;
+const listeners = new Set<() => void>();
+
+function updateState(next: Partial<PlaybackQueueState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state)).catch((error) => {
+    console.warn('[Queue] Failed to save the queue', error);
+  });
+}
+
+export function getQueueState() {
+  return state;
+}
+
+export function subscribeToQueue(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Loudness of the rendition that plays at `quality`
+export function loudnessFor(item: QueueItem, quality: string) {
+  return item.renditions?.[quality]?.loudness ?? item.loudness ?? null;
+}
+
+/**
+ * Player volume for a track's replay gain. The volume can't go above 1, so
+ * this only attenuates: loud tracks are turned down to the target while quiet
+ * ones stay at full volume.
+ */
+export function volumeForLoudness(loudness: QueueTrackLoudness | null | undefined) {
+  if (!loudness || loudness.normalized) {
+    return 1;
+  }
+  return Math.min(1, Math.pow(10, loudness.gainDb / 20));
+}
+
+async function applyVolume() {
+  const trackVolume = volumeNormalization ? volumeForLoudness(activeLoudness) : 1;
+  await TrackPlayer.setVolume(trackVolume * fadeLevel);
+}
+
+async function applyTrackVolume(track: Track | undefined) {
+  activeLoudness = (track?.loudness as QueueTrackLoudness | null | undefined) ?? null;
+  await applyVolume();
+}
+
+/**
+ * Gateway URL that redirects to the track's audio when the player gets to it,
+ * so queued tracks are neither signed nor cached before they are needed. It
+ * carries no token: with an access code a track is resolved before it plays,
+ * ahead of time by the prefetch or else as soon as it becomes active.
+ */
+export function queueAudioUrl(videoId: string, quality: string) {
+  return `${STREAM_BASE_URL}/stream/${encodeURIComponent(videoId)}/audio?quality=${encodeURIComponent(quality)}`;
+}
+
+/**
+ * A URL the player can load right now: the device copy, or the signed file or
+ * live stream the gateway resolves the track to (starting its cache job).
+ */
+async function resolveTrackUrl(item: QueueItem, options: QueueTrackOptions) {
+  const local = options.localTrack?.(item.videoId);
+  if (local) {
+    return local.uri;
+  }
+  const response = await api.get<{ cached: boolean; url: string | null }>(
+    `/stream/${encodeURIComponent(item.videoId)}`,
+    { params: { quality: options.quality } }
+  );
+  return response.data.url ?? queueAudioUrl(item.videoId, options.quality);
+}
+
+// A queued track the player can't load as it is: its gateway redirect needs an access code
+function needsResolving(track: Track) {
+  if (!queueOptions || getAccessState().enabled === false) {
+    return false;
+  }
+  return track.url === queueAudioUrl(String(track.id), queueOptions.quality);
+}
+
+// Swap the URL of a queued track that isn't the active one
+async function replaceQueuedUrl(index: number, url: string) {
+  const queue = await TrackPlayer.getQueue();
+  const queued = queue[index];
+  if (!queued || queued.url === url) {
+    return;
+  }
+  await TrackPlayer.remove(index);
+  await TrackPlayer.add({ ...queued, url }, index < queue.length - 1 ? index : undefined);
+}
+
+/**
+ * Resolve the queued track at `index` before skipping to it. If that fails the
+ * player is left with the queued URL and reports the error itself.
+ */
+async function prepareSkip(index: number) {
+  const item = state.items[index];
+  if (!queueOptions || !item || index === state.activeIndex) {
+    return;
+  }
+  try {
+    await replaceQueuedUrl(index, await resolveTrackUrl(item, queueOptions));
+  } catch (error) {
+    console.warn('[Queue] Failed to resolve the track', error);
+  }
+}
+
+function toPlayerTrack(item: QueueItem, options: QueueTrackOptions): Track {
+  const local = options.localTrack?.(item.videoId);
+  return {
+    id: item.videoId,
+    url: local?.uri ?? queueAudioUrl(item.videoId, options.quality),
+    title: item.title,
+    artist: item.author ?? 'Unknown',
+    artwork: item.thumbnailUrl ?? undefined,
+    duration: item.durationSeconds ?? 0,
+    // A download may be another rendition than the one streamed at `quality`
+    loudness: loudnessFor(item, local?.quality ?? options.quality),
+    generation: queueGeneration,
+  };
+}
+
+/**
+ * Whether a TrackPlayer event about `track` belongs to the queue as it stands,
+ * and not to one replaced since or one still being loaded.
+ */
+export function isCurrentQueueTrack(track: Track | undefined) {
+  return loadedGeneration === queueGeneration && track?.generation === queueGeneration;
+}
+
+// Random order, or with weighted shuffle a weighted random order (Efraimidis–Spirakis)
+function shuffleBag(items: QueueItem[]) {
+  if (weightedShuffle) {
+    const now = Date.now();
+    return items
+      .map((item) => ({ item, key: Math.pow(Math.random(), 1 / shuffleWeight(item.videoId, now)) }))
+      .sort((a, b) => b.key - a.key)
+      .map(({ item }) => item);
+  }
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Next round of the bag; it doesn't start with the track that ended the last one
+function nextShuffleBag(lastVideoId: string | undefined) {
+  const bag = shuffleBag(state.context);
+  if (bag.length > 1 && bag[0].videoId === lastVideoId) {
+    const swapWith = 1 + Math.floor(Math.random() * (bag.length - 1));
+    [bag[0], bag[swapWith]] = [bag[swapWith], bag[0]];
+  }
+  return bag;
+}
+
+/**
+ * Replace TrackPlayer's queue with `items` and start playing at `startIndex`.
+ * With `shuffle` the item at `startIndex` plays first and the rest follow as a
+ * shuffle bag. Returns the item that plays first.
+ */
+export async function startQueue(items: QueueItem[], options: StartQueueOptions) {
+  let ordered = items;
+  let startIndex = options.startIndex ?? 0;
+  if (options.shuffle) {
+    await loadTrackStats();
+    const first = options.startIndex === undefined ? [] : [items[options.startIndex]];
+    ordered = [...first, ...shuffleBag(items.filter((_, i) => i !== options.startIndex))];
+    startIndex = 0;
+  }
+  const startUrl = await resolveTrackUrl(ordered[startIndex], options);
+
+  queueGeneration += 1;
+  const tracks = ordered.map((item) => toPlayerTrack(item, options));
+  tracks[startIndex] = { ...tracks[startIndex], url: startUrl };
+  queueOptions = options;
+  prefetched.clear();
+  fadeLevel = 1;
+  fadingIn = false;
+  listen = null;
+  // The state is the new queue's before TrackPlayer reports on it
+  updateState({
+    items: ordered,
+    activeIndex: startIndex,
+    groupId: options.groupId ?? null,
+    repeatMode: options.repeatMode,
+    context: items,
+    shuffle: Boolean(options.shuffle),
+  });
+
+  try {
+    await TrackPlayer.reset();
+    await TrackPlayer.add(tracks);
+    if (startIndex > 0) {
+      await TrackPlayer.skip(startIndex);
+    }
+    await TrackPlayer.setRepeatMode(options.repeatMode);
+  } catch (error) {
+    clearQueueState();
+    throw error;
+  }
+  loadedGeneration = queueGeneration;
+  await applyTrackVolume(tracks[startIndex]);
+  await TrackPlayer.play();
+  scheduleTick(TICK_MS);
+  recordPlay(ordered[startIndex].videoId).catch((error) => {
+    console.warn('[Queue] Failed to record the play', error);
+  });
+  return ordered[startIndex];
+}
+
+async function savePosition(videoId: string, position: number) {
+  savedPosition = { videoId, position };
+  await AsyncStorage.setItem(POSITION_KEY, JSON.stringify(savedPosition));
+}
+
+export type RestoredSession = {
+  state: PlaybackQueueState;
+  // Where the active track resumes, in seconds
+  position: number;
+  // The track that was playing is gone, so another one took its place
+  activeTrackMissing: boolean;
+  missingCount: number;
+};
+
+/**
+ * Load the session saved last time: the queue, paused at the track and
+ * position that were playing. Tracks for which `isAvailable` is false (deleted
+ * from the gateway since) are left out before anything is loaded, as loading
+ * them would have the gateway cache them again. Does nothing when the player
+ * already has a queue, e.g. when the app is reopened while the playback
+ * service kept playing.
+ */
+export async function restoreQueue(
+  options: QueueTrackOptions,
+  isAvailable: (videoId: string) => boolean
+): Promise<RestoredSession | null> {
+  const [storedQueue, storedPosition] = await Promise.all([
+    AsyncStorage.getItem(STORAGE_KEY),
+    AsyncStorage.getItem(POSITION_KEY),
+  ]);
+  const saved = storedQueue ? (JSON.parse(storedQueue) as PlaybackQueueState) : null;
+  if (!saved?.items?.length || (await TrackPlayer.getQueue()).length) {
+    return null;
+  }
+  const savedActive = Math.min(Math.max(saved.activeIndex ?? 0, 0), saved.items.length - 1);
+  const activeVideoId = saved.items[savedActive].videoId;
+  // Available items, and where the active one (or the first one after it) ends up
+  const items: QueueItem[] = [];
+  let startIndex: number | null = null;
+  for (const [index, item] of saved.items.entries()) {
+    if (!isAvailable(item.videoId)) {
+      continue;
+    }
+    if (startIndex === null && index >= savedActive) {
+      startIndex = items.length;
+    }
+    items.push(item);
+  }
+  const missingCount = saved.items.length - items.length;
+  if (!items.length) {
+    clearQueueState();
+    return null;
+  }
+  startIndex ??= 0;
+  const activeTrackMissing = items[startIndex].videoId !== activeVideoId;
+  const position = storedPosition ? (JSON.parse(storedPosition) as { videoId: string; position: number }) : null;
+  const startPosition = !activeTrackMissing && position?.videoId === activeVideoId ? position.position : 0;
+  let startUrl: string | null = null;
+  try {
+    startUrl = await resolveTrackUrl(items[startIndex], options);
+  } catch (error) {
+    // Restored paused; the gateway may be reachable by the time play is pressed
+    console.warn('[Queue] Failed to resolve the restored track', error);
+  }
+
+  queueGeneration += 1;
+  const tracks = items.map((item) => toPlayerTrack(item, options));
+  if (startUrl) {
+    tracks[startIndex] = { ...tracks[startIndex], url: startUrl };
+  }
+  queueOptions = options;
+  prefetched.clear();
+  fadeLevel = 1;
+  fadingIn = false;
+  listen = null;
+  savedPosition = { videoId: items[startIndex].videoId, position: startPosition };
+  updateState({
+    items,
+    activeIndex: startIndex,
+    groupId: saved.groupId ?? null,
+    repeatMode: saved.repeatMode,
+    context: (saved.context ?? saved.items).filter((item) => isAvailable(item.videoId)),
+    shuffle: Boolean(saved.shuffle),
+  });
+
+  try {
+    await TrackPlayer.add(tracks);
+    if (startIndex > 0 || startPosition > 0) {
+      await TrackPlayer.skip(startIndex, startPosition || undefined);
+    }
+    await TrackPlayer.setRepeatMode(saved.repeatMode);
+  } catch (error) {
+    clearQueueState();
+    throw error;
+  }
+  loadedGeneration = queueGeneration;
+  await applyTrackVolume(tracks[startIndex]);
+  scheduleTick(TICK_MS);
+  return { state, position: startPosition, activeTrackMissing, missingCount };
+}
+
+/**
+ * Insert items right after the active track or at the end of the queue.
+ * Only for a queue that is loaded; an empty one is started with `startQueue`.
+ */
+export async function enqueue(items: QueueItem[], position: 'next' | 'end') {
+  const options = queueOptions;
+  if (!options || state.activeIndex === null) {
+    throw new Error('No queue is loaded');
+  }
+  const at = position === 'next' ? state.activeIndex + 1 : state.items.length;
+  const tracks = items.map((item) => toPlayerTrack(item, options));
+  await TrackPlayer.add(tracks, at < state.items.length ? at : undefined);
+
+  const next = [...state.items];
+  next.splice(at, 0, ...items);
+  updateState({ items: next });
+}
+
+// Indexes shift when tracks move, so ask the player where the active one ended up
+async function playerActiveIndex() {
+  return (await TrackPlayer.getActiveTrackIndex()) ?? null;
+}
+
+export async function removeFromQueue(index: number) {
+  // Removing the active track would skip to the next one; stopping is separate
+  if (index === state.activeIndex || index < 0 || index >= state.items.length) {
+    return;
+  }
+  await TrackPlayer.remove(index);
+  updateState({
+    items: state.items.filter((_, i) => i !== index),
+    activeIndex: await playerActiveIndex(),
+  });
+}
+
+export async function moveInQueue(fromIndex: number, toIndex: number) {
+  if (fromIndex === toIndex) {
+    return;
+  }
+  await TrackPlayer.move(fromIndex, toIndex);
+  const next = [...state.items];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  updateState({ items: next, activeIndex: await playerActiveIndex() });
+}
+
+/**
+ * Drop everything but the active track, which keeps playing. The queue is no
+ * longer the group's after that.
+ */
+export async function clearUpcoming() {
+  const active = state.activeIndex;
+  if (active === null) {
+    return;
+  }
+  await removeAllButActive(active);
+  updateState({
+    items: [state.items[active]],
+    activeIndex: 0,
+    groupId: null,
+    context: [state.items[active]],
+    shuffle: false,
+  });
+}
+
+async function removeAllButActive(active: number) {
+  const others = state.items.map((_, i) => i).filter((i) => i !== active);
+  if (others.length) {
+    await TrackPlayer.remove(others);
+  }
+}
+
+/**
+ * Turn shuffle on or off for the queue that is playing. The active track keeps
+ * playing; after it comes a shuffle bag of the queue's group or library, or
+ * with shuffle off that group or library in its own order from this track on.
+ */
+export async function setQueueShuffle(shuffle: boolean) {
+  const active = state.activeIndex;
+  const options = queueOptions;
+  if (active === null || !options || shuffle === state.shuffle) {
+    return;
+  }
+  const current = state.items[active];
+  let before: QueueItem[] = [];
+  let after: QueueItem[];
+  if (shuffle) {
+    await loadTrackStats();
+    after = shuffleBag(state.context.filter((item) => item.videoId !== current.videoId));
+  } else {
+    const position = state.context.findIndex((item) => item.videoId === current.videoId);
+    before = position >= 0 ? state.context.slice(0, position) : [];
+    after = position >= 0 ? state.context.slice(position + 1) : state.context;
+  }
+
+  await removeAllButActive(active);
+  if (after.length) {
+    await TrackPlayer.add(after.map((item) => toPlayerTrack(item, options)));
+  }
+  if (before.length) {
+    await TrackPlayer.add(before.map((item) => toPlayerTrack(item, options)), 0);
+  }
+  prefetched.clear();
+  updateState({ items: [...before, current, ...after], activeIndex: before.length, shuffle });
+}
+
+// Applies from the next shuffle bag on
+export function setShuffleWeighting(weighted: boolean) {
+  weightedShuffle = weighted;
+}
+
+// Append the next round before the last track of the bag ends, so the queue never wraps
+async function refillShuffleBag() {
+  const options = queueOptions;
+  if (!options || !state.shuffle || state.repeatMode !== RepeatMode.Queue || !state.context.length) {
+    return;
+  }
+  await loadTrackStats();
+  const bag = nextShuffleBag(state.items[state.items.length - 1]?.videoId);
+  await TrackPlayer.add(bag.map((item) => toPlayerTrack(item, options)));
+  updateState({ items: [...state.items, ...bag] });
+}
+
+export async function playQueueItem(index: number) {
+  await prepareSkip(index);
+  await TrackPlayer.skip(index);
+  await TrackPlayer.play();
+}
+
+export async function setQueueRepeatMode(repeatMode: RepeatMode) {
+  await TrackPlayer.setRepeatMode(repeatMode);
+  updateState({ repeatMode });
+}
+
+export function clearQueueState() {
+  if (tickTimer) {
+    clearTimeout(tickTimer);
+    tickTimer = null;
+  }
+  queueOptions = null;
+  fadeLevel = 1;
+  fadingIn = false;
+  savedPosition = null;
+  listen = null;
+  playbackFailures = null;
+  // Whatever TrackPlayer still reports about the old queue is ignored
+  queueGeneration += 1;
+  loadedGeneration = queueGeneration;
+  updateState(EMPTY_STATE);
+  AsyncStorage.removeItem(POSITION_KEY).catch((error) => {
+    console.warn('[Queue] Failed to clear the saved position', error);
+  });
+}
+
+/**
+ * Keep the state in step with TrackPlayer's active track
+ * (Event.PlaybackActiveTrackChanged) and apply that track's volume.
+ */
+export async function syncActiveTrack(index: number | undefined, track: Track | undefined) {
+  if (!isCurrentQueueTrack(track)) {
+    return;
+  }
+  if (index !== state.activeIndex) {
+    // Reached while the previous track was fading out, so this one fades in
+    fadingIn = crossfadeSeconds > 0 && fadeLevel < 1;
+    fadeLevel = fadingIn ? 0 : 1;
+    listen = null;
+    updateState({ activeIndex: index ?? null });
+    if (track?.id) {
+      recordPlay(track.id).catch((error) => {
+        console.warn('[Queue] Failed to record the play', error);
+      });
+    }
+    if (index !== undefined && track && needsResolving(track)) {
+      await loadResolvedTrack(index, track);
+    }
+    if (index !== undefined && index === state.items.length - 1) {
+      await refillShuffleBag();
+    }
+  }
+  await applyTrackVolume(track);
+}
+
+/**
+ * Reload the active track with a URL resolved now. For tracks the player
+ * reached before the prefetch got to them: one shorter than the prefetch lead,
+ * or a seek close to the end.
+ */
+async function loadResolvedTrack(index: number, track: Track) {
+  const item = state.items[index];
+  if (!queueOptions || item?.videoId !== track.id) {
+    return;
+  }
+  try {
+    const url = await resolveTrackUrl(item, queueOptions);
+    if (state.activeIndex === index && (await TrackPlayer.getActiveTrackIndex()) === index) {
+      await TrackPlayer.load({ ...track, url });
+    }
+  } catch (error) {
+    console.warn('[Queue] Failed to resolve the active track', error);
+  }
+}
+
+export async function setQueueVolumeNormalization(enabled: boolean) {
+  volumeNormalization = enabled;
+  await applyVolume();
+}
+
+/**
+ * Loudness of the active track, for tracks that were still caching when they
+ * were queued and got their measurement since.
+ */
+export async function setActiveTrackLoudness(loudness: QueueTrackLoudness | null) {
+  activeLoudness = loudness;
+  await applyVolume();
+}
+
+/**
+ * Seconds over which a track crossfades into the next one, 0 for none. On web
+ * the next track starts that long before the active one ends and the two
+ * overlap. On native the track fades out and the next one fades in after it.
+ */
+export async function setQueueCrossfade(seconds: number) {
+  crossfadeSeconds = seconds;
+  if (crossfadingPlayer.setCrossfade) {
+    await crossfadingPlayer.setCrossfade(seconds);
+    return;
+  }
+  if (seconds === 0 && fadeLevel !== 1) {
+    fadeLevel = 1;
+    fadingIn = false;
+    await applyVolume();
+  }
+}
+
+function nextQueueIndex() {
+  if (state.activeIndex === null) {
+    return null;
+  }
+  if (state.activeIndex + 1 < state.items.length) {
+    return state.activeIndex + 1;
+  }
+  return state.repeatMode === RepeatMode.Queue ? 0 : null;
+}
+
+async function reportPlay(item: QueueItem, listenedSeconds: number) {
+  await api.post('/plays', {
+    videoId: item.videoId,
+    title: item.title,
+    author: item.author,
+    listenedSeconds,
+  });
+}
+
+/**
+ * Count listening time on the active entry and report the play once it passes
+ * the threshold. Seeking doesn't count, and a repeating track counts again
+ * each time it starts over.
+ */
+function trackListening(item: QueueItem, position: number, duration: number) {
+  const restarted = listen?.reported && position < listen.position - MAX_LISTEN_STEP_SECONDS;
+  if (!listen || listen.videoId !== item.videoId || restarted) {
+    listen = { videoId: item.videoId, seconds: 0, position, reported: false };
+    return;
+  }
+  const step = position - listen.position;
+  if (step > 0 && step <= MAX_LISTEN_STEP_SECONDS) {
+    listen.seconds += step;
+  }
+  listen.position = position;
+  const threshold = duration > 0 ? Math.min(duration / 2, PLAY_REPORT_MAX_SECONDS) : PLAY_REPORT_MAX_SECONDS;
+  if (!listen.reported && listen.seconds >= threshold) {
+    listen.reported = true;
+    reportPlay(item, listen.seconds).catch((error) => {
+      console.warn('[Queue] Failed to report the play', error);
+    });
+  }
+}
+
+/**
+ * Resolve the next track through the gateway and swap its queued redirect URL
+ * for the signed file, or for the live stream of the cache job this starts.
+ * That includes the first track when a repeating queue wraps around.
+ */
+async function prefetchNextTrack() {
+  const active = state.activeIndex;
+  const next = nextQueueIndex();
+  // A queue of one repeats its active track, which is resolved already
+  if (next === null || next === active || !queueOptions) {
+    return;
+  }
+  const item = state.items[next];
+  const key = `${next}:${item.videoId}`;
+  if (prefetched.has(key)) {
+    return;
+  }
+  prefetched.add(key);
+  if (queueOptions.localTrack?.(item.videoId)) {
+    return;
+  }
+
+  const url = await resolveTrackUrl(item, queueOptions);
+  // The queue may have moved on while the request was out
+  const queued = await TrackPlayer.getTrack(next);
+  if (queued?.id !== item.videoId || state.activeIndex !== active) {
+    return;
+  }
+  await replaceQueuedUrl(next, url);
+}
+
+/**
+ * Fade level for the current position; returns whether a fade is under way.
+ */
+async function updateFade(position: number, remaining: number) {
+  let level = 1;
+  if (crossfadeSeconds > 0 && !crossfadingPlayer.setCrossfade) {
+    if (fadingIn && position < crossfadeSeconds) {
+      level = position / crossfadeSeconds;
+    } else {
+      fadingIn = false;
+    }
+    // Nothing to fade into when the track repeats or the queue ends
+    const fadesOut = state.repeatMode !== RepeatMode.Track && nextQueueIndex() !== null;
+    if (fadesOut && remaining < crossfadeSeconds) {
+      level = Math.min(level, remaining / crossfadeSeconds);
+    }
+  }
+  level = Math.max(0, Math.min(1, level));
+  if (level !== fadeLevel && (level === 1 || Math.abs(level - fadeLevel) >= 0.01)) {
+    fadeLevel = level;
+    await applyVolume();
+  }
+  return level < 1;
+}
+
+function scheduleTick(delay: number) {
+  if (tickTimer) {
+    clearTimeout(tickTimer);
+  }
+  tickTimer = setTimeout(tick, delay);
+}
+
+// Polls the progress while a queue is loaded, for prefetching, fades and play reports
+async function tick() {
+  tickTimer = null;
+  let fading = false;
+  try {
+    const { position, duration } = await TrackPlayer.getProgress();
+    // Live transcodes have no duration yet
+    const remaining = duration > 0 ? duration - position : Infinity;
+    fading = await updateFade(position, remaining);
+    const activeItem = state.activeIndex === null ? undefined : state.items[state.activeIndex];
+    // The listed duration still tells when to resolve the next track
+    const expectedRemaining = activeItem?.durationSeconds ? activeItem.durationSeconds - position : Infinity;
+    if (activeItem) {
+      trackListening(activeItem, position, duration);
+      if (listen?.seconds) {
+        playbackFailures = null;
+      }
+    }
+    if (
+      activeItem &&
+      (savedPosition?.videoId !== activeItem.videoId ||
+        Math.abs(savedPosition.position - position) >= POSITION_SAVE_STEP_SECONDS)
+    ) {
+      await savePosition(activeItem.videoId, position);
+    }
+    if (Math.min(remaining, expectedRemaining) <= PREFETCH_LEAD_SECONDS + crossfadeSeconds) {
+      await prefetchNextTrack();
+    }
+  } catch (error) {
+    console.warn('[Queue] Failed to prepare the next track', error);
+  }
+  // startQueue may have scheduled a tick of its own meanwhile
+  if (state.items.length && !tickTimer) {
+    scheduleTick(fading ? FADE_TICK_MS : TICK_MS);
+  }
+}
+
+export type PlaybackErrorOutcome = 'retried' | 'skipped' | 'stopped';
+
+/**
+ * Handle Event.PlaybackError for the active track: load it again with a URL
+ * resolved afresh (the queued one may be unsigned or expired), then skip it if
+ * it keeps failing. Returns 'stopped' once too many tracks failed in a row or
+ * there is nothing left to skip to; the caller stops the queue then.
+ */
+export async function recoverFromPlaybackError(): Promise<PlaybackErrorOutcome> {
+  const index = state.activeIndex;
+  const item = index === null ? undefined : state.items[index];
+  if (index === null || !item || !queueOptions) {
+    return 'stopped';
+  }
+  if (playbackFailures?.videoId !== item.videoId) {
+    playbackFailures = { videoId: item.videoId, retries: 0, failedTracks: playbackFailures?.failedTracks ?? 0 };
+  }
+
+  if (playbackFailures.retries < MAX_TRACK_RETRIES) {
+    playbackFailures.retries += 1;
+    try {
+      const url = await resolveTrackUrl(item, queueOptions);
+      const queued = await TrackPlayer.getTrack(index);
+      if (queued?.id === item.videoId && state.activeIndex === index) {
+        await TrackPlayer.load({ ...queued, url });
+        await TrackPlayer.play();
+        return 'retried';
+      }
+    } catch (error) {
+      console.warn('[Queue] Failed to resolve the track again', error);
+    }
+  }
+
+  playbackFailures.failedTracks += 1;
+  const next = nextQueueIndex();
+  if (playbackFailures.failedTracks >= MAX_FAILED_TRACKS || next === null || next === index) {
+    return 'stopped';
+  }
+  await prepareSkip(next);
+  await TrackPlayer.skip(next);
+  await TrackPlayer.play();
+  return 'skipped';
+}
+
+// TrackPlayer doesn't wrap around on skip, even when the queue repeats
+export async function skipToNextInQueue() {
+  const index = await TrackPlayer.getActiveTrackIndex();
+  const queueLength = (await TrackPlayer.getQueue()).length;
+  if (index === undefined || !queueLength) {
+    return;
+  }
+  if (index < queueLength - 1) {
+    await prepareSkip(index + 1);
+    await TrackPlayer.skipToNext();
+  } else if (state.repeatMode === RepeatMode.Queue) {
+    await prepareSkip(0);
+    await TrackPlayer.skip(0);
+  }
+}
+
+export async function skipToPreviousInQueue() {
+  const index = await TrackPlayer.getActiveTrackIndex();
+  const queueLength = (await TrackPlayer.getQueue()).length;
+  if (index === undefined || !queueLength) {
+    return;
+  }
+  const { position } = await TrackPlayer.getProgress();
+  if (position > RESTART_THRESHOLD_SECONDS) {
+    await TrackPlayer.seekTo(0);
+  } else if (index > 0) {
+    await prepareSkip(index - 1);
+    await TrackPlayer.skipToPrevious();
+  } else if (state.repeatMode === RepeatMode.Queue) {
+    await prepareSkip(queueLength - 1);
+    await TrackPlayer.skip(queueLength - 1);
+  } else {
+    await TrackPlayer.seekTo(0);
+  }
+}
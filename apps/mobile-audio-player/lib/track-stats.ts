@@ -0,0 +1,80 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const FAVOURITES_KEY = 'kplayer_favourite_tracks';
+const LAST_PLAYED_KEY = 'kplayer_last_played';
+const FAVOURITE_WEIGHT = 3;
+// A track played this long ago counts as fully rested in weighted shuffle
+const RECENCY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+let favourites: ReadonlySet<string> = new Set();
+// Last time each track became the active one, in ms
+let lastPlayed: Record<string, number> = {};
+let loading: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Favourites and last-played times, kept on the device for weighted shuffle.
+ * Loaded once; later calls wait for the same load.
+ */
+export function loadTrackStats() {
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const [storedFavourites, storedLastPlayed] = await Promise.all([
+          AsyncStorage.getItem(FAVOURITES_KEY),
+          AsyncStorage.getItem(LAST_PLAYED_KEY),
+        ]);
+        if (storedFavourites) {
+          favourites = new Set(JSON.parse(storedFavourites) as string[]);
+        }
+        if (storedLastPlayed) {
+          lastPlayed = JSON.parse(storedLastPlayed) as Record<string, number>;
+        }
+        listeners.forEach((listener) => listener());
+      } catch (error) {
+        console.warn('[TrackStats] Failed to load', error);
+      }
+    })();
+  }
+  return loading;
+}
+
+export function getFavourites() {
+  return favourites;
+}
+
+export function subscribeToFavourites(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function toggleFavourite(videoId: string) {
+  await loadTrackStats();
+  const next = new Set(favourites);
+  if (next.has(videoId)) {
+    next.delete(videoId);
+  } else {
+    next.add(videoId);
+  }
+  favourites = next;
+  listeners.forEach((listener) => listener());
+  await AsyncStorage.setItem(FAVOURITES_KEY, JSON.stringify([...next]));
+}
+
+export async function recordPlay(videoId: string) {
+  await loadTrackStats();
+  lastPlayed = { ...lastPlayed, [videoId]: Date.now() };
+  await AsyncStorage.setItem(LAST_PLAYED_KEY, JSON.stringify(lastPlayed));
+}
+
+/**
+ * Weight of a track in weighted shuffle: favourites count three times, and a
+ * track played just now counts a fifth of one that hasn't been played for a week.
+ */
+export function shuffleWeight(videoId: string, now = Date.now()) {
+  const playedAt = lastPlayed[videoId];
+  const rested = playedAt ? Math.min(1, (now - playedAt) / RECENCY_WINDOW_MS) : 1;
+  return (favourites.has(videoId) ? FAVOURITE_WEIGHT : 1) * (0.2 + 0.8 * rested);
+}
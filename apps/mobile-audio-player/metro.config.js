@@ -27,6 +27,10 @@ config.resolver.extraNodeModules = {
 // Note: blocklist removed to allow resolution from workspace root
 
 config.resolver.resolveRequest = (context, moduleName, platform) => {
+    // The native player has no web build; the shim plays through an <audio> element
+    if (platform === 'web' && moduleName === 'react-native-track-player') {
+        return { type: 'sourceFile', filePath: path.resolve(projectRoot, 'track-player-web-shim.js') };
+    }
     if (
         moduleName.startsWith('three/examples/jsm/') &&
         !moduleName.endsWith('.js')
@@ -1,4 +1,6 @@
-import TrackPlayer, { Event, RepeatMode } from 'react-native-track-player';
+import TrackPlayer, { Event } from 'react-native-track-player';
+
+import { skipToNextInQueue, skipToPreviousInQueue, syncActiveTrack } from './lib/playback-queue';
 
 module.exports = async function () {
     // Handle remote control events from iOS Control Center / Lock Screen
@@ -19,18 +21,18 @@ module.exports = async function () {
 
     TrackPlayer.addEventListener(Event.RemoteNext, async () => {
         console.log('Service: Remote Next');
-        const queue = await TrackPlayer.getQueue();
-        if (queue.length > 1) {
-            await TrackPlayer.skipToNext();
-        }
+        await skipToNextInQueue();
     });
 
     TrackPlayer.addEventListener(Event.RemotePrevious, async () => {
         console.log('Service: Remote Previous');
-        const queue = await TrackPlayer.getQueue();
-        if (queue.length > 1) {
-            await TrackPlayer.skipToPrevious();
-        }
+        await skipToPreviousInQueue();
+    });
+
+    // Tracks also change in the background, with no screen around to follow them
+    TrackPlayer.addEventListener(Event.PlaybackActiveTrackChanged, async (event) => {
+        console.log('Service: Active track is now', event.track?.id);
+        await syncActiveTrack(event.index, event.track);
     });
 
     TrackPlayer.addEventListener(Event.RemoteSeek, async (event) => {
@@ -38,13 +40,8 @@ module.exports = async function () {
         await TrackPlayer.seekTo(event.position);
     });
 
-    // Handle playback queue ended
-    // Note: On mobile with streaming URLs, this event may not fire reliably
-    // The main app handles looping via progress monitoring instead
-    TrackPlayer.addEventListener(Event.PlaybackQueueEnded, async (event) => {
+    TrackPlayer.addEventListener(Event.PlaybackQueueEnded, async () => {
         console.log('Service: Queue Ended');
-        const repeatMode = await TrackPlayer.getRepeatMode();
-        console.log('Service: RepeatMode is', repeatMode);
     });
 
     // Handle playback errors
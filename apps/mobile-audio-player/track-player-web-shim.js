@@ -1,4 +1,15 @@
 // Web shim for react-native-track-player
+//
+// Metro resolves the package to this file on web (see metro.config.js). It
+// implements the part of the API the app uses on top of an HTMLAudioElement,
+// and forwards the browser's media keys through the Media Session API as the
+// same remote events the lock screen sends on native.
+//
+// One addition native doesn't have: setCrossfade(seconds) starts the next
+// track on a second element that long before the active one ends, and fades
+// the two into each other.
+
+import { useEffect, useRef, useState } from 'react';
 
 export const Capability = {
     Play: 'Play',
@@ -14,6 +25,8 @@ export const Event = {
     PlaybackError: 'playback-error',
     PlaybackQueueEnded: 'playback-queue-ended',
     PlaybackTrackChanged: 'playback-track-changed',
+    PlaybackActiveTrackChanged: 'playback-active-track-changed',
+    PlaybackProgressUpdated: 'playback-progress-updated',
     RemotePlay: 'remote-play',
     RemotePause: 'remote-pause',
     RemoteStop: 'remote-stop',
@@ -34,7 +47,10 @@ export const State = {
     Playing: 'playing',
     Paused: 'paused',
     Stopped: 'stopped',
+    Loading: 'loading',
     Buffering: 'buffering',
+    Error: 'error',
+    Ended: 'ended',
     Connecting: 'connecting',
 };
 
@@ -58,37 +74,562 @@ export const IOSCategoryOptions = {
     InterruptSpokenAudioAndMixWithOthers: 'interrupt-spoken-audio-and-mix-with-others',
 };
 
-export const usePlaybackState = () => ({ state: State.None });
-export const useProgress = () => ({ position: 0, duration: 0, buffered: 0 });
-export const useTrackPlayerEvents = () => { };
+// Media Session actions for each capability
+const MEDIA_SESSION_ACTIONS = {
+    [Capability.Play]: ['play'],
+    [Capability.Pause]: ['pause'],
+    [Capability.Stop]: ['stop'],
+    [Capability.SkipToNext]: ['nexttrack'],
+    [Capability.SkipToPrevious]: ['previoustrack'],
+    [Capability.SeekTo]: ['seekto'],
+};
+
+const listeners = new Map();
+let audio = null;
+let queue = [];
+let activeIndex = -1;
+let playbackState = State.None;
+let repeatMode = RepeatMode.Off;
+// Whether to play as soon as the active track can, like the native players
+let playWhenReady = false;
+let playbackService = null;
+let progressTimer = null;
+// Set through setVolume; the active track plays at this volume
+let volume = 1;
+let crossfadeSeconds = 0;
+// The track being faded out while the active one fades in
+let crossfade = null;
+const CROSSFADE_STEP_MS = 50;
+
+function emit(event, payload = {}) {
+    const handlers = listeners.get(event);
+    if (!handlers) {
+        return;
+    }
+    const fail = (error) => console.warn(`[TrackPlayer] ${event} listener failed`, error);
+    // Handlers run right away, in order; async ones are not awaited, but their rejections are caught
+    handlers.forEach((handler) => {
+        try {
+            Promise.resolve(handler(payload)).catch(fail);
+        } catch (error) {
+            fail(error);
+        }
+    });
+}
+
+function setState(state) {
+    if (state === playbackState) {
+        return;
+    }
+    playbackState = state;
+    emit(Event.PlaybackState, { state });
+    if (typeof navigator !== 'undefined' && navigator.mediaSession) {
+        navigator.mediaSession.playbackState =
+            state === State.Playing ? 'playing' : state === State.Paused ? 'paused' : 'none';
+    }
+}
+
+function currentProgress() {
+    if (!audio || activeIndex < 0) {
+        return { position: 0, duration: 0, buffered: 0 };
+    }
+    const track = queue[activeIndex];
+    // Live transcodes report Infinity until the stream ends
+    const duration = Number.isFinite(audio.duration) ? audio.duration : track?.duration ?? 0;
+    const buffered = audio.buffered.length ? audio.buffered.end(audio.buffered.length - 1) : 0;
+    return { position: audio.currentTime, duration, buffered };
+}
+
+function getAudio() {
+    if (audio) {
+        return audio;
+    }
+    const player = new Audio();
+    player.preload = 'auto';
+    player.volume = volume;
+    audio = player;
+
+    // A track fading out under a crossfade no longer speaks for the player
+    const whenActive = (handler) => (event) => {
+        if (player === audio) {
+            handler(event);
+        }
+    };
+    player.addEventListener('loadstart', whenActive(() => {
+        if (player.src) {
+            setState(State.Loading);
+        }
+    }));
+    player.addEventListener('waiting', whenActive(() => setState(State.Buffering)));
+    player.addEventListener('canplay', whenActive(() => {
+        if (player.paused) {
+            setState(State.Ready);
+        }
+    }));
+    player.addEventListener('playing', whenActive(() => setState(State.Playing)));
+    player.addEventListener('pause', whenActive(() => {
+        // "ended" follows and decides what comes next
+        if (!player.ended && playbackState !== State.Stopped) {
+            setState(State.Paused);
+        }
+    }));
+    player.addEventListener('ended', whenActive(handleTrackEnded));
+    player.addEventListener('error', whenActive(() => {
+        // Clearing the source on reset raises an error too
+        if (!player.src || activeIndex < 0) {
+            return;
+        }
+        const mediaError = player.error;
+        playWhenReady = false;
+        setState(State.Error);
+        emit(Event.PlaybackError, {
+            code: `web_media_error_${mediaError?.code ?? 0}`,
+            message: mediaError?.message || 'The track could not be played',
+        });
+    }));
+    player.addEventListener('timeupdate', whenActive(() => {
+        updatePositionState();
+        maybeStartCrossfade();
+    }));
+
+    return player;
+}
+
+function handleTrackEnded() {
+    const next = activeIndex + 1;
+    if (next < queue.length) {
+        loadTrack(next);
+    } else if (repeatMode === RepeatMode.Queue && queue.length) {
+        loadTrack(0);
+    } else {
+        playWhenReady = false;
+        setState(State.Ended);
+        emit(Event.PlaybackQueueEnded, { track: activeIndex, position: audio.currentTime });
+    }
+}
+
+function startPlayback() {
+    getAudio().play().catch((error) => {
+        // Autoplay policy: the browser wants a user gesture first
+        if (error?.name === 'NotAllowedError') {
+            playWhenReady = false;
+            setState(State.Paused);
+            return;
+        }
+        // Replaced sources abort the pending play(), which is expected
+        if (error?.name !== 'AbortError') {
+            console.warn('[TrackPlayer] play() failed', error);
+        }
+    });
+}
+
+// With `crossfadeMs`, the track loads on a fresh element while the current one fades out
+function loadTrack(index, initialPosition, crossfadeMs = 0) {
+    const lastIndex = activeIndex;
+    const lastTrack = queue[lastIndex];
+    const lastPosition = audio ? audio.currentTime : 0;
+    if (crossfadeMs > 0) {
+        beginCrossfade(crossfadeMs);
+    }
+    const player = getAudio();
+
+    activeIndex = index;
+    const track = queue[index];
+    player.src = track.url;
+    player.loop = repeatMode === RepeatMode.Track;
+    if (initialPosition) {
+        player.addEventListener('loadedmetadata', () => {
+            player.currentTime = initialPosition;
+        }, { once: true });
+    }
+    updateMediaMetadata(track);
+    emit(Event.PlaybackActiveTrackChanged, {
+        lastIndex: lastIndex >= 0 ? lastIndex : undefined,
+        lastTrack,
+        lastPosition,
+        index,
+        track,
+    });
+    if (playWhenReady) {
+        startPlayback();
+    }
+}
+
+// Where a crossfade leads: nowhere when the track repeats or the queue ends
+function crossfadeTarget() {
+    if (repeatMode === RepeatMode.Track) {
+        return -1;
+    }
+    if (activeIndex + 1 < queue.length) {
+        return activeIndex + 1;
+    }
+    return repeatMode === RepeatMode.Queue && queue.length > 1 ? 0 : -1;
+}
+
+function maybeStartCrossfade() {
+    // Live transcodes have no duration to count down from
+    if (!crossfadeSeconds || crossfade || !playWhenReady || audio.paused || !Number.isFinite(audio.duration)) {
+        return;
+    }
+    const remaining = audio.duration - audio.currentTime;
+    const next = crossfadeTarget();
+    if (next < 0 || remaining <= 0 || remaining > crossfadeSeconds) {
+        return;
+    }
+    loadTrack(next, undefined, remaining * 1000);
+}
+
+function beginCrossfade(durationMs) {
+    finishCrossfade();
+    const outgoing = audio;
+    audio = null;
+    const incoming = getAudio();
+    incoming.volume = 0;
+    incoming.playbackRate = outgoing.playbackRate;
+    crossfade = {
+        outgoing,
+        outgoingVolume: outgoing.volume,
+        startedAt: Date.now(),
+        durationMs,
+        timer: setInterval(stepCrossfade, CROSSFADE_STEP_MS),
+    };
+}
+
+function stepCrossfade() {
+    const progress = Math.min(1, (Date.now() - crossfade.startedAt) / crossfade.durationMs);
+    crossfade.outgoing.volume = crossfade.outgoingVolume * (1 - progress);
+    audio.volume = volume * progress;
+    if (progress >= 1) {
+        finishCrossfade();
+    }
+}
+
+// Drops the track fading out and gives the active one its full volume
+function finishCrossfade() {
+    if (!crossfade) {
+        return;
+    }
+    const { outgoing, timer } = crossfade;
+    crossfade = null;
+    clearInterval(timer);
+    outgoing.pause();
+    outgoing.removeAttribute('src');
+    outgoing.load();
+    if (audio) {
+        audio.volume = volume;
+    }
+}
+
+function unloadAudio() {
+    finishCrossfade();
+    if (!audio) {
+        return;
+    }
+    audio.pause();
+    audio.removeAttribute('src');
+    audio.load();
+}
+
+function updateMediaMetadata(track) {
+    if (typeof navigator === 'undefined' || !navigator.mediaSession || typeof MediaMetadata === 'undefined') {
+        return;
+    }
+    navigator.mediaSession.metadata = track
+        ? new MediaMetadata({
+            title: track.title ?? '',
+            artist: track.artist ?? '',
+            album: track.album ?? '',
+            artwork: track.artwork ? [{ src: track.artwork }] : [],
+        })
+        : null;
+}
+
+function updatePositionState() {
+    if (typeof navigator === 'undefined' || !navigator.mediaSession?.setPositionState) {
+        return;
+    }
+    const { position, duration } = currentProgress();
+    if (!duration || position > duration) {
+        return;
+    }
+    try {
+        navigator.mediaSession.setPositionState({ duration, position, playbackRate: audio.playbackRate });
+    } catch {
+        // Ignored: some browsers reject updates while metadata is loading
+    }
+}
+
+function registerMediaSessionActions(capabilities) {
+    if (typeof navigator === 'undefined' || !navigator.mediaSession) {
+        return;
+    }
+    const remoteEvents = {
+        play: () => emit(Event.RemotePlay),
+        pause: () => emit(Event.RemotePause),
+        stop: () => emit(Event.RemoteStop),
+        nexttrack: () => emit(Event.RemoteNext),
+        previoustrack: () => emit(Event.RemotePrevious),
+        seekto: (details) => emit(Event.RemoteSeek, { position: details.seekTime }),
+    };
+    const enabled = new Set(capabilities.flatMap((capability) => MEDIA_SESSION_ACTIONS[capability] ?? []));
+    Object.entries(remoteEvents).forEach(([action, handler]) => {
+        try {
+            navigator.mediaSession.setActionHandler(action, enabled.has(action) ? handler : null);
+        } catch {
+            // Ignored: the browser doesn't support this action
+        }
+    });
+}
+
+function checkIndex(index) {
+    if (!Number.isInteger(index) || index < 0 || index >= queue.length) {
+        throw new Error('The track index is out of bounds');
+    }
+}
 
 const TrackPlayer = {
-    setupPlayer: async () => { },
-    updateOptions: async () => { },
-    add: async () => { },
-    remove: async () => { },
-    skip: async () => { },
-    skipToNext: async () => { },
-    skipToPrevious: async () => { },
-    reset: async () => { },
-    play: async () => { },
-    pause: async () => { },
-    stop: async () => { },
-    seekTo: async () => { },
-    setVolume: async () => { },
-    setRate: async () => { },
-    setRepeatMode: async () => { },
-    getVolume: async () => 1,
-    getRate: async () => 1,
-    getTrack: async () => null,
-    getQueue: async () => [],
-    getCurrentTrack: async () => null,
-    getDuration: async () => 0,
-    getPosition: async () => 0,
-    getBufferedPosition: async () => 0,
-    getState: async () => State.None,
-    addEventListener: () => ({ remove: () => { } }),
-    registerPlaybackService: () => { },
+    setupPlayer: async () => {
+        getAudio();
+        if (playbackService) {
+            const service = playbackService;
+            playbackService = null;
+            await service()();
+        }
+    },
+    updateOptions: async (options = {}) => {
+        if (options.capabilities) {
+            registerMediaSessionActions(options.capabilities);
+        }
+        if (progressTimer) {
+            clearInterval(progressTimer);
+            progressTimer = null;
+        }
+        if (options.progressUpdateEventInterval) {
+            progressTimer = setInterval(() => {
+                if (playbackState === State.Playing) {
+                    emit(Event.PlaybackProgressUpdated, { ...currentProgress(), track: activeIndex });
+                }
+            }, options.progressUpdateEventInterval * 1000);
+        }
+    },
+    // The service runs once the player is set up, as on native
+    registerPlaybackService: (factory) => {
+        playbackService = factory;
+    },
+    addEventListener: (event, handler) => {
+        if (!listeners.has(event)) {
+            listeners.set(event, new Set());
+        }
+        listeners.get(event).add(handler);
+        return { remove: () => listeners.get(event)?.delete(handler) };
+    },
+
+    add: async (tracks, insertBeforeIndex) => {
+        const added = Array.isArray(tracks) ? tracks : [tracks];
+        const at = insertBeforeIndex === undefined || insertBeforeIndex < 0 || insertBeforeIndex > queue.length
+            ? queue.length
+            : insertBeforeIndex;
+        queue.splice(at, 0, ...added);
+        if (activeIndex < 0 && queue.length) {
+            loadTrack(0);
+        } else if (at <= activeIndex) {
+            activeIndex += added.length;
+        }
+        return at;
+    },
+    remove: async (indexes) => {
+        const removed = (Array.isArray(indexes) ? indexes : [indexes])
+            .filter((index) => index >= 0 && index < queue.length)
+            .sort((a, b) => b - a);
+        let removedActive = false;
+        removed.forEach((index) => {
+            queue.splice(index, 1);
+            if (index === activeIndex) {
+                removedActive = true;
+            } else if (index < activeIndex) {
+                activeIndex -= 1;
+            }
+        });
+        if (!removedActive) {
+            return;
+        }
+        // Like native, whatever moved into the removed track's place plays next
+        if (activeIndex < queue.length) {
+            loadTrack(activeIndex);
+        } else {
+            activeIndex = -1;
+            playWhenReady = false;
+            unloadAudio();
+            updateMediaMetadata(null);
+            setState(State.Stopped);
+        }
+    },
+    move: async (fromIndex, toIndex) => {
+        checkIndex(fromIndex);
+        const [moved] = queue.splice(fromIndex, 1);
+        const at = Math.min(Math.max(toIndex, 0), queue.length);
+        queue.splice(at, 0, moved);
+        if (fromIndex === activeIndex) {
+            activeIndex = at;
+        } else if (fromIndex < activeIndex && at >= activeIndex) {
+            activeIndex -= 1;
+        } else if (fromIndex > activeIndex && at <= activeIndex) {
+            activeIndex += 1;
+        }
+    },
+    // Replaces the active track, or starts the queue with it
+    load: async (track) => {
+        if (activeIndex < 0) {
+            queue.unshift(track);
+            loadTrack(0);
+            return 0;
+        }
+        queue[activeIndex] = track;
+        loadTrack(activeIndex);
+        return activeIndex;
+    },
+    skip: async (index, initialPosition) => {
+        checkIndex(index);
+        finishCrossfade();
+        loadTrack(index, initialPosition);
+    },
+    skipToNext: async (initialPosition) => {
+        checkIndex(activeIndex + 1);
+        finishCrossfade();
+        loadTrack(activeIndex + 1, initialPosition);
+    },
+    skipToPrevious: async (initialPosition) => {
+        checkIndex(activeIndex - 1);
+        finishCrossfade();
+        loadTrack(activeIndex - 1, initialPosition);
+    },
+    reset: async () => {
+        playWhenReady = false;
+        queue = [];
+        activeIndex = -1;
+        unloadAudio();
+        updateMediaMetadata(null);
+        setState(State.None);
+    },
+    updateMetadataForTrack: async (index, metadata) => {
+        checkIndex(index);
+        queue[index] = { ...queue[index], ...metadata };
+        if (index === activeIndex) {
+            updateMediaMetadata(queue[index]);
+        }
+    },
+
+    play: async () => {
+        playWhenReady = true;
+        if (activeIndex >= 0) {
+            startPlayback();
+        }
+    },
+    pause: async () => {
+        playWhenReady = false;
+        finishCrossfade();
+        audio?.pause();
+    },
+    stop: async () => {
+        playWhenReady = false;
+        finishCrossfade();
+        if (audio) {
+            setState(State.Stopped);
+            audio.pause();
+            audio.currentTime = 0;
+        }
+    },
+    seekTo: async (position) => {
+        if (audio && activeIndex >= 0) {
+            audio.currentTime = position;
+        }
+    },
+    seekBy: async (offset) => {
+        if (audio && activeIndex >= 0) {
+            audio.currentTime = Math.max(0, audio.currentTime + offset);
+        }
+    },
+    setVolume: async (value) => {
+        volume = Math.max(0, Math.min(1, value));
+        // Mid-crossfade, the next step scales it in
+        if (!crossfade) {
+            getAudio().volume = volume;
+        }
+    },
+    getVolume: async () => volume,
+    // Web only: seconds the next track overlaps the end of the active one, 0 for none
+    setCrossfade: async (seconds) => {
+        crossfadeSeconds = Math.max(0, seconds);
+        if (!crossfadeSeconds) {
+            finishCrossfade();
+        }
+    },
+    setRate: async (rate) => {
+        getAudio().playbackRate = rate;
+    },
+    getRate: async () => (audio ? audio.playbackRate : 1),
+    setRepeatMode: async (mode) => {
+        repeatMode = mode;
+        if (audio) {
+            audio.loop = mode === RepeatMode.Track;
+        }
+    },
+    getRepeatMode: async () => repeatMode,
+
+    getQueue: async () => [...queue],
+    getTrack: async (index) => queue[index],
+    getActiveTrack: async () => queue[activeIndex],
+    getActiveTrackIndex: async () => (activeIndex >= 0 ? activeIndex : undefined),
+    getCurrentTrack: async () => (activeIndex >= 0 ? activeIndex : null),
+    getProgress: async () => currentProgress(),
+    getDuration: async () => currentProgress().duration,
+    getPosition: async () => currentProgress().position,
+    getBufferedPosition: async () => currentProgress().buffered,
+    getPlaybackState: async () => ({ state: playbackState }),
+    getState: async () => playbackState,
+};
+
+export const usePlaybackState = () => {
+    const [state, setPlaybackState] = useState(playbackState);
+    useEffect(() => {
+        setPlaybackState(playbackState);
+        const subscription = TrackPlayer.addEventListener(Event.PlaybackState, (event) => {
+            setPlaybackState(event.state);
+        });
+        return () => subscription.remove();
+    }, []);
+    return { state };
+};
+
+export const useProgress = (updateInterval = 1000) => {
+    const [progress, setProgress] = useState(currentProgress);
+    useEffect(() => {
+        const timer = setInterval(() => {
+            const next = currentProgress();
+            setProgress((previous) =>
+                previous.position === next.position &&
+                previous.duration === next.duration &&
+                previous.buffered === next.buffered
+                    ? previous
+                    : next
+            );
+        }, updateInterval);
+        return () => clearInterval(timer);
+    }, [updateInterval]);
+    return progress;
+};
+
+export const useTrackPlayerEvents = (events, handler) => {
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+    const eventKey = events.join(',');
+
+    useEffect(() => {
+        const subscriptions = eventKey.split(',').map((type) =>
+            TrackPlayer.addEventListener(type, (payload) => handlerRef.current({ ...payload, type }))
+        );
+        return () => subscriptions.forEach((subscription) => subscription.remove());
+    }, [eventKey]);
 };
 
 export default TrackPlayer;